@@ -6,6 +6,7 @@ import { LobbyScene } from "./game/scenes/LobbyScene";
 import { GameScene } from "./game/scenes/GameScene";
 import "@fontsource/inter";
 import { useMultiplayer } from "./lib/stores/useMultiplayer";
+import { useAuth } from "./lib/stores/useAuth";
 import GameContainer from "./components/GameContainer";
 import TutorialController from "./components/TutorialController";
 
@@ -18,10 +19,17 @@ function App() {
     // Connect to the socket.io server
     connectToServer();
 
+    // Find out whether we are still logged in from an earlier visit
+    useAuth.getState().loadSession();
+
     // Configure the game
     const config: Phaser.Types.Core.GameConfig = {
       type: Phaser.AUTO,
       parent: "game-container",
+      // Lets scenes place HTML inputs (room code, chat) over the canvas
+      dom: {
+        createContainer: true,
+      },
       width: window.innerWidth,
       height: window.innerHeight,
       physics: {
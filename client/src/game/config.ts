@@ -34,6 +34,7 @@ export const UNIT_STATS = {
     defense: 1,
     range: 1,
     speed: 100,
+    sight: 5, // Vision radius in tiles for fog of war
     cost: { food: 50, ore: 0 },
     description: "Gathers resources and builds structures. Weak in combat.",
     role: "economy"
@@ -44,6 +45,7 @@ export const UNIT_STATS = {
     defense: 10,
     range: 1,
     speed: 80,
+    sight: 5,
     cost: { food: 75, ore: 50 },
     description: "Strong warriors that excel against ranged units but vulnerable to cavalry.",
     role: "combat",
@@ -56,6 +58,7 @@ export const UNIT_STATS = {
     defense: 3,
     range: 4,
     speed: 70,
+    sight: 7,
     cost: { food: 60, ore: 80 },
     description: "Archers that excel against cavalry but vulnerable to melee warriors.",
     role: "combat",
@@ -68,6 +71,7 @@ export const UNIT_STATS = {
     defense: 7,
     range: 1,
     speed: 120,
+    sight: 6,
     cost: { food: 90, ore: 60 },
     description: "Fast mounted warriors that excel against melee units but vulnerable to archers.",
     role: "combat",
@@ -80,6 +84,7 @@ export const UNIT_STATS = {
     defense: 15,
     range: 2,
     speed: 90,
+    sight: 7,
     cost: { food: 200, ore: 200 },
     description: "Powerful leader unit with special abilities. No direct counter.",
     role: "special"
@@ -91,6 +96,7 @@ export const UNIT_STATS = {
     defense: 16,
     range: 1,
     speed: 85,
+    sight: 5,
     cost: { food: 100, ore: 75 },
     description: "Elite Nephite warriors with exceptional faith. High defense and morale. Cannot be killed in their first battle.",
     role: "combat",
@@ -106,6 +112,7 @@ export const UNIT_STATS = {
     defense: 5,
     range: 3,
     speed: 140,
+    sight: 9,
     cost: { food: 85, ore: 65 },
     description: "Fast Lamanite scouts with stealth capabilities. Can reveal hidden resources and spy on enemy positions.",
     role: "stealth",
@@ -126,24 +133,28 @@ export const BUILDING_STATS = {
     health: 1000,
     defense: 15,
     size: 3,
+    sight: 8, // Vision radius in tiles for fog of war
     cost: { food: 0, ore: 0 }
   },
   barracks: {
     health: 600,
     defense: 12,
     size: 2,
+    sight: 5,
     cost: { food: 100, ore: 150 }
   },
   archeryRange: {
     health: 500,
     defense: 8,
     size: 2,
+    sight: 5,
     cost: { food: 150, ore: 100 }
   },
   wall: {
     health: 800,
     defense: 20,
     size: 1,
+    sight: 3,
     cost: { food: 50, ore: 200 }
   },
   // Nephite unique building
@@ -151,6 +162,7 @@ export const BUILDING_STATS = {
     health: 800,
     defense: 10,
     size: 3,
+    sight: 6,
     cost: { food: 200, ore: 250 },
     description: "A sacred Nephite temple that provides spiritual benefits. Grants passive healing to nearby units and increases defense of all structures.",
     factionBuilding: "Nephites",
@@ -164,6 +176,7 @@ export const BUILDING_STATS = {
     health: 650,
     defense: 15,
     size: 2,
+    sight: 6,
     cost: { food: 150, ore: 300 },
     description: "A Lamanite watchtower that provides battle advantages. Enhances attack of nearby units and reveals hidden enemies.",
     factionBuilding: "Lamanites",
@@ -251,13 +264,81 @@ export const TECH_COSTS = {
   elite: { food: 300, ore: 250 }
 };
 
+// Computer opponent
+export const AI_DIFFICULTY_SETTINGS = {
+  easy: {
+    thinkInterval: 3000,      // ms between decisions
+    targetWorkers: 6,
+    maxProductionQueue: 1,    // Units queued per building at once
+    militaryBuildings: ["barracks"],
+    researchTechs: false,
+    gatherMultiplier: 0.8,    // Applied to the AI's worker gathering efficiency
+    firstWaveTime: 360000,    // ms before the first attack wave
+    waveInterval: 150000,     // ms between attack waves
+    waveSize: 4               // Idle military units needed to launch a wave
+  },
+  normal: {
+    thinkInterval: 2000,
+    targetWorkers: 9,
+    maxProductionQueue: 2,
+    militaryBuildings: ["barracks", "archeryRange"],
+    researchTechs: true,
+    gatherMultiplier: 1,
+    firstWaveTime: 240000,
+    waveInterval: 120000,
+    waveSize: 6
+  },
+  hard: {
+    thinkInterval: 1000,
+    targetWorkers: 12,
+    maxProductionQueue: 3,
+    militaryBuildings: ["barracks", "archeryRange", "barracks"],
+    researchTechs: true,
+    gatherMultiplier: 1.2,
+    firstWaveTime: 180000,
+    waveInterval: 90000,
+    waveSize: 8
+  }
+};
+
 // Multiplayer
 export const MAX_PLAYERS = 4;
+export const MAX_OBSERVERS = 8;
+export const MIN_OBSERVER_DELAY = 30; // Shortest broadcast delay to observers while a match runs, in seconds
+export const MAX_OBSERVER_DELAY = 300; // Longest broadcast delay the host can set, in seconds
+export const CHAT_MAX_LENGTH = 200; // Characters per chat message
+export const QUICK_MATCH_SIZE = 2; // Players the quick-match queue puts in each new room
+export const GAME_SPEEDS = [0.5, 1, 1.5, 2]; // Game speed multipliers the host can pick
+export const PAUSES_PER_PLAYER = 3; // Pauses each player may call in a match
+export const PAUSE_TIMEOUT = 60; // Seconds before a paused match resumes by itself
+export const RECONNECT_GRACE_PERIOD = 60; // Seconds a player who drops out of a match has to reconnect before forfeiting
+export const MATCH_SAVE_INTERVAL = 10; // Seconds between saves of a multiplayer match in progress, for restoring it after a server restart
+// Elo ratings from ranked matches: quick-match rooms where every player has an account and there are no bots
+export const DEFAULT_RATING = 1200; // Rating before a player's first ranked match
+export const RATING_K_FACTOR = 32; // Most a rating can move in one match
+export const QUICK_MATCH_RATING_RANGE = 100; // Rating difference the quick-match queue accepts at first
+export const QUICK_MATCH_RANGE_GROWTH = 50; // Extra rating difference accepted for every 10 seconds spent waiting
+// Food and ore each player starts a match with, before faction bonuses
+export const STARTING_RESOURCES = {
+  low: { food: 100, ore: 50 },
+  standard: { food: 200, ore: 100 },
+  high: { food: 500, ore: 300 }
+};
 export const SOCKET_EVENTS = {
   JOIN_ROOM: 'joinRoom',
   LEAVE_ROOM: 'leaveRoom',
+  CREATE_ROOM: 'createRoom',
+  JOIN_QUEUE: 'joinQueue',
+  LEAVE_QUEUE: 'leaveQueue',
   UPDATE_PLAYER: 'updatePlayer',
   START_GAME: 'startGame',
+  ADD_BOT: 'addBot',
+  REMOVE_BOT: 'removeBot',
+  UPDATE_SETTINGS: 'updateSettings',
+  KICK_PLAYER: 'kickPlayer',
+  PAUSE_GAME: 'pauseGame',
+  RESUME_GAME: 'resumeGame',
+  CHAT: 'chat',
   GAME_EVENT: 'gameEvent',
   ROOM_UPDATE: 'roomUpdate',
   GAME_UPDATE: 'gameUpdate',
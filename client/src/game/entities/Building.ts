@@ -1,6 +1,7 @@
 import Phaser from "phaser";
 import { BuildingType, FactionType } from "../types";
 import { TILE_SIZE } from "../config";
+import { getProductionTime } from "@shared/production";
 
 export class Building {
   id: string;
@@ -534,53 +535,7 @@ export class Building {
   }
   
   getProductionTime(type: string): number {
-    // Base production time in milliseconds
-    let baseTime = 10000; // Default 10 seconds
-    
-    switch (type) {
-      case "worker":
-        baseTime = 10000; // 10 seconds
-        break;
-      case "melee":
-        baseTime = 15000; // 15 seconds
-        break;
-      case "ranged":
-        baseTime = 20000; // 20 seconds
-        break;
-      case "striplingWarrior":
-        baseTime = 25000; // 25 seconds - elite unit takes longer
-        break;
-      case "lamaniteScout":
-        baseTime = 12000; // 12 seconds - scout unit is faster to produce
-        break;
-      case "cavalry": 
-        baseTime = 30000; // 30 seconds - cavalry takes longer
-        break;
-      case "hero":
-        baseTime = 60000; // 60 seconds - hero units take a long time
-        break;
-    }
-    
-    // Apply faction-specific production time modifiers
-    if (this.faction === "Nephites") {
-      // Nephite-specific production bonuses
-      if (this.type === "nephiteTemple" && type === "striplingWarrior") {
-        // Temples produce Stripling Warriors faster
-        baseTime *= 0.8; // 20% faster
-      }
-    } else if (this.faction === "Lamanites") {
-      // Lamanite-specific production bonuses
-      if (this.type === "barracks" && (type === "melee" || type === "ranged")) {
-        // Lamanites produce combat units faster from barracks
-        baseTime *= 0.85; // 15% faster
-      }
-      if (this.type === "lamaniteTower" && type === "lamaniteScout") {
-        // Watch Towers produce scouts even faster
-        baseTime *= 0.7; // 30% faster
-      }
-    }
-    
-    return baseTime;
+    return getProductionTime(this.type, this.faction, type);
   }
   
   cancelProduction(index: number) {
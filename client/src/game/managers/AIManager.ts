@@ -0,0 +1,194 @@
+import Phaser from "phaser";
+import { UnitManager } from "./UnitManager";
+import { BuildingManager } from "./BuildingManager";
+import { ResourceManager } from "./ResourceManager";
+import { CombatManager } from "./CombatManager";
+import { TechManager } from "./TechManager";
+import { Unit } from "../entities/Unit";
+import { Building } from "../entities/Building";
+import { AIDifficulty, BuildingType, FactionType, MapTile, UnitType } from "../types";
+import { AI_DIFFICULTY_SETTINGS, TILE_SIZE, UNIT_STATS } from "../config";
+import { BotOrder, BotStrategy, BotView } from "@shared/botStrategy";
+
+/**
+ * Computer opponent for solo games: plays the shared BotStrategy, carrying out its orders
+ * through the same managers the local player uses
+ */
+export class AIManager {
+  private scene: Phaser.Scene;
+  private playerId: string;
+  private faction: FactionType;
+  private settings: typeof AI_DIFFICULTY_SETTINGS[AIDifficulty];
+  private strategy: BotStrategy;
+  private playerCount: number;
+  private unitManager: UnitManager;
+  private buildingManager: BuildingManager;
+  private resourceManager: ResourceManager;
+  private combatManager: CombatManager;
+  private techManager: TechManager;
+  
+  // Enemy buildings any of the AI's units has seen, so it remembers a base once out of sight
+  private seenBuildingIds: Set<string>;
+  
+  // Workers whose gathering efficiency already carries the difficulty multiplier
+  private adjustedWorkers: Set<string>;
+  
+  constructor(
+    scene: Phaser.Scene,
+    playerId: string,
+    faction: FactionType,
+    difficulty: AIDifficulty,
+    playerCount: number,
+    unitManager: UnitManager,
+    buildingManager: BuildingManager,
+    resourceManager: ResourceManager,
+    combatManager: CombatManager,
+    techManager: TechManager
+  ) {
+    this.scene = scene;
+    this.playerId = playerId;
+    this.faction = faction;
+    this.settings = AI_DIFFICULTY_SETTINGS[difficulty];
+    this.strategy = new BotStrategy("AI", difficulty);
+    this.playerCount = playerCount;
+    this.unitManager = unitManager;
+    this.buildingManager = buildingManager;
+    this.resourceManager = resourceManager;
+    this.combatManager = combatManager;
+    this.techManager = techManager;
+    this.seenBuildingIds = new Set();
+    this.adjustedWorkers = new Set();
+    
+    console.log(`AI opponent ${playerId} (${faction}) playing on ${difficulty}`);
+  }
+  
+  update(delta: number) {
+    if (!this.strategy.advance(delta)) return;
+    
+    // Without a city center the AI has been defeated
+    const cityCenter = this.getCityCenter();
+    if (!cityCenter) return;
+    
+    const units = this.unitManager.getUnitsByPlayer(this.playerId);
+    this.applyGatherMultiplier(units.filter(unit => unit.type === "worker"));
+    
+    this.strategy.think(this.getView(units, cityCenter)).forEach(order => this.carryOut(order));
+  }
+  
+  private getView(units: Unit[], cityCenter: Building): BotView {
+    const toBotBuilding = (building: Building) => ({
+      id: building.id,
+      type: building.type,
+      x: this.toTile(building.x),
+      y: this.toTile(building.y),
+      queueLength: building.productionQueue.length
+    });
+    
+    const enemyBuildings = this.buildingManager.getAllBuildings().filter(building => building.playerId !== this.playerId);
+    enemyBuildings
+      .filter(building => units.some(unit => {
+        const sight = UNIT_STATS[unit.type as keyof typeof UNIT_STATS]?.sight || 5;
+        return this.tileDistance(unit.x, unit.y, building.x, building.y) <= sight;
+      }))
+      .forEach(building => this.seenBuildingIds.add(building.id));
+    
+    return {
+      map: this.getMap(),
+      playerCount: this.playerCount,
+      resources: this.resourceManager.getPlayerResources(this.playerId),
+      units: units.map(unit => ({
+        id: unit.id,
+        type: unit.type,
+        x: this.toTile(unit.x),
+        y: this.toTile(unit.y),
+        isGathering: unit.isGathering,
+        isMoving: unit.isMoving || unit.isAttackMoving,
+        isAttacking: unit.isAttacking,
+        carryingResource: !!unit.carryingResource
+      })),
+      buildings: this.buildingManager.getBuildingsByPlayer(this.playerId).map(toBotBuilding),
+      alliedCityCenters: [toBotBuilding(cityCenter)],
+      enemyUnits: this.unitManager.getAllUnits()
+        .filter(unit => unit.playerId !== this.playerId)
+        .map(unit => ({ id: unit.id, x: this.toTile(unit.x), y: this.toTile(unit.y) })),
+      enemyBuildings: enemyBuildings.filter(building => this.seenBuildingIds.has(building.id)).map(toBotBuilding),
+      researchableTechs: this.techManager.getResearchableTechs(this.playerId, this.faction)
+    };
+  }
+  
+  private carryOut(order: BotOrder) {
+    switch (order.type) {
+      case "train":
+        this.queueUnit(order.buildingId, order.unitType);
+        break;
+      case "build":
+        this.constructBuilding(order.buildingType, order.x, order.y);
+        break;
+      case "research":
+        this.techManager.researchTechnology(order.techId, this.playerId);
+        break;
+      case "gather":
+        this.unitManager.orderUnitsToGatherResource([order.unitId], order.x, order.y);
+        break;
+      case "attack":
+        order.unitIds.forEach(unitId => this.unitManager.getUnit(unitId)?.stopAttackMove());
+        this.combatManager.orderAttack(order.unitIds, order.targetId);
+        break;
+      case "move":
+        this.unitManager.moveUnitsTo(order.unitIds, order.x, order.y);
+        break;
+      case "attackWave":
+        order.unitIds.forEach(unitId => this.unitManager.getUnit(unitId)?.startAttackMove(order.x, order.y));
+        break;
+    }
+  }
+  
+  private constructBuilding(type: BuildingType, x: number, y: number) {
+    const cost = this.resourceManager.getBuildingCost(type);
+    if (!this.resourceManager.hasEnoughResources(this.playerId, cost.food, cost.ore)) return;
+    
+    const building = this.buildingManager.createBuilding(this.playerId, type, x, y, true);
+    if (building) {
+      this.resourceManager.deductResourcesForBuilding(this.playerId, type);
+    }
+  }
+  
+  private applyGatherMultiplier(workers: Unit[]) {
+    workers.forEach(worker => {
+      if (this.adjustedWorkers.has(worker.id)) return;
+      
+      worker.gatheringEfficiency *= this.settings.gatherMultiplier;
+      this.adjustedWorkers.add(worker.id);
+    });
+  }
+  
+  /**
+   * Pay for a unit and add it to a building's production queue
+   */
+  private queueUnit(buildingId: string, unitType: UnitType): boolean {
+    const cost = this.resourceManager.getUnitCost(unitType);
+    if (!this.resourceManager.hasEnoughResources(this.playerId, cost.food, cost.ore)) return false;
+    
+    if (!this.buildingManager.queueUnitProduction(buildingId, unitType)) return false;
+    
+    this.resourceManager.deductResourcesForUnit(this.playerId, unitType);
+    return true;
+  }
+  
+  private getCityCenter(): Building | undefined {
+    return this.buildingManager.getBuildingsByTypeAndPlayer(this.playerId, "cityCenter")[0];
+  }
+  
+  private getMap(): MapTile[][] {
+    return (this.scene as any).getMap();
+  }
+  
+  // Entities store pixel positions at the center of their tile
+  private toTile(pixel: number): number {
+    return Math.floor(pixel / TILE_SIZE);
+  }
+  
+  private tileDistance(x1: number, y1: number, x2: number, y2: number): number {
+    return Phaser.Math.Distance.Between(x1, y1, x2, y2) / TILE_SIZE;
+  }
+}
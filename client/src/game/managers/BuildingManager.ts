@@ -5,6 +5,7 @@ import { UnitManager } from "./UnitManager";
 import { TILE_SIZE } from "../config";
 import { useMultiplayer } from "../../lib/stores/useMultiplayer";
 import { useAudio } from "../../lib/stores/useAudio";
+import { canBuildingProduceUnit } from "@shared/production";
 
 export class BuildingManager {
   private scene: Phaser.Scene;
@@ -19,12 +20,16 @@ export class BuildingManager {
     this.nextBuildingId = 1;
   }
   
+  /**
+   * @param id The server's ID for the building, when the server created it
+   */
   createBuilding(
     playerId: string,
     type: BuildingType,
     x: number,
     y: number,
-    fromServer: boolean = false
+    fromServer: boolean = false,
+    id?: string
   ): Building | null {
     // Get faction from player ID - first try GameScene's getPlayers method
     let faction: FactionType;
@@ -99,7 +104,7 @@ export class BuildingManager {
     }
     
     // Create unique ID
-    const buildingId = `building_${playerId}_${this.nextBuildingId++}`;
+    const buildingId = id ?? `building_${playerId}_${this.nextBuildingId++}`;
     
     // Create building
     const building = new Building(this.scene, buildingId, type, playerId, faction, x, y);
@@ -407,13 +412,18 @@ export class BuildingManager {
     }
     
     // Check if building can produce this unit type
-    if (!this.canBuildingProduceUnitType(building.type, unitType)) {
+    if (!canBuildingProduceUnit(building.type, unitType)) {
       console.warn(`Building ${building.type} cannot produce unit type ${unitType}`);
       return false;
     }
     
     // Add unit to production queue
     building.queueProduction(unitType);
+    
+    // The server runs its own queue for the local player's buildings and spawns the unit
+    if (this.isLocalBuilding(building)) {
+      useMultiplayer.getState().queueProduction(buildingId, unitType);
+    }
     return true;
   }
   
@@ -425,18 +435,14 @@ export class BuildingManager {
     }
     
     building.cancelProduction(index);
+    
+    if (this.isLocalBuilding(building)) {
+      useMultiplayer.getState().cancelProduction(buildingId, index);
+    }
     return true;
   }
   
-  private canBuildingProduceUnitType(buildingType: BuildingType, unitType: string): boolean {
-    if (buildingType === "cityCenter") {
-      return unitType === "worker";
-    } else if (buildingType === "barracks") {
-      return unitType === "melee";
-    } else if (buildingType === "archeryRange") {
-      return unitType === "ranged";
-    }
-    
-    return false;
+  private isLocalBuilding(building: Building): boolean {
+    return building.playerId === this.scene.game.registry.get("localPlayerId");
   }
 }
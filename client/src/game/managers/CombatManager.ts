@@ -1,14 +1,11 @@
 import Phaser from "phaser";
 import { UnitManager } from "./UnitManager";
-import { 
-  TILE_SIZE, 
-  COMBAT_UPDATE_RATE, 
-  COUNTER_DAMAGE_MULTIPLIER,
-  WEAKNESS_DAMAGE_MULTIPLIER,
-  UNIT_STATS
-} from "../config";
-import { UnitStats, UnitType } from "../types";
+import { TILE_SIZE, COMBAT_UPDATE_RATE } from "../config";
+import { UnitType } from "../types";
+import { resolveAttack, AttackResult } from "@shared/combat";
+import { SeededRandom } from "@shared/random";
 import { useAudio } from "../../lib/stores/useAudio";
+import { useMultiplayer } from "../../lib/stores/useMultiplayer";
 import { Unit, UnitStance } from "../entities/Unit";
 
 // Type for game Unit that includes position and other essential properties
@@ -26,12 +23,17 @@ export class CombatManager {
   private unitManager: UnitManager;
   private lastCombatUpdate: number;
   private autoEngageCheckTimer: number;
+  private combatRng: SeededRandom;
   
-  constructor(scene: Phaser.Scene, unitManager: UnitManager) {
+  /**
+   * @param seed The match seed; the server rolls combat from the same seed, so both sides agree
+   */
+  constructor(scene: Phaser.Scene, unitManager: UnitManager, seed: number) {
     this.scene = scene;
     this.unitManager = unitManager;
     this.lastCombatUpdate = 0;
     this.autoEngageCheckTimer = 0;
+    this.combatRng = new SeededRandom(seed);
   }
   
   update(delta: number) {
@@ -140,31 +142,11 @@ export class CombatManager {
         
         // Check if in range
         if (tileDistance <= unit.range) {
-          // Determine hit type for enhanced feedback
-          let hitType: 'normal' | 'critical' | 'counter' | 'weak' = 'normal';
-          
-          // Apply counter system and determine hit type
           const attackerType = unit.type as UnitType;
           const defenderType = targetUnit.type as UnitType;
           
-          // Check for counter advantage
-          if (this.isCounterUnit(attackerType, defenderType)) {
-            hitType = 'counter';
-          }
-          
-          // Check for weakness
-          if (this.isWeakToUnit(attackerType, defenderType)) {
-            hitType = 'weak';
-          }
-          
-          // Random chance for critical hit (10% chance, more for heroes)
-          const critChance = attackerType === 'hero' ? 0.15 : 0.1;
-          if (Math.random() < critChance) {
-            hitType = 'critical';
-          }
-          
-          // Attack the target with the counter system
-          const damage = this.calculateDamage(unit.attack, targetUnit.defense, unit, targetUnit);
+          // Attack the target with the shared combat rules
+          const { damage, hitType } = this.calculateDamage(unit.attack, targetUnit.defense, unit, targetUnit);
           const killed = targetUnit.takeDamage(damage);
           
           // Create visual hit impact effect based on unit types
@@ -776,132 +758,57 @@ export class CombatManager {
         this.unitManager.moveUnitsTo([attackerId], targetTileX, targetTileY);
       }
     }
+    
+    // Send the order to the server, which resolves the combat authoritatively
+    const firstAttacker = this.unitManager.getUnit(attackerIds[0]);
+    if (firstAttacker && firstAttacker.playerId === this.scene.game.registry.get("localPlayerId")) {
+      useMultiplayer.getState().attackTarget(attackerIds, targetId);
+    }
   }
   
   /**
-   * Calculate damage based on attack, defense, and unit types with enhanced sound feedback
+   * Calculate damage with the shared combat rules and show the matching counter/critical feedback
    */
-  private calculateDamage(attack: number, defense: number, attacker?: any, defender?: any): number {
-    // Base damage is attack value
-    let damage = attack;
-    let damageMultiplier = 1.0;
-    let hitType: 'normal' | 'critical' | 'counter' | 'weak' = 'normal';
+  private calculateDamage(attack: number, defense: number, attacker: Unit, defender: Unit): AttackResult {
+    const attackerType = attacker.type as UnitType;
+    const defenderType = defender.type as UnitType;
     
-    // Apply counter system bonuses if both units are combat units
-    if (attacker && defender) {
-      // Get unit types
-      const attackerType = attacker.type as UnitType;
-      const defenderType = defender.type as UnitType;
-      
-      // Check for counter bonus
-      if (this.isCounterUnit(attackerType, defenderType)) {
-        // This unit type counters the defending unit type
-        damageMultiplier *= COUNTER_DAMAGE_MULTIPLIER;
-        hitType = 'counter';
-        
+    const result = resolveAttack({ attackerType, attack, defenderType, defense }, this.combatRng);
+    const cameraControls = (window as any).cameraControls;
+    
+    switch (result.hitType) {
+      case 'counter':
         // Create a visual effect to show counter bonus
         this.createCounterEffectVisual(defender.x, defender.y, true);
         
-        // Add camera shake for counter bonus
-        const cameraControls = (window as any).cameraControls;
         if (cameraControls && cameraControls.shakeCamera) {
           cameraControls.shakeCamera(0.3, 250, 'counter');
-          console.log(`Counter bonus with camera shake! ${attackerType} is strong against ${defenderType}`);
-        } else {
-          console.log(`Counter bonus! ${attackerType} is strong against ${defenderType}`);
         }
-      }
-      
-      // Check for weakness penalty
-      if (this.isWeakToUnit(attackerType, defenderType)) {
-        // Defending unit has advantage against attacking unit
-        defense *= WEAKNESS_DAMAGE_MULTIPLIER;
-        hitType = 'weak';
+        console.log(`Counter bonus! ${attackerType} is strong against ${defenderType}`);
+        break;
         
+      case 'weak':
         // Create a visual effect to show weakness
         this.createCounterEffectVisual(attacker.x, attacker.y, false);
         
-        // Add subtle camera shake for weakness effect
-        const cameraControls = (window as any).cameraControls;
         if (cameraControls && cameraControls.shakeCamera) {
           cameraControls.shakeCamera(0.2, 200, 'weak');
-          console.log(`Weakness penalty with subtle shake! ${attackerType} is weak against ${defenderType}`);
-        } else {
-          console.log(`Weakness penalty! ${attackerType} is weak against ${defenderType}`);
         }
-      }
-      
-      // Check for critical hit (10% chance, higher for heroes)
-      const critChance = attackerType === 'hero' ? 0.15 : 0.1;
-      if (Math.random() < critChance && hitType === 'normal') {
-        // Critical hit - higher damage!
-        damageMultiplier *= 1.5;
-        hitType = 'critical';
+        console.log(`Weakness penalty! ${attackerType} is weak against ${defenderType}`);
+        break;
         
-        // Enhanced camera shake for critical hits
-        const cameraControls = (window as any).cameraControls;
+      case 'critical':
         if (cameraControls && cameraControls.shakeCamera) {
           cameraControls.shakeCamera(0.4, 300, 'critical');
-          console.log(`Critical hit with enhanced camera shake! ${Math.round(damage * damageMultiplier)} damage`);
         } else {
           // Fall back to Phaser's 2D camera shake
           this.scene.cameras.main.shake(100, 0.003);
-          console.log(`Critical hit! ${Math.round(damage * damageMultiplier)} damage`);
         }
-      }
-    }
-    
-    // Apply the damage multiplier
-    damage = damage * damageMultiplier;
-    
-    // Reduce by defense (but ensure minimum damage of 1)
-    damage = Math.max(1, damage - defense / 2);
-    
-    // Add some randomness (reduced from 40% to 30% variance for more consistent outcomes)
-    damage = Math.floor(damage * (0.85 + Math.random() * 0.3));
-    
-    // Play the appropriate sound based on hit type
-    const audioStore = useAudio.getState();
-    if (!audioStore.isMuted) {
-      switch (hitType) {
-        case 'critical':
-          audioStore.playCriticalHit();
-          break;
-        case 'counter':
-          audioStore.playCounterAttack();
-          break;
-        case 'weak':
-          audioStore.playWeaknessHit();
-          break;
-        default:
-          audioStore.playHit();
-          break;
-      }
+        console.log(`Critical hit! ${result.damage} damage`);
+        break;
     }
     
-    return damage;
-  }
-  
-  /**
-   * Determines if unitType has a counter advantage against targetType
-   */
-  private isCounterUnit(unitType: UnitType, targetType: UnitType): boolean {
-    // Get unit stats
-    const stats = UNIT_STATS[unitType] as UnitStats;
-    
-    // Check if this unit type has counters and if targetType is in the list
-    return !!(stats?.counters && stats.counters.includes(targetType));
-  }
-  
-  /**
-   * Determines if unitType is weak against targetType
-   */
-  private isWeakToUnit(unitType: UnitType, targetType: UnitType): boolean {
-    // Get unit stats
-    const stats = UNIT_STATS[unitType] as UnitStats;
-    
-    // Check if this unit type has weaknesses and if targetType is in the list
-    return !!(stats?.weakTo && stats.weakTo.includes(targetType));
+    return result;
   }
   
   /**
@@ -0,0 +1,149 @@
+import { UnitManager } from "./UnitManager";
+import { BuildingManager } from "./BuildingManager";
+import { ResourceManager } from "./ResourceManager";
+import { TILE_SIZE } from "../config";
+
+/**
+ * Draws a simulation the scene doesn't run itself (a replay, or the server's match for an observer)
+ * by mirroring server-format state onto the scene's units and buildings
+ */
+export class EntityMirror {
+  private unitManager: UnitManager;
+  private buildingManager: BuildingManager;
+  private resourceManager: ResourceManager;
+  
+  // Simulation entity ID -> scene entity ID
+  private unitIds: Map<string, string>;
+  private buildingIds: Map<string, string>;
+  // Simulation entities the scene could not place; they are not retried
+  private unplaceable: Set<string>;
+  
+  constructor(unitManager: UnitManager, buildingManager: BuildingManager, resourceManager: ResourceManager) {
+    this.unitManager = unitManager;
+    this.buildingManager = buildingManager;
+    this.resourceManager = resourceManager;
+    this.unitIds = new Map();
+    this.buildingIds = new Map();
+    this.unplaceable = new Set();
+  }
+  
+  /**
+   * Apply a full state or a delta of one (null entries mark removed entities)
+   * @param isFullState Whether entities missing from the state should be removed
+   */
+  applyState(state: any, isFullState: boolean) {
+    if (!state) return;
+    
+    if (state.kills) {
+      state.kills.forEach((kill: { entityId: string; entityType: 'unit' | 'building' }) => {
+        if (kill.entityType === 'unit') {
+          this.removeUnit(kill.entityId);
+        } else {
+          this.removeBuilding(kill.entityId);
+        }
+      });
+    }
+    
+    if (state.units) {
+      Object.entries(state.units).forEach(([simId, simUnit]: [string, any]) => {
+        if (simUnit === null) {
+          this.removeUnit(simId);
+        } else {
+          this.updateUnit(simId, simUnit);
+        }
+      });
+    }
+    
+    if (state.buildings) {
+      Object.entries(state.buildings).forEach(([simId, simBuilding]: [string, any]) => {
+        if (simBuilding === null) {
+          this.removeBuilding(simId);
+        } else {
+          this.updateBuilding(simId, simBuilding);
+        }
+      });
+    }
+    
+    if (isFullState) {
+      Array.from(this.unitIds.keys())
+        .filter(simId => !state.units?.[simId])
+        .forEach(simId => this.removeUnit(simId));
+      Array.from(this.buildingIds.keys())
+        .filter(simId => !state.buildings?.[simId])
+        .forEach(simId => this.removeBuilding(simId));
+    }
+    
+    if (state.players) {
+      Object.entries(state.players).forEach(([playerId, player]: [string, any]) => {
+        if (player.resources) {
+          this.resourceManager.updateResources(playerId, { ...player.resources });
+        }
+      });
+    }
+  }
+  
+  private updateUnit(simId: string, simUnit: any) {
+    let unit = this.unitManager.getUnit(this.unitIds.get(simId) || "");
+    if (!unit) {
+      if (this.unplaceable.has(simId)) return;
+      
+      const created = this.unitManager.createUnit(simUnit.playerId, simUnit.type, simUnit.x, simUnit.y);
+      if (!created) {
+        this.unplaceable.add(simId);
+        return;
+      }
+      this.unitIds.set(simId, created.id);
+      unit = created;
+    }
+    
+    // The simulation moves units; the scene only draws them
+    unit.path = [];
+    unit.isMoving = false;
+    unit.x = simUnit.x * TILE_SIZE + TILE_SIZE / 2;
+    unit.y = simUnit.y * TILE_SIZE + TILE_SIZE / 2;
+    unit.sprite.setPosition(unit.x, unit.y);
+    unit.health = simUnit.health;
+    unit.maxHealth = simUnit.maxHealth;
+    unit.carryingResource = simUnit.carryingResource || null;
+  }
+  
+  private updateBuilding(simId: string, simBuilding: any) {
+    let building = this.buildingManager.getBuilding(this.buildingIds.get(simId) || "");
+    if (!building) {
+      if (this.unplaceable.has(simId)) return;
+      
+      const created = this.buildingManager.createBuilding(
+        simBuilding.playerId,
+        simBuilding.type,
+        simBuilding.x,
+        simBuilding.y,
+        true
+      );
+      if (!created) {
+        this.unplaceable.add(simId);
+        return;
+      }
+      this.buildingIds.set(simId, created.id);
+      building = created;
+    }
+    
+    building.health = simBuilding.health;
+    building.maxHealth = simBuilding.maxHealth;
+  }
+  
+  private removeUnit(simId: string) {
+    const unitId = this.unitIds.get(simId);
+    if (unitId) {
+      this.unitManager.removeUnit(unitId);
+      this.unitIds.delete(simId);
+    }
+  }
+  
+  private removeBuilding(simId: string) {
+    const buildingId = this.buildingIds.get(simId);
+    if (buildingId) {
+      this.buildingManager.removeBuilding(buildingId);
+      this.buildingIds.delete(simId);
+    }
+  }
+}
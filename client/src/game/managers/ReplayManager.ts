@@ -0,0 +1,159 @@
+import Phaser from "phaser";
+import { UnitManager } from "./UnitManager";
+import { BuildingManager } from "./BuildingManager";
+import { ResourceManager } from "./ResourceManager";
+import { EntityMirror } from "./EntityMirror";
+import { ReplayData } from "@shared/replay";
+import { ReplaySimulation } from "@shared/replaySimulation";
+
+// Playback speeds offered by the controls
+const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8];
+
+// Keep a slow frame from freezing the browser while it catches up
+const MAX_STEPS_PER_FRAME = 40;
+
+/**
+ * Plays back a recorded match: re-simulates it with the same GameState the server runs,
+ * then mirrors the simulation onto the scene's units and buildings
+ */
+export class ReplayManager {
+  private scene: Phaser.Scene;
+  private replay: ReplayData;
+  private mirror: EntityMirror;
+  private simulation: ReplaySimulation;
+  private stepAccumulator: number;
+  private paused: boolean;
+  private speedIndex: number;
+  
+  // Controls
+  private statusText!: Phaser.GameObjects.Text;
+  private pauseButton!: Phaser.GameObjects.Text;
+  private speedButton!: Phaser.GameObjects.Text;
+  
+  constructor(
+    scene: Phaser.Scene,
+    replay: ReplayData,
+    unitManager: UnitManager,
+    buildingManager: BuildingManager,
+    resourceManager: ResourceManager
+  ) {
+    this.scene = scene;
+    this.replay = replay;
+    this.mirror = new EntityMirror(unitManager, buildingManager, resourceManager);
+    this.simulation = new ReplaySimulation(replay);
+    this.stepAccumulator = 0;
+    this.paused = false;
+    this.speedIndex = REPLAY_SPEEDS.indexOf(1);
+    
+    this.createControls();
+    this.mirror.applyState(this.simulation.getGameState(), true);
+  }
+  
+  update(delta: number) {
+    if (!this.paused && !this.isFinished()) {
+      this.stepAccumulator += delta * REPLAY_SPEEDS[this.speedIndex];
+      
+      let steps = 0;
+      while (this.stepAccumulator >= this.replay.stepMs && !this.isFinished() && steps < MAX_STEPS_PER_FRAME) {
+        this.stepAccumulator -= this.replay.stepMs;
+        this.simulation.step();
+        steps++;
+      }
+      
+      // Drop time we could not simulate rather than building up a backlog
+      if (steps === MAX_STEPS_PER_FRAME) {
+        this.stepAccumulator = 0;
+      }
+      
+      if (steps > 0) {
+        this.mirror.applyState(this.simulation.getGameState(), true);
+      }
+    }
+    
+    this.updateControls();
+  }
+  
+  /**
+   * Whether the recording has been played to its end
+   */
+  isFinished(): boolean {
+    return this.simulation.isFinished();
+  }
+  
+  /**
+   * Players eliminated since the last call
+   */
+  drainDefeats(): string[] {
+    return this.simulation.drainDefeats();
+  }
+  
+  togglePause() {
+    this.paused = !this.paused;
+  }
+  
+  /**
+   * Cycle to the next playback speed
+   */
+  cycleSpeed() {
+    this.speedIndex = (this.speedIndex + 1) % REPLAY_SPEEDS.length;
+  }
+  
+  private createControls() {
+    const { width, height } = this.scene.cameras.main;
+    const buttonStyle = {
+      fontFamily: "monospace",
+      fontSize: "18px",
+      color: "#ffffff",
+      backgroundColor: "#4a6c6f",
+      padding: { x: 10, y: 5 }
+    };
+    
+    this.statusText = this.scene.add.text(width / 2, height - 70, "", {
+      fontFamily: "monospace",
+      fontSize: "16px",
+      color: "#ffffff",
+      stroke: "#000000",
+      strokeThickness: 3
+    })
+      .setOrigin(0.5)
+      .setScrollFactor(0)
+      .setDepth(1000);
+    
+    this.pauseButton = this.scene.add.text(width / 2 - 60, height - 35, "PAUSE", buttonStyle)
+      .setOrigin(0.5)
+      .setScrollFactor(0)
+      .setDepth(1000)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerdown", () => this.togglePause());
+    
+    this.speedButton = this.scene.add.text(width / 2 + 60, height - 35, "1x", buttonStyle)
+      .setOrigin(0.5)
+      .setScrollFactor(0)
+      .setDepth(1000)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerdown", () => this.cycleSpeed());
+    
+    // Keyboard shortcuts: space to pause, S to change speed
+    this.scene.input.keyboard?.on('keydown-SPACE', () => this.togglePause());
+    this.scene.input.keyboard?.on('keydown-S', () => this.cycleSpeed());
+  }
+  
+  private updateControls() {
+    const elapsedSeconds = Math.floor(this.simulation.getTick() * this.replay.stepMs / 1000);
+    const totalSeconds = Math.floor(this.replay.totalTicks * this.replay.stepMs / 1000);
+    const formatTime = (seconds: number) =>
+      `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
+    
+    let status = `REPLAY ${this.replay.roomCode}  ${formatTime(elapsedSeconds)} / ${formatTime(totalSeconds)}`;
+    if (this.isFinished()) {
+      const winners = this.replay.players.filter(player => this.replay.winnerIds.includes(player.id));
+      status += winners.length > 0
+        ? `  -  ${winners.map(player => player.username).join(" & ")} win${winners.length === 1 ? "s" : ""}`
+        : "  -  finished";
+    }
+    
+    this.statusText.setText(status);
+    this.pauseButton.setText(this.paused ? "PLAY" : "PAUSE");
+    this.speedButton.setText(`${REPLAY_SPEEDS[this.speedIndex]}x`);
+  }
+}
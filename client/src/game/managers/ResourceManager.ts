@@ -1,6 +1,5 @@
 import Phaser from "phaser";
 import { FactionType, ResourceType } from "../types";
-import { useMultiplayer } from "../../lib/stores/useMultiplayer";
 import { 
   RESOURCE_GATHER_RATE, 
   RESOURCE_DECAY_RATE, 
@@ -62,11 +61,6 @@ export class ResourceManager {
     
     this.resources.set(playerId, playerResources);
     
-    // If this is the local player, sync with server
-    if (playerId === this.scene.game.registry.get("localPlayerId")) {
-      this.syncResourcesWithServer(playerId);
-    }
-    
     // Emit resources updated event
     phaserEvents.emit(EVENTS.RESOURCES_UPDATED, {
       playerId,
@@ -95,11 +89,6 @@ export class ResourceManager {
     
     this.resources.set(playerId, playerResources);
     
-    // If this is the local player, sync with server
-    if (playerId === this.scene.game.registry.get("localPlayerId")) {
-      this.syncResourcesWithServer(playerId);
-    }
-    
     // Emit resources updated event
     phaserEvents.emit(EVENTS.RESOURCES_UPDATED, {
       playerId,
@@ -109,6 +98,10 @@ export class ResourceManager {
     return true;
   }
   
+  /**
+   * Replace a player's totals, e.g. with the authoritative values from a server stateUpdate
+   * Local add/remove calls are only a prediction until the server's totals arrive
+   */
   updateResources(playerId: string, resources: { food: number; ore: number }) {
     this.resources.set(playerId, resources);
     
@@ -164,14 +157,6 @@ export class ResourceManager {
            this.removeResource(playerId, "ore", oreCost);
   }
   
-  private syncResourcesWithServer(playerId: string) {
-    const playerResources = this.getPlayerResources(playerId);
-    
-    // Use the multiplayer store to sync resources
-    const multiplayerStore = useMultiplayer.getState();
-    multiplayerStore.updateResources(playerResources);
-  }
-  
   // Get resource costs for UI display
   getUnitCost(unitType: string): { food: number; ore: number } {
     if (unitType === "worker") {
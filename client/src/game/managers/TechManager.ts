@@ -1,6 +1,6 @@
 import Phaser from "phaser";
 import { FactionType, TechInfo, UnitType, BuildingType } from "../types";
-import { TECH_COSTS } from "../config";
+import { TECH_DEFINITIONS } from "@shared/techTree";
 import { useMultiplayer } from "../../lib/stores/useMultiplayer";
 import { useAudio } from "../../lib/stores/useAudio";
 import { Unit } from "../entities/Unit";
@@ -10,348 +10,20 @@ import { EVENTS } from "../events/PhaserEvents";
 export class TechManager {
   private scene: Phaser.Scene;
   private technologies: Map<string, TechInfo>;
+  // Player ID -> IDs of the technologies that player has researched
+  private researchedTechs: Map<string, Set<string>>;
   
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
     this.technologies = new Map();
+    this.researchedTechs = new Map();
     this.initializeTechTree();
   }
   
   initializeTechTree() {
-    // ----- MILITARY TECHNOLOGIES -----
-    
-    // Common military technologies
-    this.addTech({
-      id: "advancedMetalworking",
-      name: "Advanced Metalworking",
-      description: "Better weapons and armor for all units",
-      cost: TECH_COSTS.basic,
-      prerequisites: [],
-      effects: { attack: 2, defense: 2 },
-      unlocks: {},
-      researched: false
-    });
-    
-    this.addTech({
-      id: "improvedWeaponry",
-      name: "Improved Weaponry",
-      description: "Steel-crafted weapons increase unit attack power",
-      cost: TECH_COSTS.advanced,
-      prerequisites: ["advancedMetalworking"],
-      effects: { attack: 3 },
-      unlocks: {},
-      researched: false
-    });
-    
-    this.addTech({
-      id: "combatFormations",
-      name: "Combat Formations",
-      description: "Units fight more effectively in groups",
-      cost: TECH_COSTS.advanced,
-      prerequisites: ["advancedMetalworking"],
-      effects: { attack: 1, groupBonus: 0.5 },
-      unlocks: {},
-      researched: false
-    });
-    
-    this.addTech({
-      id: "advancedTraining",
-      name: "Advanced Training",
-      description: "Units gain combat experience faster",
-      cost: TECH_COSTS.elite,
-      prerequisites: ["combatFormations"],
-      effects: { experienceRate: 1.5 },
-      unlocks: {},
-      researched: false
-    });
-    
-    // Nephite military technologies
-    this.addTech({
-      id: "nephiteShields",
-      name: "Nephite Shields",
-      description: "Improved shield design offers better protection",
-      cost: TECH_COSTS.basic,
-      prerequisites: [],
-      effects: { defense: 3 },
-      unlocks: {},
-      faction: "Nephites",
-      researched: false
-    });
-    
-    this.addTech({
-      id: "nephiteArchery",
-      name: "Advanced Archery",
-      description: "Nephite ranged units gain increased range and damage",
-      cost: TECH_COSTS.advanced,
-      prerequisites: ["nephiteShields"],
-      effects: { rangedAttack: 3, rangedRange: 1 },
-      unlocks: { buildings: ["archeryRange"] },
-      faction: "Nephites",
-      researched: false
-    });
-    
-    this.addTech({
-      id: "captainMoroniTactics",
-      name: "Captain Moroni's Tactics",
-      description: "Inspired military tactics greatly improve unit coordination",
-      cost: TECH_COSTS.elite,
-      prerequisites: ["nephiteArchery"],
-      effects: { attack: 2, defense: 2, rangedAttack: 1 },
-      unlocks: { units: ["hero"] },
-      faction: "Nephites",
-      researched: false
-    });
-    
-    // Lamanite military technologies
-    this.addTech({
-      id: "lamaniteWarriorTraining",
-      name: "Warrior Training",
-      description: "Lamanite melee units gain improved attack power",
-      cost: TECH_COSTS.basic,
-      prerequisites: [],
-      effects: { meleeAttack: 4 },
-      unlocks: {},
-      faction: "Lamanites",
-      researched: false
-    });
-    
-    this.addTech({
-      id: "lamaniteSwiftness",
-      name: "Swiftness",
-      description: "Lamanite units move faster",
-      cost: TECH_COSTS.advanced,
-      prerequisites: ["lamaniteWarriorTraining"],
-      effects: { speed: 1.2 },
-      unlocks: {},
-      faction: "Lamanites",
-      researched: false
-    });
-    
-    this.addTech({
-      id: "lamaniteAmbushTactics",
-      name: "Ambush Tactics",
-      description: "Units gain significant attack bonus when initiating combat",
-      cost: TECH_COSTS.elite,
-      prerequisites: ["lamaniteSwiftness"],
-      effects: { firstStrikeBonus: 5 },
-      unlocks: { units: ["hero"] },
-      faction: "Lamanites",
-      researched: false
-    });
-    
-    // ----- ECONOMY TECHNOLOGIES -----
-    
-    // Common economy technologies
-    this.addTech({
-      id: "improvedAgriculture",
-      name: "Improved Agriculture",
-      description: "More efficient food production",
-      cost: { food: 75, ore: 50 },
-      prerequisites: [],
-      effects: { foodGatherRate: 1.2 },
-      unlocks: {},
-      researched: false
-    });
-    
-    this.addTech({
-      id: "advancedMining",
-      name: "Advanced Mining",
-      description: "Improved ore extraction techniques",
-      cost: { food: 100, ore: 25 },
-      prerequisites: [],
-      effects: { oreGatherRate: 1.2 },
-      unlocks: {},
-      researched: false
-    });
-    
-    this.addTech({
-      id: "economyManagement",
-      name: "Economy Management",
-      description: "Better resource allocation and storage",
-      cost: TECH_COSTS.advanced,
-      prerequisites: ["improvedAgriculture", "advancedMining"],
-      effects: { resourceStorage: 1.5 },
-      unlocks: {},
-      researched: false
-    });
-    
-    // Nephite economy technologies
-    this.addTech({
-      id: "nephiteCraftsmen",
-      name: "Nephite Craftsmen",
-      description: "More efficient building construction",
-      cost: { food: 120, ore: 80 },
-      prerequisites: ["economyManagement"],
-      effects: { buildingCostReduction: 0.9 },
-      unlocks: {},
-      faction: "Nephites",
-      researched: false
-    });
-    
-    // Lamanite economy technologies
-    this.addTech({
-      id: "lamaniteHunters",
-      name: "Lamanite Hunters",
-      description: "More efficient food gathering",
-      cost: { food: 100, ore: 70 },
-      prerequisites: ["improvedAgriculture"],
-      effects: { foodGatherRate: 1.3 },
-      unlocks: {},
-      faction: "Lamanites",
-      researched: false
-    });
-    
-    // ----- DEFENSE TECHNOLOGIES -----
-    
-    // Common defense technologies
-    this.addTech({
-      id: "fortifications",
-      name: "Fortifications",
-      description: "Stronger walls and better defenses",
-      cost: TECH_COSTS.basic,
-      prerequisites: [],
-      effects: { buildingDefense: 5 },
-      unlocks: { buildings: ["wall"] },
-      researched: false
-    });
-    
-    this.addTech({
-      id: "advancedFortifications",
-      name: "Advanced Fortifications",
-      description: "Improved defensive structures",
-      cost: TECH_COSTS.advanced,
-      prerequisites: ["fortifications"],
-      effects: { buildingDefense: 8, buildingHealth: 1.2 },
-      unlocks: {},
-      researched: false
-    });
-    
-    // Nephite defense technologies
-    this.addTech({
-      id: "nephiteDefensiveTactics",
-      name: "Defensive Tactics",
-      description: "Advanced defensive formations inspired by Captain Moroni",
-      cost: TECH_COSTS.basic,
-      prerequisites: ["fortifications"],
-      effects: { defense: 3, buildingDefense: 2 },
-      unlocks: {},
-      faction: "Nephites",
-      researched: false
-    });
-    
-    this.addTech({
-      id: "cityFortifications",
-      name: "City Fortifications",
-      description: "Heavily fortified cities modeled after Nephite strongholds",
-      cost: TECH_COSTS.elite,
-      prerequisites: ["nephiteDefensiveTactics", "advancedFortifications"],
-      effects: { buildingHealth: 1.5, buildingDefense: 10 },
-      unlocks: {},
-      faction: "Nephites",
-      researched: false
-    });
-    
-    // Lamanite defense technologies
-    this.addTech({
-      id: "lamaniteOutposts",
-      name: "Lamanite Outposts",
-      description: "Strategic outposts to rally troops",
-      cost: TECH_COSTS.advanced,
-      prerequisites: ["fortifications"],
-      effects: { unitProductionSpeed: 1.2 },
-      unlocks: {},
-      faction: "Lamanites",
-      researched: false
-    });
-    
-    // ----- SPECIAL TECHNOLOGIES -----
-    
-    // Nephite special technologies
-    this.addTech({
-      id: "nephiteRecords",
-      name: "Nephite Record Keeping",
-      description: "Knowledge from ancient records improves all aspects of society",
-      cost: TECH_COSTS.elite,
-      prerequisites: ["nephiteDefensiveTactics", "nephiteCraftsmen"],
-      effects: { techCostReduction: 0.85, techResearchSpeed: 1.2 },
-      unlocks: {},
-      faction: "Nephites",
-      researched: false
-    });
-    
-    this.addTech({
-      id: "titleOfLiberty",
-      name: "Title of Liberty",
-      description: "Captain Moroni's rallying banner inspires your troops",
-      cost: TECH_COSTS.elite,
-      prerequisites: ["captainMoroniTactics"],
-      effects: { attack: 2, defense: 2, morale: 2 },
-      unlocks: {},
-      faction: "Nephites",
-      researched: false
-    });
-    
-    // New Nephite unique unit and building technologies
-    this.addTech({
-      id: "striplingWarriors",
-      name: "Stripling Warriors",
-      description: "Train the sons of the people of Ammon, who are known for their faith and valor",
-      cost: TECH_COSTS.elite,
-      prerequisites: ["titleOfLiberty"],
-      effects: { unitHealth: 1.1, defense: 3 },
-      unlocks: { units: ["striplingWarrior"] },
-      faction: "Nephites",
-      researched: false
-    });
-    
-    this.addTech({
-      id: "templeBlessings",
-      name: "Temple Blessings",
-      description: "Construct a temple to receive spiritual guidance and protection in battle",
-      cost: TECH_COSTS.elite,
-      prerequisites: ["nephiteRecords"],
-      effects: { unitHealing: 1.5, defense: 2 },
-      unlocks: { buildings: ["nephiteTemple"] },
-      faction: "Nephites",
-      researched: false
-    });
-    
-    // Lamanite special technologies
-    this.addTech({
-      id: "lamaniteAlliances",
-      name: "Lamanite Alliances",
-      description: "Form alliances with other tribes to strengthen your forces",
-      cost: TECH_COSTS.elite,
-      prerequisites: ["lamaniteAmbushTactics"],
-      effects: { unitProductionSpeed: 1.3, unitProductionCost: 0.9 },
-      unlocks: {},
-      faction: "Lamanites",
-      researched: false
-    });
-    
-    // New Lamanite unique unit and building technologies
-    this.addTech({
-      id: "scoutingParties",
-      name: "Scouting Parties",
-      description: "Train specialized scouts with the ability to remain hidden and gather intelligence",
-      cost: TECH_COSTS.elite,
-      prerequisites: ["lamaniteSwiftness"],
-      effects: { visionRange: 1.2, speed: 1.1 },
-      unlocks: { units: ["lamaniteScout"] },
-      faction: "Lamanites",
-      researched: false
-    });
-    
-    this.addTech({
-      id: "watchTowers",
-      name: "Watch Towers",
-      description: "Build specialized towers that grant vision advantages and boost nearby units' attack",
-      cost: TECH_COSTS.elite,
-      prerequisites: ["lamaniteOutposts"],
-      effects: { visionRange: 1.5, attack: 2 },
-      unlocks: { buildings: ["lamaniteTower"] },
-      faction: "Lamanites",
-      researched: false
+    // Tech definitions are shared with the server, which validates research
+    TECH_DEFINITIONS.forEach(definition => {
+      this.addTech({ ...definition, researched: false });
     });
   }
   
@@ -365,7 +37,7 @@ export class TechManager {
     this.technologies.forEach(tech => {
       // Include tech if it's common (no faction) or matches player's faction
       if (!tech.faction || tech.faction === faction) {
-        playerTechs.push({ ...tech });
+        playerTechs.push({ ...tech, researched: this.isTechResearched(tech.id, playerId) });
       }
     });
     
@@ -385,8 +57,7 @@ export class TechManager {
       // Check prerequisites
       if (tech.prerequisites.length > 0) {
         for (const prereq of tech.prerequisites) {
-          const prerequisiteTech = this.technologies.get(prereq);
-          if (!prerequisiteTech || !prerequisiteTech.researched) {
+          if (!this.isTechResearched(prereq, playerId)) {
             return false;
           }
         }
@@ -404,7 +75,7 @@ export class TechManager {
     }
     
     // Check if already researched
-    if (tech.researched) {
+    if (this.isTechResearched(techId, playerId)) {
       console.warn(`Technology already researched: ${techId}`);
       return false;
     }
@@ -431,8 +102,10 @@ export class TechManager {
     resourceManager.removeResource(playerId, "ore", tech.cost.ore);
     
     // Mark as researched
-    tech.researched = true;
-    this.technologies.set(techId, tech);
+    if (!this.researchedTechs.has(playerId)) {
+      this.researchedTechs.set(playerId, new Set());
+    }
+    this.researchedTechs.get(playerId)!.add(techId);
     
     // Apply effects
     this.applyTechEffects(tech, playerId);
@@ -447,12 +120,15 @@ export class TechManager {
     });
     document.dispatchEvent(techResearchedEvent);
     
-    // Show tech researched effect
-    this.showTechResearchedEffect(tech);
-    
-    // Sync with server (in a real implementation)
-    const multiplayerStore = useMultiplayer.getState();
-    multiplayerStore.researchTech(techId);
+    // Only the local player's research is announced and sent to the server (the solo AI researches too)
+    if (playerId === this.scene.game.registry.get("localPlayerId")) {
+      // Show tech researched effect
+      this.showTechResearchedEffect(tech);
+      
+      // Sync with server (in a real implementation)
+      const multiplayerStore = useMultiplayer.getState();
+      multiplayerStore.researchTech(techId);
+    }
     
     console.log(`Successfully researched technology: ${tech.name}`);
     return true;
@@ -607,9 +283,11 @@ export class TechManager {
     }
   }
   
-  isTechResearched(techId: string): boolean {
-    const tech = this.technologies.get(techId);
-    return tech ? tech.researched : false;
+  /**
+   * @param playerId Defaults to the local player
+   */
+  isTechResearched(techId: string, playerId: string = this.scene.game.registry.get("localPlayerId")): boolean {
+    return this.researchedTechs.get(playerId)?.has(techId) || false;
   }
   
   getTechById(techId: string): TechInfo | undefined {
@@ -621,7 +299,7 @@ export class TechManager {
     
     // Sum up all bonuses from researched technologies
     this.technologies.forEach(tech => {
-      if (tech.researched) {
+      if (this.isTechResearched(tech.id, playerId)) {
         if (tech.effects[stat]) {
           bonus += tech.effects[stat];
         }
@@ -645,7 +323,7 @@ export class TechManager {
     
     // Sum up all bonuses from researched technologies
     this.technologies.forEach(tech => {
-      if (tech.researched && tech.effects[`building${stat.charAt(0).toUpperCase() + stat.slice(1)}`]) {
+      if (this.isTechResearched(tech.id, playerId) && tech.effects[`building${stat.charAt(0).toUpperCase() + stat.slice(1)}`]) {
         bonus += tech.effects[`building${stat.charAt(0).toUpperCase() + stat.slice(1)}`];
       }
     });
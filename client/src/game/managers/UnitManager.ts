@@ -27,12 +27,15 @@ export class UnitManager {
     this.nextUnitId = 1;
   }
   
+  /**
+   * @param id The server's ID for the unit, when the server created it
+   */
   createUnit(
     playerId: string,
     type: UnitType,
     x: number,
     y: number,
-    fromServer: boolean = false
+    id?: string
   ): Unit | null {
     // Get faction from player ID - first try GameScene's getPlayers method
     let faction: FactionType;
@@ -84,18 +87,12 @@ export class UnitManager {
     }
     
     // Create unique ID
-    const unitId = `unit_${playerId}_${this.nextUnitId++}`;
+    const unitId = id ?? `unit_${playerId}_${this.nextUnitId++}`;
     
     // Create unit
     const unit = new Unit(this.scene, unitId, type, playerId, faction, x, y);
     this.units.set(unitId, unit);
     
-    // If not from server and this is the local player, send to server
-    if (!fromServer && playerId === this.scene.game.registry.get("localPlayerId")) {
-      const multiplayerStore = useMultiplayer.getState();
-      multiplayerStore.createUnit(playerId, type, x, y);
-    }
-    
     return unit;
   }
   
@@ -747,6 +744,12 @@ export class UnitManager {
         unit.setGatheringResource(tileX, tileY);
       }
     });
+    
+    // Gathering runs on the server too, so tell it about the local player's workers
+    const firstWorker = this.units.get(workerUnitIds[0]);
+    if (firstWorker && firstWorker.playerId === this.scene.game.registry.get("localPlayerId")) {
+      useMultiplayer.getState().gatherResource(workerUnitIds, tileX, tileY);
+    }
   }
   
   update(delta: number) {
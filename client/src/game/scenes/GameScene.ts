@@ -1,5 +1,5 @@
 import Phaser from "phaser";
-import { FactionType, GameData, MapTile, ResourceType, UnitType } from "../types";
+import { AIDifficulty, FactionType, GameData, MapTile, ResourceType, UnitType } from "../types";
 import { ResourceManager } from "../managers/ResourceManager";
 import { UnitManager } from "../managers/UnitManager";
 import { BuildingManager } from "../managers/BuildingManager";
@@ -7,18 +7,38 @@ import { PathfindingManager } from "../managers/PathfindingManager";
 import { CombatManager } from "../managers/CombatManager";
 import { TechManager } from "../managers/TechManager";
 import { TutorialManager } from "../managers/TutorialManager";
+import { ReplayManager } from "../managers/ReplayManager";
+import { EntityMirror } from "../managers/EntityMirror";
+import { AIManager } from "../managers/AIManager";
 import { GameUI } from "../ui/GameUI";
 import { phaserEvents, EVENTS } from "../events/PhaserEvents";
 import { EnhancedTechTreePanel } from "../ui/EnhancedTechTreePanel";
+import { ObserverHUD } from "../ui/ObserverHUD";
+import { ChatPanel } from "../ui/ChatPanel";
 import { useMultiplayer } from "../../lib/stores/useMultiplayer";
 import { useAudio } from "../../lib/stores/useAudio";
-import { TILE_SIZE, MAP_SIZE, CAMERA_SPEED } from "../config";
+import { TILE_SIZE, MAP_SIZE, CAMERA_SPEED, UI_PANEL_HEIGHT } from "../config";
+import { generateMap, assignStartingPositions, STARTING_POSITIONS } from "@shared/mapGeneration";
+import { createSeed } from "@shared/random";
+import { ReplayData } from "@shared/replay";
 
 export class GameScene extends Phaser.Scene {
   // Game data
   private gameData!: GameData;
   private localPlayerId!: string;
-  private players: Array<{ id: string; username: string; faction: FactionType }> = [];
+  private players: Array<{ id: string; username: string; faction: FactionType; team: number | null }> = [];
+  private isSolo: boolean = false;
+  private aiDifficulty: AIDifficulty = "normal";
+  private defeatedPlayerIds: Set<string> = new Set();
+  private gameOverShown: boolean = false;
+  private replay: ReplayData | null = null;
+  private isObserver: boolean = false;
+  
+  // Multiplayer matches run at the host's game speed and stop while a player has them paused
+  private gameSpeed: number = 1;
+  private pausedBy: string | null = null;
+  private pauseEndsAt: number = 0;
+  private pauseText: Phaser.GameObjects.Text | null = null;
   
   // Map and camera
   private map: MapTile[][] = [];
@@ -33,8 +53,13 @@ export class GameScene extends Phaser.Scene {
   private combatManager!: CombatManager;
   private techManager!: TechManager;
   private tutorialManager!: TutorialManager;
+  private replayManager: ReplayManager | null = null;
+  private entityMirror: EntityMirror | null = null;
+  private aiManagers: AIManager[] = [];
   private gameUI!: GameUI;
   private enhancedTechTree!: EnhancedTechTreePanel;
+  private observerHUD: ObserverHUD | null = null;
+  private chatPanel: ChatPanel | null = null;
   
   // Selection
   private selectedUnits: string[] = [];
@@ -58,12 +83,30 @@ export class GameScene extends Phaser.Scene {
     super("GameScene");
   }
   
-  init(data: { gameData: GameData, isSolo?: boolean }) {
+  init(data: { gameData: GameData, isSolo?: boolean, aiDifficulty?: AIDifficulty, replay?: ReplayData, observe?: boolean }) {
     this.gameData = data.gameData;
     this.localPlayerId = "local"; // In a real implementation, this would come from the server
     
+    // Replays and observed matches are watched as a spectator that owns nothing, so no commands can be issued
+    this.replay = data.replay || null;
+    this.isObserver = data.observe === true;
+    this.replayManager = null;
+    this.entityMirror = null;
+    this.observerHUD = null;
+    this.gameSpeed = this.gameData.settings?.gameSpeed ?? 1;
+    this.pausedBy = null;
+    this.pauseText = null;
+    if (this.replay) {
+      this.localPlayerId = "replay";
+    } else if (this.isObserver) {
+      this.localPlayerId = "observer";
+    }
+    
     // Check if this is a solo game
     const isSoloMode = data.isSolo === true;
+    this.isSolo = isSoloMode;
+    this.aiDifficulty = data.aiDifficulty || "normal";
+    this.aiManagers = [];
     
     // Make sure we only include players with valid factions
     this.players = this.gameData.players
@@ -71,7 +114,8 @@ export class GameScene extends Phaser.Scene {
       .map(player => ({
         id: player.id,
         username: player.username,
-        faction: player.faction as FactionType
+        faction: player.faction as FactionType,
+        team: player.team ?? null
       }));
     
     // Log game initialization
@@ -90,15 +134,27 @@ export class GameScene extends Phaser.Scene {
     // Create particle textures for resource effects
     this.createParticleTextures();
     
+    // Same seed as the server, so both sides build an identical map and roll the same combat
+    if (this.gameData.seed === undefined) {
+      this.gameData.seed = createSeed();
+    }
+    
     // Initialize the managers
     this.pathfindingManager = new PathfindingManager(this);
     this.resourceManager = new ResourceManager(this);
     this.unitManager = new UnitManager(this, this.pathfindingManager);
     this.buildingManager = new BuildingManager(this, this.unitManager);
-    this.combatManager = new CombatManager(this, this.unitManager);
+    this.combatManager = new CombatManager(this, this.unitManager, this.gameData.seed);
     this.techManager = new TechManager(this);
     this.tutorialManager = new TutorialManager(this);
     
+    // Managers look each other up, and the local player, through the game registry
+    this.registry.set("localPlayerId", this.localPlayerId);
+    this.registry.set("players", this.players);
+    this.registry.set("resourceManager", this.resourceManager);
+    this.registry.set("unitManager", this.unitManager);
+    this.registry.set("buildingManager", this.buildingManager);
+    
     // Generate the map
     this.generateMap();
     
@@ -128,14 +184,73 @@ export class GameScene extends Phaser.Scene {
       this.enhancedTechTree.toggle();
     });
     
-    // Initialize starting units and buildings for each player
-    this.initializePlayersStartingEntities();
+    // Spectators see every player's economy and army instead of a command panel
+    if (this.replay || this.isObserver) {
+      this.gameUI.setVisible(false);
+      this.observerHUD = new ObserverHUD(this, this.players, this.resourceManager, this.unitManager, this.buildingManager);
+    }
     
-    // Center camera on local player's city center
-    this.centerCameraOnPlayerCity();
+    // Multiplayer chat overlay, opened with Enter; observers only talk among themselves
+    if (!this.isSolo && !this.replay) {
+      this.chatPanel = new ChatPanel(this, {
+        x: 10,
+        y: height - UI_PANEL_HEIGHT - 190,
+        width: 360,
+        lines: 8,
+        scopes: this.isObserver ? ["all"] : ["all", "team"],
+        closable: true
+      });
+      this.input.keyboard?.on('keydown-ENTER', () => this.chatPanel?.openInput());
+      
+      this.pauseText = this.add.text(width / 2, height / 3, "", {
+        fontFamily: "monospace",
+        fontSize: "28px",
+        color: "#ffffff",
+        stroke: "#000000",
+        strokeThickness: 5,
+        align: "center"
+      })
+        .setOrigin(0.5)
+        .setScrollFactor(0)
+        .setDepth(1500)
+        .setVisible(false);
+      
+      // P pauses the match, or resumes it for everyone
+      if (!this.isObserver) {
+        this.input.keyboard?.on('keydown-P', () => {
+          const multiplayerStore = useMultiplayer.getState();
+          if (this.pausedBy) {
+            multiplayerStore.resumeGame();
+          } else {
+            multiplayerStore.pauseGame();
+          }
+        });
+      }
+    }
     
-    // Setup multiplayer event listeners
-    this.setupMultiplayerEvents();
+    if (this.replay) {
+      // The replay's simulation creates every entity
+      this.replayManager = new ReplayManager(this, this.replay, this.unitManager, this.buildingManager, this.resourceManager);
+      this.centerCameraOnPlayerCity(this.players[0]?.id);
+    } else if (this.isObserver) {
+      // Every entity comes from the server's unfiltered state stream
+      this.entityMirror = new EntityMirror(this.unitManager, this.buildingManager, this.resourceManager);
+      this.setupObserverEvents();
+    } else {
+      // Initialize starting units and buildings for each player
+      this.initializePlayersStartingEntities();
+      
+      // In solo games every other player is a computer opponent
+      if (this.isSolo) {
+        this.createAIOpponents();
+      }
+      
+      // Center camera on local player's city center
+      this.centerCameraOnPlayerCity();
+      
+      // Setup multiplayer event listeners
+      this.setupMultiplayerEvents();
+    }
     
     // Setup UI event listeners for unit controls
     this.events.on("setPatrolMode", (unitIds: string[]) => {
@@ -167,8 +282,10 @@ export class GameScene extends Phaser.Scene {
       audioStore.backgroundMusic.play().catch(e => console.log("Music play prevented:", e));
     }
     
-    // Check if this is the first time playing and start tutorial if needed
-    this.startTutorialIfFirstTime();
+    // Check if this is the first time playing and start tutorial if needed (spectators don't play)
+    if (!this.replay && !this.isObserver) {
+      this.startTutorialIfFirstTime();
+    }
     
     // Log game start
     console.log("Game started with players:", this.players);
@@ -178,10 +295,32 @@ export class GameScene extends Phaser.Scene {
     // Update camera position based on keys and edge scrolling
     this.updateCameraPosition(delta);
     
+    // Nothing moves in a paused match; the camera still does
+    if (this.pausedBy) {
+      this.updatePauseText();
+      this.updateMinimap();
+      return;
+    }
+    const gameDelta = delta * this.gameSpeed;
+    
+    // Spectated matches are driven entirely by a simulation elsewhere; the managers only draw them
+    if (this.replayManager || this.entityMirror) {
+      if (this.replayManager) {
+        this.replayManager.update(delta);
+        this.replayManager.drainDefeats().forEach(playerId => this.observerHUD?.markDefeated(playerId));
+      }
+      this.unitManager.update(gameDelta);
+      this.buildingManager.update(gameDelta);
+      this.observerHUD?.update(delta);
+      this.updateMinimap();
+      return;
+    }
+    
     // Update managers
-    this.unitManager.update(delta);
-    this.buildingManager.update(delta);
-    this.combatManager.update(delta);
+    this.unitManager.update(gameDelta);
+    this.buildingManager.update(gameDelta);
+    this.combatManager.update(gameDelta);
+    this.aiManagers.forEach(aiManager => aiManager.update(gameDelta));
     
     // Tutorial manager updates itself via its own timers and event listeners
     
@@ -198,40 +337,13 @@ export class GameScene extends Phaser.Scene {
   }
   
   private generateMap() {
-    // Initialize map array
-    this.map = [];
+    // create() has made sure there is a seed
+    this.map = generateMap(this.gameData.seed!, this.players.length);
     
     // Create layers
     const groundLayer = this.add.group();
     const resourceLayer = this.add.group();
     
-    // Create a base map filled with grass
-    for (let y = 0; y < MAP_SIZE; y++) {
-      this.map[y] = [];
-      for (let x = 0; x < MAP_SIZE; x++) {
-        // Initialize with grass
-        this.map[y][x] = {
-          x,
-          y,
-          type: 'grass',
-          walkable: true,
-          resource: null
-        };
-      }
-    }
-
-    // Generate water bodies (lakes/rivers)
-    this.generateWaterBodies();
-    
-    // Generate forest clusters
-    this.generateForestClusters();
-    
-    // Generate hill regions
-    this.generateHillRegions();
-    
-    // Add resource nodes
-    this.addResourceNodes();
-    
     // Create visual representation of the map
     for (let y = 0; y < MAP_SIZE; y++) {
       for (let x = 0; x < MAP_SIZE; x++) {
@@ -259,188 +371,6 @@ export class GameScene extends Phaser.Scene {
     console.log("Map generated successfully");
   }
   
-  private generateWaterBodies() {
-    // Create a few lakes
-    const numLakes = 3 + Math.floor(Math.random() * 3); // 3-5 lakes
-    
-    for (let i = 0; i < numLakes; i++) {
-      const centerX = 10 + Math.floor(Math.random() * (MAP_SIZE - 20)); // Avoid edges
-      const centerY = 10 + Math.floor(Math.random() * (MAP_SIZE - 20));
-      const size = 3 + Math.floor(Math.random() * 4); // Lake size 3-6
-      
-      // Create roughly circular lake
-      for (let y = centerY - size; y <= centerY + size; y++) {
-        for (let x = centerX - size; x <= centerX + size; x++) {
-          if (x >= 0 && x < MAP_SIZE && y >= 0 && y < MAP_SIZE) {
-            // Distance from center
-            const distance = Math.sqrt(Math.pow(x - centerX, 2) + Math.pow(y - centerY, 2));
-            
-            // Irregular circle with some randomness
-            if (distance <= size * (0.7 + Math.random() * 0.3)) {
-              this.map[y][x].type = 'water';
-              this.map[y][x].walkable = false;
-            }
-          }
-        }
-      }
-    }
-    
-    // Create a river or two
-    const numRivers = 1 + Math.floor(Math.random() * 2); // 1-2 rivers
-    
-    for (let i = 0; i < numRivers; i++) {
-      let x = Math.random() < 0.5 ? 0 : MAP_SIZE - 1; // Start at left or right edge
-      let y = 5 + Math.floor(Math.random() * (MAP_SIZE - 10)); // Random y position not too close to edge
-      
-      const horizontal = x === 0; // Direction of flow
-      const riverLength = MAP_SIZE - 10 - Math.floor(Math.random() * 20); // River length
-      const turns = 3 + Math.floor(Math.random() * 4); // Number of direction changes
-      
-      // For each segment of the river
-      for (let segment = 0; segment < turns; segment++) {
-        const segmentLength = Math.floor(riverLength / turns);
-        let isHorizontal = segment % 2 === 0 ? horizontal : !horizontal;
-        const direction = isHorizontal ? { x: 1, y: 0 } : { x: 0, y: 1 };
-        
-        // Add a bit of meandering
-        const meander = { x: 0, y: 0 };
-        
-        // Draw the river segment
-        for (let j = 0; j < segmentLength; j++) {
-          // Apply meandering (slight change in direction)
-          if (j % 3 === 0) {
-            meander.x = isHorizontal ? 0 : (Math.random() < 0.5 ? -1 : 1);
-            meander.y = isHorizontal ? (Math.random() < 0.5 ? -1 : 1) : 0;
-          }
-          
-          // Calculate new position
-          x += direction.x + meander.x * 0.3;
-          y += direction.y + meander.y * 0.3;
-          
-          // Ensure within bounds
-          x = Math.max(0, Math.min(MAP_SIZE - 1, Math.floor(x)));
-          y = Math.max(0, Math.min(MAP_SIZE - 1, Math.floor(y)));
-          
-          // Mark as water
-          this.map[y][x].type = 'water';
-          this.map[y][x].walkable = false;
-          
-          // Add some width to the river
-          for (let w = -1; w <= 1; w++) {
-            const nx = x + (isHorizontal ? 0 : w);
-            const ny = y + (isHorizontal ? w : 0);
-            
-            if (nx >= 0 && nx < MAP_SIZE && ny >= 0 && ny < MAP_SIZE) {
-              // Thinner at the edges with probability
-              if (w === 0 || Math.random() < 0.7) {
-                this.map[ny][nx].type = 'water';
-                this.map[ny][nx].walkable = false;
-              }
-            }
-          }
-        }
-      }
-    }
-  }
-  
-  private generateForestClusters() {
-    const numForestClusters = 4 + Math.floor(Math.random() * 4); // 4-7 forest clusters
-    
-    for (let i = 0; i < numForestClusters; i++) {
-      const centerX = 5 + Math.floor(Math.random() * (MAP_SIZE - 10));
-      const centerY = 5 + Math.floor(Math.random() * (MAP_SIZE - 10));
-      const size = 4 + Math.floor(Math.random() * 5); // Forest size 4-8
-      
-      // Create forest cluster
-      for (let y = centerY - size; y <= centerY + size; y++) {
-        for (let x = centerX - size; x <= centerX + size; x++) {
-          if (x >= 0 && x < MAP_SIZE && y >= 0 && y < MAP_SIZE) {
-            // Distance from center with some noise
-            const distance = Math.sqrt(Math.pow(x - centerX, 2) + Math.pow(y - centerY, 2)) 
-                            + Math.random() * 2 - 1;
-            
-            // Only change to forest if the tile is currently grass
-            if (distance <= size * 0.8 && this.map[y][x].type === 'grass') {
-              // More dense near center, sparser at edges
-              if (distance < size * 0.4 || Math.random() < 0.7) {
-                this.map[y][x].type = 'forest';
-              }
-            }
-          }
-        }
-      }
-    }
-  }
-  
-  private generateHillRegions() {
-    const numHillRegions = 3 + Math.floor(Math.random() * 3); // 3-5 hill regions
-    
-    for (let i = 0; i < numHillRegions; i++) {
-      const centerX = 5 + Math.floor(Math.random() * (MAP_SIZE - 10));
-      const centerY = 5 + Math.floor(Math.random() * (MAP_SIZE - 10));
-      const size = 3 + Math.floor(Math.random() * 4); // Hill size 3-6
-      
-      // Create hill region
-      for (let y = centerY - size; y <= centerY + size; y++) {
-        for (let x = centerX - size; x <= centerX + size; x++) {
-          if (x >= 0 && x < MAP_SIZE && y >= 0 && y < MAP_SIZE) {
-            // Distance from center with some noise for irregular shape
-            const distance = Math.sqrt(Math.pow(x - centerX, 2) + Math.pow(y - centerY, 2)) 
-                            + Math.random() * 1.5 - 0.75;
-            
-            // Only change to hills if the tile is currently grass
-            if (distance <= size * 0.7 && this.map[y][x].type === 'grass') {
-              this.map[y][x].type = 'hills';
-            }
-          }
-        }
-      }
-    }
-  }
-  
-  private addResourceNodes() {
-    // Add food resources to some forest tiles
-    for (let y = 0; y < MAP_SIZE; y++) {
-      for (let x = 0; x < MAP_SIZE; x++) {
-        if (this.map[y][x].type === 'forest' && Math.random() < 0.4) {
-          this.map[y][x].resource = {
-            type: 'food',
-            amount: 300 + Math.floor(Math.random() * 200) // 300-500 food
-          };
-        } else if (this.map[y][x].type === 'hills' && Math.random() < 0.6) {
-          this.map[y][x].resource = {
-            type: 'ore',
-            amount: 400 + Math.floor(Math.random() * 300) // 400-700 ore
-          };
-        }
-      }
-    }
-    
-    // Add a few strategic resource deposits in grass areas
-    const numStrategicDeposits = 5 + Math.floor(Math.random() * 6); // 5-10 strategic deposits
-    
-    for (let i = 0; i < numStrategicDeposits; i++) {
-      // Find a suitable grass tile that's not near the edge
-      let attempts = 0;
-      let x, y;
-      
-      do {
-        x = 10 + Math.floor(Math.random() * (MAP_SIZE - 20));
-        y = 10 + Math.floor(Math.random() * (MAP_SIZE - 20));
-        attempts++;
-      } while ((this.map[y][x].type !== 'grass' || this.map[y][x].resource !== null) && attempts < 100);
-      
-      if (attempts < 100) {
-        // Alternate between food and ore
-        const resourceType: ResourceType = i % 2 === 0 ? 'food' : 'ore';
-        this.map[y][x].resource = {
-          type: resourceType,
-          amount: 600 + Math.floor(Math.random() * 400) // 600-1000 resources (high value)
-        };
-      }
-    }
-  }
-  
   private addResource(x: number, y: number, type: ResourceType, amount?: number) {
     // Update map data if amount not provided
     if (!this.map[y][x].resource || amount !== undefined) {
@@ -960,33 +890,15 @@ export class GameScene extends Phaser.Scene {
   private initializePlayersStartingEntities() {
     console.log("Initializing player entities for players:", this.players);
     
-    // Determine starting positions for each player
-    const startPositions = [
-      { x: 5, y: 5 },
-      { x: MAP_SIZE - 10, y: MAP_SIZE - 10 },
-      { x: 5, y: MAP_SIZE - 10 },
-      { x: MAP_SIZE - 10, y: 5 }
-    ];
-    
+    // Starting areas were already cleared by the map generator; teammates share a side, as on the server
+    const positions = assignStartingPositions(this.players.map(player => player.team));
     for (let i = 0; i < this.players.length; i++) {
       const player = this.players[i];
-      const startPos = startPositions[i];
+      const startPos = STARTING_POSITIONS[positions[i]];
       
       // Add extra logging to debug player object
       console.log(`Setting up player ${i}:`, player);
       
-      // Ensure this area is clear for starting
-      for (let y = startPos.y - 2; y <= startPos.y + 2; y++) {
-        for (let x = startPos.x - 2; x <= startPos.x + 2; x++) {
-          if (y >= 0 && y < MAP_SIZE && x >= 0 && x < MAP_SIZE) {
-            // Clear resources and make sure it's walkable
-            this.map[y][x].resource = null;
-            this.map[y][x].type = 'grass';
-            this.map[y][x].walkable = true;
-          }
-        }
-      }
-      
       // Create starting resources - make sure we have a valid faction
       if (player && player.id && player.faction) {
         // Create starting resources
@@ -1015,16 +927,35 @@ export class GameScene extends Phaser.Scene {
     }
   }
   
+  private createAIOpponents() {
+    this.players
+      .filter(player => player.id !== this.localPlayerId)
+      .forEach(player => {
+        this.aiManagers.push(new AIManager(
+          this,
+          player.id,
+          player.faction,
+          this.aiDifficulty,
+          this.players.length,
+          this.unitManager,
+          this.buildingManager,
+          this.resourceManager,
+          this.combatManager,
+          this.techManager
+        ));
+      });
+  }
+  
   /**
-   * Centers the camera on the local player's city center
+   * Centers the camera on a player's city center (the local player's by default)
    */
-  private centerCameraOnPlayerCity() {
-    // Find the local player's city center building
-    const localPlayerBuildings = this.buildingManager.getBuildingsByPlayer(this.localPlayerId);
+  private centerCameraOnPlayerCity(playerId: string = this.localPlayerId) {
+    // Find the player's city center building
+    const localPlayerBuildings = this.buildingManager.getBuildingsByPlayer(playerId);
     const cityCenter = localPlayerBuildings.find(building => building.type === 'cityCenter');
     
     if (cityCenter) {
-      console.log("Centering camera on local player's city center", cityCenter.x, cityCenter.y);
+      console.log("Centering camera on player's city center", cityCenter.x, cityCenter.y);
       
       // Convert from tile coordinates to pixel coordinates
       const centerX = cityCenter.x * TILE_SIZE + TILE_SIZE / 2;
@@ -1033,7 +964,7 @@ export class GameScene extends Phaser.Scene {
       // Center the camera on the city center
       this.cameras.main.centerOn(centerX, centerY);
     } else {
-      console.warn("Could not find local player's city center for camera centering");
+      console.warn("Could not find player's city center for camera centering");
     }
   }
   
@@ -1057,14 +988,6 @@ export class GameScene extends Phaser.Scene {
             isReapplied: event.isReapplied
           }
         );
-      } else if (event.type === 'unitCreate') {
-        this.unitManager.createUnit(
-          event.playerId, 
-          event.unitType, 
-          event.x, 
-          event.y, 
-          true
-        );
       } else if (event.type === 'buildingCreate') {
         this.buildingManager.createBuilding(
           event.playerId, 
@@ -1073,8 +996,28 @@ export class GameScene extends Phaser.Scene {
           event.y, 
           true
         );
-      } else if (event.type === 'resourceUpdate') {
-        this.resourceManager.updateResources(event.playerId, event.resources);
+      } else if (event.type === 'playerDefeated') {
+        this.defeatedPlayerIds.add(event.playerId);
+        // The server names players by their own IDs, not the scene's local one
+        if (event.playerId === useMultiplayer.getState().playerId) {
+          this.showGameOverMessage(false);
+        }
+      } else if (event.type === 'gameOver') {
+        const playerId = useMultiplayer.getState().playerId;
+        this.showGameOverMessage(playerId !== null && event.result.winnerIds.includes(playerId));
+      } else if (event.type === 'gamePaused') {
+        this.setPaused(event.playerId, event.resumesIn);
+      } else if (event.type === 'gameResumed') {
+        this.setPaused(null);
+      } else if (event.type === 'playerDisconnected') {
+        const player = this.players.find(player => player.id === event.playerId);
+        this.gameUI.showMessage(
+          `${player?.username ?? "A player"} disconnected and has ${Math.round(event.gracePeriod / 1000)}s to reconnect`,
+          4000
+        );
+      } else if (event.type === 'playerReconnected') {
+        const player = this.players.find(player => player.id === event.playerId);
+        this.gameUI.showMessage(`${player?.username ?? "A player"} reconnected`, 3000);
       } else if (event.type === 'stateUpdate') {
         // Process state update with reconciliation
         this.processServerStateUpdate(event.changes, event.timestamp);
@@ -1082,20 +1025,75 @@ export class GameScene extends Phaser.Scene {
     });
   }
   
+  /**
+   * Observers mirror the server's full state stream and are told about eliminations and the result
+   */
+  private setupObserverEvents() {
+    let receivedFullState = false;
+    
+    useMultiplayer.getState().subscribeToGameEvents((event: any) => {
+      if (event.type === 'stateUpdate') {
+        // The first update is the whole match; later ones are deltas
+        this.entityMirror?.applyState(event.changes, !receivedFullState);
+        
+        if (!receivedFullState) {
+          receivedFullState = true;
+          this.centerCameraOnPlayerCity(this.players[0]?.id);
+        }
+      } else if (event.type === 'playerDefeated') {
+        this.defeatedPlayerIds.add(event.playerId);
+        this.observerHUD?.markDefeated(event.playerId);
+      } else if (event.type === 'gamePaused') {
+        this.setPaused(event.playerId, event.resumesIn);
+      } else if (event.type === 'gameResumed') {
+        this.setPaused(null);
+      } else if (event.type === 'gameOver') {
+        const winners = this.players.filter(player => event.result.winnerIds.includes(player.id));
+        this.showGameOverMessage(false, winners.length > 0
+          ? `${winners.map(player => player.username.toUpperCase()).join(" & ")} WIN${winners.length === 1 ? "S" : ""}`
+          : "DRAW");
+      }
+    });
+  }
+  
+  /**
+   * Show or clear the server's pause
+   * @param resumesIn Milliseconds until the server resumes the match by itself
+   */
+  private setPaused(playerId: string | null, resumesIn: number = 0) {
+    this.pausedBy = playerId;
+    this.pauseEndsAt = Date.now() + resumesIn;
+    this.pauseText?.setVisible(playerId !== null);
+    this.updatePauseText();
+  }
+  
+  private updatePauseText() {
+    if (!this.pauseText || !this.pausedBy) return;
+    
+    const player = this.players.find(player => player.id === this.pausedBy);
+    const secondsLeft = Math.max(0, Math.ceil((this.pauseEndsAt - Date.now()) / 1000));
+    const lines = [`PAUSED BY ${(player?.username ?? "A PLAYER").toUpperCase()}`, `Resumes in ${secondsLeft}s`];
+    if (!this.isObserver) {
+      lines.push("Press P to resume");
+    }
+    this.pauseText.setText(lines);
+  }
+  
   private checkVictoryConditions() {
+    // In multiplayer the server decides defeats and sends playerDefeated/gameOver
+    if (!this.isSolo) return;
+    
     // Check if any player's city center is destroyed
     for (const player of this.players) {
       const cityCenters = this.buildingManager.getBuildingsByTypeAndPlayer(player.id, 'cityCenter');
       
-      if (cityCenters.length === 0 && player.id !== 'defeated') {
+      if (cityCenters.length === 0 && !this.defeatedPlayerIds.has(player.id)) {
         // This player is defeated
         console.log(`Player ${player.id} (${player.username}) has been defeated!`);
-        
-        // Mark player as defeated
-        player.id = 'defeated';
+        this.defeatedPlayerIds.add(player.id);
         
         // Check if game is over (only one player remains)
-        const remainingPlayers = this.players.filter(p => p.id !== 'defeated');
+        const remainingPlayers = this.players.filter(p => !this.defeatedPlayerIds.has(p.id));
         
         if (remainingPlayers.length === 1) {
           // Game over - we have a winner!
@@ -1109,7 +1107,13 @@ export class GameScene extends Phaser.Scene {
     }
   }
   
-  private showGameOverMessage(isVictory: boolean) {
+  /**
+   * @param title Replaces VICTORY/DEFEAT, for spectators who neither won nor lost
+   */
+  private showGameOverMessage(isVictory: boolean, title?: string) {
+    if (this.gameOverShown) return;
+    this.gameOverShown = true;
+    
     const { width, height } = this.cameras.main;
     
     // Create overlay
@@ -1118,8 +1122,8 @@ export class GameScene extends Phaser.Scene {
       .setScrollFactor(0);
     
     // Create message
-    const message = isVictory ? "VICTORY!" : "DEFEAT!";
-    const messageColor = isVictory ? "#ffff00" : "#ff0000";
+    const message = title || (isVictory ? "VICTORY!" : "DEFEAT!");
+    const messageColor = title ? "#ffffff" : (isVictory ? "#ffff00" : "#ff0000");
     
     const text = this.add.text(width / 2, height / 2, message, {
       fontFamily: "monospace",
@@ -1308,6 +1312,17 @@ export class GameScene extends Phaser.Scene {
     this.unitManager.moveUnitsTo(unitIds, targetX, targetY, {});
   }
   
+  /**
+   * Whether a player is the local player or on their team
+   */
+  private isAlliedPlayer(playerId: string): boolean {
+    const localPlayerId = useMultiplayer.getState().playerId;
+    if (playerId === localPlayerId) return true;
+    
+    const team = this.players.find(player => player.id === localPlayerId)?.team;
+    return team !== null && team !== undefined && team === this.players.find(player => player.id === playerId)?.team;
+  }
+  
   /**
    * Process state updates from the server with reconciliation
    * @param changes State changes from server
@@ -1316,12 +1331,47 @@ export class GameScene extends Phaser.Scene {
   private processServerStateUpdate(changes: any, timestamp: number): void {
     if (!changes) return;
     
+    // Remove everything the server reports as destroyed
+    if (changes.kills) {
+      changes.kills.forEach((kill: { entityId: string; entityType: 'unit' | 'building' }) => {
+        if (kill.entityType === 'unit') {
+          this.unitManager.removeUnit(kill.entityId);
+        } else {
+          this.buildingManager.removeBuilding(kill.entityId);
+        }
+      });
+    }
+    
     // Update units based on server state
     if (changes.units) {
       Object.entries(changes.units).forEach(([unitId, unitData]: [string, any]) => {
-        const unit = this.unitManager.getUnit(unitId);
+        let unit = this.unitManager.getUnit(unitId);
         
-        if (unit) {
+        // Null marks a unit out of sight (deaths arrive as kills); the server sends the whole unit
+        // again when it is next seen, so the local copy is dropped rather than left standing still
+        if (unitData === null) {
+          if (unit) {
+            this.unitManager.removeUnit(unitId);
+          }
+          return;
+        }
+        
+        // A unit we haven't seen yet, or one coming back into sight
+        if (!unit) {
+          unit = this.unitManager.createUnit(unitData.playerId, unitData.type, unitData.x, unitData.y, unitId) ?? undefined;
+          if (!unit) return;
+        }
+        
+        // Orders for units outside our team aren't sent to us, so they follow the server's positions
+        if (!this.isAlliedPlayer(unit.playerId)) {
+          if (unitData.x !== undefined && unitData.y !== undefined) {
+            unit.path = [];
+            unit.isMoving = false;
+            unit.x = unitData.x * TILE_SIZE + TILE_SIZE / 2;
+            unit.y = unitData.y * TILE_SIZE + TILE_SIZE / 2;
+            unit.sprite.setPosition(unit.x, unit.y);
+          }
+        } else {
           // If unit was marked as predicted, check if we need to correct its position
           if (unit.isPredicted) {
             // Check if the server's position is significantly different
@@ -1364,11 +1414,11 @@ export class GameScene extends Phaser.Scene {
             unit.clearPrediction();
             console.log(`Clearing prediction for unit ${unitId} - server confirmed position`);
           }
-          
-          // Update unit health and other attributes
-          if (unitData.health !== undefined) {
-            unit.health = unitData.health;
-          }
+        }
+        
+        // Update unit health and other attributes
+        if (unitData.health !== undefined) {
+          unit.health = unitData.health;
         }
       });
     }
@@ -1376,18 +1426,44 @@ export class GameScene extends Phaser.Scene {
     // Handle buildings
     if (changes.buildings) {
       Object.entries(changes.buildings).forEach(([buildingId, buildingData]: [string, any]) => {
-        const building = this.buildingManager.getBuilding(buildingId);
+        let building = this.buildingManager.getBuilding(buildingId);
+        
+        // Null marks a building the server has removed; out of sight, the server keeps sending
+        // its last known state marked as explored instead
+        if (buildingData === null) {
+          if (building) {
+            this.buildingManager.removeBuilding(buildingId);
+          }
+          return;
+        }
+        
+        if (!building) {
+          building = this.buildingManager.createBuilding(
+            buildingData.playerId,
+            buildingData.type,
+            buildingData.x,
+            buildingData.y,
+            true,
+            buildingId
+          ) ?? undefined;
+          if (!building) return;
+        }
+        
+        // Last-seen buildings are drawn faded until the player has eyes on them again
+        building.sprite.setAlpha(buildingData.explored ? 0.5 : 1);
         
-        if (building && buildingData.health !== undefined) {
+        if (buildingData.health !== undefined) {
           building.health = buildingData.health;
         }
       });
     }
     
-    // Update player resources
-    if (changes.resources) {
-      Object.entries(changes.resources).forEach(([playerId, resourceData]: [string, any]) => {
-        this.resourceManager.updateResources(playerId, resourceData);
+    // Resource totals are owned by the server; these replace any local prediction
+    if (changes.players) {
+      Object.entries(changes.players).forEach(([playerId, playerData]: [string, any]) => {
+        if (playerData.resources) {
+          this.resourceManager.updateResources(playerId, playerData.resources);
+        }
       });
     }
     
@@ -1403,7 +1479,7 @@ export class GameScene extends Phaser.Scene {
   private placementGrid: Phaser.GameObjects.Grid | null = null;
   private validPlacementIndicator: Phaser.GameObjects.Rectangle | null = null;
   private buildingSize: { width: number, height: number } = { width: 0, height: 0 };
-
+  
   startBuildingPlacement(type: string): void {
     // Check if player has enough resources
     const buildingCost = this.resourceManager.getBuildingCost(type);
@@ -1,14 +1,40 @@
 import Phaser from "phaser";
 import { useMultiplayer } from "../../lib/stores/useMultiplayer";
-import { FactionType } from "../types";
+import { useAuth } from "../../lib/stores/useAuth";
+import { MAX_PLAYERS, GAME_SPEEDS, MIN_OBSERVER_DELAY, MAX_OBSERVER_DELAY } from "../config";
+import { AIDifficulty, FactionType } from "../types";
+import { ChatPanel } from "../ui/ChatPanel";
+import { MatchSettings, StartingResourceLevel, VictoryCondition } from "@shared/types";
+
+// Order the host's difficulty button cycles through
+const BOT_DIFFICULTIES: AIDifficulty[] = ["easy", "normal", "hard"];
+
+// Order a player's team button cycles through; null plays without a team
+const TEAMS: Array<number | null> = [null, 1, 2];
+
+// Orders the host's match setting buttons cycle through
+const STARTING_RESOURCE_LEVELS: StartingResourceLevel[] = ["low", "standard", "high"];
+const VICTORY_CONDITIONS: Array<{ condition: VictoryCondition; label: string }> = [
+  { condition: "cityCenter", label: "CITY CENTER" },
+  { condition: "units", label: "ALL UNITS" },
+  { condition: "either", label: "CITY CENTER OR UNITS" }
+];
+const OBSERVER_DELAYS = [MIN_OBSERVER_DELAY, 60, 120, MAX_OBSERVER_DELAY];
 
 export class LobbyScene extends Phaser.Scene {
   private roomCode: string = "";
-  private players: { id: string; username: string; faction: FactionType | null; ready: boolean }[] = [];
+  private players: { id: string; username: string; faction: FactionType | null; team?: number | null; ready: boolean; isBot?: boolean }[] = [];
   private localPlayerIndex: number = -1;
   private isHosting: boolean = true;
+  private isObserving: boolean = false;
+  // Set when the quick-match queue has already put us in the room
+  private isMatched: boolean = false;
+  private roomOptions: { isPublic: boolean; password?: string } = { isPublic: false };
+  private password: string | undefined;
+  private observerCountText!: Phaser.GameObjects.Text;
   private roomCodeText!: Phaser.GameObjects.Text;
   private playerListTexts: Phaser.GameObjects.Text[] = [];
+  private teamButtons: Phaser.GameObjects.Text[] = [];
   private factionButtons: Phaser.GameObjects.Container[] = [];
   private readyButton!: Phaser.GameObjects.Text;
   private isReady: boolean = false;
@@ -16,18 +42,41 @@ export class LobbyScene extends Phaser.Scene {
   private backButton!: Phaser.GameObjects.Text;
   private copyCodeButton!: Phaser.GameObjects.Text;
   
+  // Host controls for filling empty slots with server bots
+  private isHost: boolean = false;
+  private botDifficulty: AIDifficulty = "normal";
+  private addBotButton!: Phaser.GameObjects.Text;
+  private botDifficultyButton!: Phaser.GameObjects.Text;
+  private removeBotButtons: Phaser.GameObjects.Text[] = [];
+  private kickButtons: Phaser.GameObjects.Text[] = [];
+  
+  // Match settings; only the host's buttons respond
+  private settings: MatchSettings | null = null;
+  private speedButton!: Phaser.GameObjects.Text;
+  private resourcesButton!: Phaser.GameObjects.Text;
+  private victoryButton!: Phaser.GameObjects.Text;
+  private observerDelayButton!: Phaser.GameObjects.Text;
+  private mapText!: Phaser.GameObjects.Text;
+  private seedInput!: Phaser.GameObjects.DOMElement;
+  
   constructor() {
     super("LobbyScene");
   }
   
-  init(data?: { roomCode?: string }) {
+  init(data?: { roomCode?: string; observe?: boolean; matched?: boolean; create?: { isPublic: boolean; password?: string } }) {
+    // Observers watch an existing room without taking a player slot
+    this.isObserving = data?.observe === true && !!data.roomCode;
+    this.isMatched = data?.matched === true;
+    this.password = undefined;
+    
     // If a room code is provided, we're joining an existing game
     if (data?.roomCode) {
       this.roomCode = data.roomCode;
       this.isHosting = false;
     } else {
-      // Generate a new room code when hosting
-      this.roomCode = Math.random().toString(36).substring(2, 8).toUpperCase();
+      // The server picks the code of a room we create
+      this.roomCode = "";
+      this.roomOptions = data?.create || { isPublic: false };
       this.isHosting = true;
     }
   }
@@ -41,7 +90,7 @@ export class LobbyScene extends Phaser.Scene {
       .setAlpha(0.8);
     
     // Create title
-    const titleText = this.isHosting ? "HOST GAME LOBBY" : "JOIN GAME LOBBY";
+    const titleText = this.isObserving ? "OBSERVE GAME LOBBY" : (this.isHosting ? "HOST GAME LOBBY" : "JOIN GAME LOBBY");
     this.add.text(width / 2, 50, titleText, {
       fontFamily: "monospace",
       fontSize: "36px",
@@ -50,7 +99,7 @@ export class LobbyScene extends Phaser.Scene {
     }).setOrigin(0.5);
     
     // Create room code display
-    this.roomCodeText = this.add.text(width / 2 - 60, 100, `ROOM CODE: ${this.roomCode}`, {
+    this.roomCodeText = this.add.text(width / 2 - 60, 100, this.roomCode ? `ROOM CODE: ${this.roomCode}` : "CREATING ROOM...", {
       fontFamily: "monospace",
       fontSize: "24px",
       color: "#ffff00",
@@ -71,18 +120,20 @@ export class LobbyScene extends Phaser.Scene {
       .on("pointerout", () => this.copyCodeButton.setStyle({ color: "#ffffff" }))
       .on("pointerdown", () => this.copyRoomCode());
     
-    // Initialize player list
-    const username = "Player" + Math.floor(Math.random() * 1000);
-    this.players = [
+    // Initialize player list; observers are not in it
+    const username = useAuth.getState().account?.username ?? "Player";
+    this.players = this.isObserving ? [] : [
       { id: "local", username, faction: null, ready: false }
     ];
-    this.localPlayerIndex = 0;
+    this.localPlayerIndex = this.isObserving ? -1 : 0;
     
     // Add UI for player list
     this.createPlayerList();
     
     // Create faction selection buttons
-    this.createFactionButtons();
+    if (!this.isObserving) {
+      this.createFactionButtons();
+    }
     
     // Create ready button
     this.readyButton = this.add.text(width / 2, height - 180, "READY", {
@@ -124,14 +175,199 @@ export class LobbyScene extends Phaser.Scene {
       .on("pointerover", () => this.backButton.setStyle({ color: "#ffff00" }))
       .on("pointerout", () => this.backButton.setStyle({ color: "#ffffff" }))
       .on("pointerdown", () => {
+        useMultiplayer.getState().leaveRoom();
         this.scene.start("MainMenuScene");
       });
     
+    // Spectators in the room
+    this.observerCountText = this.add.text(width / 2, height - 240, "", {
+      fontFamily: "monospace",
+      fontSize: "16px",
+      color: "#aaaaaa",
+      align: "center"
+    }).setOrigin(0.5);
+    
+    // Observers can't ready up or start the match
+    if (this.isObserving) {
+      this.readyButton.setVisible(false);
+      this.startButton.setVisible(false);
+    }
+    
+    this.createBotControls();
+    this.createSettingsControls();
+    
+    // Lobby chat, including join and leave announcements
+    new ChatPanel(this, { x: 20, y: 150, width: 300, lines: 14, scopes: ["lobby"], closable: false });
+    
     // Connect to multiplayer and listen for events
     this.setupMultiplayerListeners();
+  }
+  
+  /**
+   * Buttons the host uses to add a bot at the chosen difficulty; hidden until we know we're the host
+   */
+  private createBotControls() {
+    const { width } = this.cameras.main;
+    
+    this.addBotButton = this.add.text(width - 150, 200, "ADD BOT", {
+      fontFamily: "monospace",
+      fontSize: "20px",
+      color: "#ffffff",
+      backgroundColor: "#4a6c6f",
+      padding: { x: 15, y: 8 }
+    })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerover", () => this.addBotButton.setStyle({ color: "#ffff00" }))
+      .on("pointerout", () => this.addBotButton.setStyle({ color: "#ffffff" }))
+      .on("pointerdown", () => {
+        useMultiplayer.getState().addBot(this.botDifficulty);
+      });
+    
+    this.botDifficultyButton = this.add.text(width - 150, 250, "", {
+      fontFamily: "monospace",
+      fontSize: "16px",
+      color: "#ffffff",
+      backgroundColor: "#444444",
+      padding: { x: 10, y: 5 }
+    })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerover", () => this.botDifficultyButton.setStyle({ color: "#ffff00" }))
+      .on("pointerout", () => this.botDifficultyButton.setStyle({ color: "#ffffff" }))
+      .on("pointerdown", () => {
+        const next = (BOT_DIFFICULTIES.indexOf(this.botDifficulty) + 1) % BOT_DIFFICULTIES.length;
+        this.botDifficulty = BOT_DIFFICULTIES[next];
+        this.updateBotControls();
+      });
+    
+    this.updateBotControls();
+  }
+  
+  private updateBotControls() {
+    const canAddBot = this.isHost && this.players.length < MAX_PLAYERS;
+    
+    this.addBotButton.setVisible(canAddBot);
+    this.botDifficultyButton
+      .setVisible(canAddBot)
+      .setText(`DIFFICULTY: ${this.botDifficulty.toUpperCase()}`);
+  }
+  
+  /**
+   * The next match's settings; everyone sees them, only the host can change them
+   */
+  private createSettingsControls() {
+    const { width } = this.cameras.main;
+    
+    this.add.text(width - 150, 310, "MATCH SETTINGS", {
+      fontFamily: "monospace",
+      fontSize: "18px",
+      color: "#ffffff"
+    }).setOrigin(0.5);
+    
+    this.speedButton = this.createSettingButton(350, () => {
+      const next = (GAME_SPEEDS.indexOf(this.settings!.gameSpeed) + 1) % GAME_SPEEDS.length;
+      useMultiplayer.getState().updateSettings({ gameSpeed: GAME_SPEEDS[next] });
+    });
+    
+    this.resourcesButton = this.createSettingButton(390, () => {
+      const next = (STARTING_RESOURCE_LEVELS.indexOf(this.settings!.startingResources) + 1) % STARTING_RESOURCE_LEVELS.length;
+      useMultiplayer.getState().updateSettings({ startingResources: STARTING_RESOURCE_LEVELS[next] });
+    });
+    
+    this.victoryButton = this.createSettingButton(430, () => {
+      const index = VICTORY_CONDITIONS.findIndex(option => option.condition === this.settings!.victoryCondition);
+      const next = VICTORY_CONDITIONS[(index + 1) % VICTORY_CONDITIONS.length];
+      useMultiplayer.getState().updateSettings({ victoryCondition: next.condition });
+    });
+    
+    this.observerDelayButton = this.createSettingButton(470, () => {
+      const next = (OBSERVER_DELAYS.indexOf(this.settings!.observerDelay) + 1) % OBSERVER_DELAYS.length;
+      useMultiplayer.getState().updateSettings({ observerDelay: OBSERVER_DELAYS[next] });
+    });
+    
+    this.mapText = this.add.text(width - 150, 510, "", {
+      fontFamily: "monospace",
+      fontSize: "14px",
+      color: "#ffffff"
+    }).setOrigin(0.5);
+    
+    // The host types a map seed; leaving it empty gives every match a new map
+    const inputElement = document.createElement("input");
+    inputElement.placeholder = "random";
+    inputElement.maxLength = 10;
+    inputElement.style.width = "120px";
+    inputElement.style.height = "24px";
+    inputElement.style.fontSize = "14px";
+    inputElement.style.textAlign = "center";
+    inputElement.style.fontFamily = "monospace";
+    inputElement.addEventListener("change", () => {
+      const value = inputElement.value.trim();
+      const seed = Number(value);
+      if (value === "") {
+        useMultiplayer.getState().updateSettings({ seed: null });
+      } else if (/^\d+$/.test(value) && seed <= 4294967295) {
+        useMultiplayer.getState().updateSettings({ seed });
+      } else {
+        // Not a seed; show the room's current one again
+        inputElement.value = this.settings?.seed?.toString() ?? "";
+      }
+    });
+    this.seedInput = this.add.dom(width - 150, 540, inputElement).setOrigin(0.5);
+    
+    this.updateSettingsControls();
+  }
+  
+  private createSettingButton(y: number, onClick: () => void): Phaser.GameObjects.Text {
+    const { width } = this.cameras.main;
+    
+    const button = this.add.text(width - 150, y, "", {
+      fontFamily: "monospace",
+      fontSize: "14px",
+      color: "#ffffff",
+      backgroundColor: "#444444",
+      padding: { x: 8, y: 4 }
+    })
+      .setOrigin(0.5)
+      .on("pointerover", () => button.setStyle({ color: "#ffff00" }))
+      .on("pointerout", () => button.setStyle({ color: "#ffffff" }))
+      .on("pointerdown", () => {
+        if (this.isHost && this.settings) onClick();
+      });
+    
+    return button;
+  }
+  
+  private updateSettingsControls() {
+    const settings = this.settings;
+    const buttons = [this.speedButton, this.resourcesButton, this.victoryButton, this.observerDelayButton];
+    
+    buttons.forEach(button => {
+      button.setVisible(settings !== null);
+      button.setStyle({ backgroundColor: this.isHost ? "#4a6c6f" : "#333333" });
+      if (this.isHost) {
+        button.setInteractive({ useHandCursor: true });
+      } else {
+        button.disableInteractive();
+      }
+    });
     
-    // For demo/testing, add some fake players
-    this.addFakePlayersForDemo();
+    this.mapText.setVisible(settings !== null);
+    this.seedInput.setVisible(settings !== null && this.isHost);
+    if (!settings) return;
+    
+    const victory = VICTORY_CONDITIONS.find(option => option.condition === settings.victoryCondition);
+    this.speedButton.setText(`SPEED: ${settings.gameSpeed}x`);
+    this.resourcesButton.setText(`RESOURCES: ${settings.startingResources.toUpperCase()}`);
+    this.victoryButton.setText(`LOSE WITHOUT: ${victory?.label ?? settings.victoryCondition}`);
+    this.observerDelayButton.setText(`OBSERVER DELAY: ${settings.observerDelay}s`);
+    this.mapText.setText(this.isHost ? "MAP SEED:" : `MAP SEED: ${settings.seed ?? "RANDOM"}`);
+    
+    // Don't overwrite a seed the host is still typing
+    const inputElement = this.seedInput.node as HTMLInputElement;
+    if (document.activeElement !== inputElement) {
+      inputElement.value = settings.seed?.toString() ?? "";
+    }
   }
   
   private createPlayerList() {
@@ -140,6 +376,12 @@ export class LobbyScene extends Phaser.Scene {
     // Clear existing texts
     this.playerListTexts.forEach(text => text.destroy());
     this.playerListTexts = [];
+    this.removeBotButtons.forEach(button => button.destroy());
+    this.removeBotButtons = [];
+    this.kickButtons.forEach(button => button.destroy());
+    this.kickButtons = [];
+    this.teamButtons.forEach(button => button.destroy());
+    this.teamButtons = [];
     
     // Create player list header
     this.add.text(width / 2, 150, "PLAYERS", {
@@ -171,6 +413,69 @@ export class LobbyScene extends Phaser.Scene {
       ).setOrigin(0.5);
       
       this.playerListTexts.push(playerText);
+      
+      // Players pick their own team until they ready up; the host picks for bots
+      const canChangeTeam = (isLocal && !player.ready) || (player.isBot && this.isHost);
+      const teamButton = this.add.text(playerText.x - playerText.width / 2 - 20, 200 + i * 40, `TEAM ${player.team ?? "-"}`, {
+        fontFamily: "monospace",
+        fontSize: "14px",
+        color: "#ffffff",
+        backgroundColor: canChangeTeam ? "#4a6c6f" : "#333333",
+        padding: { x: 6, y: 3 }
+      }).setOrigin(1, 0.5);
+      
+      if (canChangeTeam) {
+        teamButton
+          .setInteractive({ useHandCursor: true })
+          .on("pointerover", () => teamButton.setStyle({ color: "#ffff00" }))
+          .on("pointerout", () => teamButton.setStyle({ color: "#ffffff" }))
+          .on("pointerdown", () => {
+            const next = TEAMS[(TEAMS.indexOf(player.team ?? null) + 1) % TEAMS.length];
+            useMultiplayer.getState().updateTeam(next, player.isBot ? player.id : undefined);
+          });
+      }
+      
+      this.teamButtons.push(teamButton);
+      
+      // The host can free a bot's slot again
+      if (player.isBot && this.isHost) {
+        const removeButton = this.add.text(playerText.x + playerText.width / 2 + 20, 200 + i * 40, "REMOVE", {
+          fontFamily: "monospace",
+          fontSize: "14px",
+          color: "#ffffff",
+          backgroundColor: "#aa3333",
+          padding: { x: 6, y: 3 }
+        })
+          .setOrigin(0, 0.5)
+          .setInteractive({ useHandCursor: true })
+          .on("pointerover", () => removeButton.setStyle({ color: "#ffff00" }))
+          .on("pointerout", () => removeButton.setStyle({ color: "#ffffff" }))
+          .on("pointerdown", () => {
+            useMultiplayer.getState().removeBot(player.id);
+          });
+        
+        this.removeBotButtons.push(removeButton);
+      }
+      
+      // The host can send other players back to the main menu
+      if (!player.isBot && !isLocal && this.isHost) {
+        const kickButton = this.add.text(playerText.x + playerText.width / 2 + 20, 200 + i * 40, "KICK", {
+          fontFamily: "monospace",
+          fontSize: "14px",
+          color: "#ffffff",
+          backgroundColor: "#aa3333",
+          padding: { x: 6, y: 3 }
+        })
+          .setOrigin(0, 0.5)
+          .setInteractive({ useHandCursor: true })
+          .on("pointerover", () => kickButton.setStyle({ color: "#ffff00" }))
+          .on("pointerout", () => kickButton.setStyle({ color: "#ffffff" }))
+          .on("pointerdown", () => {
+            useMultiplayer.getState().kickPlayer(player.id);
+          });
+        
+        this.kickButtons.push(kickButton);
+      }
     }
   }
   
@@ -276,12 +581,7 @@ export class LobbyScene extends Phaser.Scene {
     this.isReady = !this.isReady;
     this.players[this.localPlayerIndex].ready = this.isReady;
     
-    // Update button appearance
-    if (this.isReady) {
-      this.readyButton.setStyle({ backgroundColor: "#22aa22" }).setText("READY ✓");
-    } else {
-      this.readyButton.setStyle({ backgroundColor: "#444444" }).setText("READY");
-    }
+    this.updateReadyButtonLabel();
     
     // Update player list
     this.createPlayerList();
@@ -294,6 +594,14 @@ export class LobbyScene extends Phaser.Scene {
     this.updateStartButtonState();
   }
   
+  private updateReadyButtonLabel() {
+    if (this.isReady) {
+      this.readyButton.setStyle({ backgroundColor: "#22aa22" }).setText("READY ✓");
+    } else {
+      this.readyButton.setStyle({ backgroundColor: "#444444" }).setText("READY");
+    }
+  }
+  
   private updateReadyButtonState() {
     const localPlayer = this.players[this.localPlayerIndex];
     
@@ -308,11 +616,18 @@ export class LobbyScene extends Phaser.Scene {
   }
   
   private updateStartButtonState() {
+    // Only the host starts the match
+    this.startButton.setVisible(this.isHost);
+    
     // Check if all players are ready and have selected factions
     const allReady = this.players.every(player => player.ready && player.faction);
     const enoughPlayers = this.players.length >= 2;
     
-    if (allReady && enoughPlayers) {
+    // Everyone on one team leaves nobody to fight
+    const firstTeam = this.players[0]?.team ?? null;
+    const twoSides = firstTeam === null || this.players.some(player => (player.team ?? null) !== firstTeam);
+    
+    if (allReady && enoughPlayers && twoSides) {
       this.startButton.setStyle({ color: "#ffffff", backgroundColor: "#22aa22" });
       this.startButton.setAlpha(1);
       this.startButton.setInteractive({ useHandCursor: true })
@@ -331,31 +646,149 @@ export class LobbyScene extends Phaser.Scene {
   private startGame() {
     console.log("Starting game with players:", this.players);
     
-    // Prepare game data
-    const gameData = {
-      players: this.players,
-      roomCode: this.roomCode,
-      map: "standard" // Default map
-    };
-    
-    // Start the game scene (not solo mode)
-    this.scene.start("GameScene", { gameData, isSolo: false });
+    // The server replies with gameStart once the match (and its map seed) exists
+    useMultiplayer.getState().startGame();
   }
   
   private setupMultiplayerListeners() {
     // In a real implementation, you would connect to Socket.io
     // and listen for player join/leave events
     const multiplayerStore = useMultiplayer.getState();
-    multiplayerStore.joinRoom(this.roomCode);
+    if (this.isHosting) {
+      multiplayerStore.createRoom(this.roomOptions);
+    } else if (!this.isMatched) {
+      multiplayerStore.joinRoom(this.roomCode, { observe: this.isObserving });
+    }
+    
+    // Every player enters the game with the server's game data, including the map seed
+    // Observers joining a match in progress get gameStart straight away
+    const unsubscribeGameEvents = multiplayerStore.subscribeToGameEvents((event) => {
+      if (event.type === "gameStart") {
+        unsubscribeGameEvents();
+        this.scene.start("GameScene", { gameData: event.gameData, isSolo: false, observe: this.isObserving });
+      } else if (event.type === "error" && event.code === "PASSWORD_REQUIRED") {
+        this.showPasswordPrompt(event.message);
+      } else if (event.type === "kicked") {
+        unsubscribeGameEvents();
+        this.scene.start("MainMenuScene", { message: "You were kicked from the room" });
+      } else if (event.type === "error" && (event.code === "JOIN_FAILED" || event.code === "AUTH_REQUIRED")) {
+        // Nothing to wait for here; go back and say why
+        unsubscribeGameEvents();
+        useMultiplayer.getState().leaveRoom();
+        this.scene.start("MainMenuScene", { message: event.message });
+      }
+    });
     
     // Listen for player updates from the store
-    useMultiplayer.subscribe((state) => {
+    const onStoreChange = (state: ReturnType<typeof useMultiplayer.getState>) => {
+      if (this.observerCountText.active) {
+        this.observerCountText.setText(state.observers.length > 0 ? `OBSERVERS: ${state.observers.length}` : "");
+      }
+      
+      // A room we created gets its code from the server
+      if (state.roomCode && state.roomCode !== this.roomCode && this.roomCodeText.active) {
+        this.roomCode = state.roomCode;
+        this.roomCodeText.setText(`ROOM CODE: ${this.roomCode}`);
+      }
+      
       if (state.players.length > 0) {
         this.players = state.players;
+        this.isHost = state.hostId !== null && state.hostId === state.playerId;
+        
+        // Bots and other players can be listed before us once the server sends the room
+        const localIndex = state.players.findIndex(player => player.id === state.playerId);
+        if (localIndex >= 0) {
+          this.localPlayerIndex = localIndex;
+          
+          // The server unreadies everyone when the host changes the settings
+          if (state.players[localIndex].ready !== this.isReady) {
+            this.isReady = state.players[localIndex].ready;
+            this.updateReadyButtonLabel();
+          }
+        }
+        
+        this.settings = state.settings;
+        
         this.createPlayerList();
         this.updateStartButtonState();
+        this.updateBotControls();
+        this.updateSettingsControls();
       }
+    };
+    useMultiplayer.subscribe(onStoreChange);
+    
+    // The room may already have been sent while the queue's matchFound brought us here
+    if (this.isMatched) {
+      onStoreChange(useMultiplayer.getState());
+    }
+  }
+  
+  /**
+   * Ask for the room's password, then try joining again; going back returns to the main menu
+   */
+  private showPasswordPrompt(reason: string) {
+    const { width, height } = this.cameras.main;
+    
+    const overlay = this.add.rectangle(0, 0, width, height, 0x000000, 0.8)
+      .setOrigin(0)
+      .setInteractive();
+    
+    const heading = this.add.text(width / 2, height / 2 - 80, reason.toUpperCase(), {
+      fontFamily: "monospace",
+      fontSize: "24px",
+      color: "#ffffff"
+    }).setOrigin(0.5);
+    
+    const inputElement = document.createElement("input");
+    inputElement.type = "password";
+    inputElement.maxLength = 32;
+    inputElement.style.width = "200px";
+    inputElement.style.height = "30px";
+    inputElement.style.fontSize = "18px";
+    inputElement.style.fontFamily = "monospace";
+    const input = this.add.dom(width / 2, height / 2 - 20, inputElement).setOrigin(0.5);
+    
+    const elements: Phaser.GameObjects.GameObject[] = [overlay, heading, input];
+    const close = () => elements.forEach(element => element.destroy());
+    
+    const submit = () => {
+      this.password = inputElement.value;
+      close();
+      useMultiplayer.getState().joinRoom(this.roomCode, { observe: this.isObserving, password: this.password });
+    };
+    inputElement.addEventListener("keydown", event => {
+      if (event.key === "Enter") submit();
     });
+    
+    const joinButton = this.add.text(width / 2 - 70, height / 2 + 50, "JOIN", {
+      fontFamily: "monospace",
+      fontSize: "24px",
+      color: "#ffffff",
+      backgroundColor: "#4a6c6f",
+      padding: { x: 15, y: 8 }
+    })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerover", () => joinButton.setStyle({ color: "#ffff00" }))
+      .on("pointerout", () => joinButton.setStyle({ color: "#ffffff" }))
+      .on("pointerdown", submit);
+    
+    const backButton = this.add.text(width / 2 + 70, height / 2 + 50, "BACK", {
+      fontFamily: "monospace",
+      fontSize: "24px",
+      color: "#ffffff",
+      backgroundColor: "#aa3333",
+      padding: { x: 15, y: 8 }
+    })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerdown", () => {
+        useMultiplayer.getState().leaveRoom();
+        this.scene.start("MainMenuScene");
+      });
+    
+    elements.push(joinButton, backButton);
+    inputElement.focus();
   }
   
   private copyRoomCode() {
@@ -392,13 +825,4 @@ export class LobbyScene extends Phaser.Scene {
       onComplete: () => message.destroy()
     });
   }
-  
-  private addFakePlayersForDemo() {
-    // For testing/demo purposes only
-    setTimeout(() => {
-      this.players.push({ id: "player2", username: "Opponent1", faction: "Lamanites", ready: true });
-      this.createPlayerList();
-      this.updateStartButtonState();
-    }, 2000);
-  }
 }
@@ -1,21 +1,41 @@
 import Phaser from "phaser";
 import { useMultiplayer } from "../../lib/stores/useMultiplayer";
 import { useAudio } from "../../lib/stores/useAudio";
+import { useAuth } from "../../lib/stores/useAuth";
+import { apiRequest } from "../../lib/queryClient";
+import { ReplayData, getReplayError } from "@shared/replay";
+import { LeaderboardPage, RatingCategory, RoomListing } from "@shared/types";
+import type { MatchRecord } from "@shared/schema";
+import { AIDifficulty } from "../types";
 
 export class MainMenuScene extends Phaser.Scene {
   private title!: Phaser.GameObjects.Text;
   private soloButton!: Phaser.GameObjects.Text;
   private multiplayerButton!: Phaser.GameObjects.Text;
+  private quickMatchButton!: Phaser.GameObjects.Text;
+  private browseButton!: Phaser.GameObjects.Text;
   private joinButton!: Phaser.GameObjects.Text;
+  private watchButton!: Phaser.GameObjects.Text;
   private howToPlayButton!: Phaser.GameObjects.Text;
+  private replayButton!: Phaser.GameObjects.Text;
+  private historyButton!: Phaser.GameObjects.Text;
+  private leaderboardButton!: Phaser.GameObjects.Text;
   private musicToggleButton!: Phaser.GameObjects.Text;
+  private accountText!: Phaser.GameObjects.Text;
+  private accountButton!: Phaser.GameObjects.Text;
   private roomCodeInput!: Phaser.GameObjects.DOMElement;
   private musicOn: boolean = false;
+  // Shown once the menu is up, e.g. why the last join failed
+  private startMessage: string | undefined;
   
   constructor() {
     super("MainMenuScene");
   }
-
+  
+  init(data?: { message?: string }) {
+    this.startMessage = data?.message;
+  }
+  
   create() {
     const { width, height } = this.cameras.main;
     
@@ -43,7 +63,7 @@ export class MainMenuScene extends Phaser.Scene {
     }).setOrigin(0.5);
     
     // Create solo play button
-    this.soloButton = this.add.text(width / 2, height / 2 - 60, "SOLO GAME", {
+    this.soloButton = this.add.text(width / 2, height / 2 - 120, "SOLO GAME", {
       fontFamily: "monospace",
       fontSize: "32px",
       color: "#ffffff",
@@ -58,6 +78,22 @@ export class MainMenuScene extends Phaser.Scene {
         this.soloGameClicked();
       });
     
+    // Create quick match button (play the next player who is also searching)
+    this.quickMatchButton = this.add.text(width / 2, height / 2 - 60, "QUICK MATCH", {
+      fontFamily: "monospace",
+      fontSize: "28px",
+      color: "#ffffff",
+      backgroundColor: "#4a6c6f",
+      padding: { x: 20, y: 10 }
+    })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerover", () => this.quickMatchButton.setStyle({ color: "#ffff00" }))
+      .on("pointerout", () => this.quickMatchButton.setStyle({ color: "#ffffff" }))
+      .on("pointerdown", () => {
+        this.quickMatchClicked();
+      });
+    
     // Create host multiplayer button
     this.multiplayerButton = this.add.text(width / 2, height / 2, "HOST MULTIPLAYER GAME", {
       fontFamily: "monospace",
@@ -90,6 +126,38 @@ export class MainMenuScene extends Phaser.Scene {
         this.joinGameClicked();
       });
     
+    // Create watch game button (join the room as an observer)
+    this.watchButton = this.add.text(width / 2 + 250, height / 2 + 60, "WATCH", {
+      fontFamily: "monospace",
+      fontSize: "24px",
+      color: "#ffffff",
+      backgroundColor: "#4a6c6f",
+      padding: { x: 15, y: 8 }
+    })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerover", () => this.watchButton.setStyle({ color: "#ffff00" }))
+      .on("pointerout", () => this.watchButton.setStyle({ color: "#ffffff" }))
+      .on("pointerdown", () => {
+        this.joinGameClicked(true);
+      });
+    
+    // Create browse rooms button (list the public rooms)
+    this.browseButton = this.add.text(width / 2 - 380, height / 2 + 60, "BROWSE ROOMS", {
+      fontFamily: "monospace",
+      fontSize: "20px",
+      color: "#ffffff",
+      backgroundColor: "#4a6c6f",
+      padding: { x: 10, y: 8 }
+    })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerover", () => this.browseButton.setStyle({ color: "#ffff00" }))
+      .on("pointerout", () => this.browseButton.setStyle({ color: "#ffffff" }))
+      .on("pointerdown", () => {
+        this.browseRoomsClicked();
+      });
+    
     // Create input for room code
     // Add a text label for the room code
     this.add.text(width / 2 - 140, height / 2 + 60, "ROOM CODE:", {
@@ -141,6 +209,84 @@ export class MainMenuScene extends Phaser.Scene {
         this.toggleMusic();
       });
     
+    // Create watch replay button
+    this.replayButton = this.add.text(width / 2, height / 2 + 230, "WATCH REPLAY", {
+      fontFamily: "monospace",
+      fontSize: "20px",
+      color: "#ffffff",
+      backgroundColor: "#4a6c6f",
+      padding: { x: 10, y: 5 }
+    })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerover", () => this.replayButton.setStyle({ color: "#ffff00" }))
+      .on("pointerout", () => this.replayButton.setStyle({ color: "#ffffff" }))
+      .on("pointerdown", () => {
+        this.watchReplayClicked();
+      });
+    
+    // Create match history button
+    this.historyButton = this.add.text(width / 2 - 100, height / 2 + 280, "MATCH HISTORY", {
+      fontFamily: "monospace",
+      fontSize: "20px",
+      color: "#ffffff",
+      backgroundColor: "#4a6c6f",
+      padding: { x: 10, y: 5 }
+    })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerover", () => this.historyButton.setStyle({ color: "#ffff00" }))
+      .on("pointerout", () => this.historyButton.setStyle({ color: "#ffffff" }))
+      .on("pointerdown", () => {
+        this.matchHistoryClicked();
+      });
+    
+    // Create leaderboard button
+    this.leaderboardButton = this.add.text(width / 2 + 100, height / 2 + 280, "LEADERBOARD", {
+      fontFamily: "monospace",
+      fontSize: "20px",
+      color: "#ffffff",
+      backgroundColor: "#4a6c6f",
+      padding: { x: 10, y: 5 }
+    })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerover", () => this.leaderboardButton.setStyle({ color: "#ffff00" }))
+      .on("pointerout", () => this.leaderboardButton.setStyle({ color: "#ffffff" }))
+      .on("pointerdown", () => {
+        this.leaderboardClicked();
+      });
+    
+    // Who is logged in, with a button to log in or out
+    this.accountText = this.add.text(width - 20, 20, "", {
+      fontFamily: "monospace",
+      fontSize: "18px",
+      color: "#dddddd"
+    }).setOrigin(1, 0);
+    
+    this.accountButton = this.add.text(width - 20, 50, "", {
+      fontFamily: "monospace",
+      fontSize: "18px",
+      color: "#ffffff",
+      backgroundColor: "#4a6c6f",
+      padding: { x: 10, y: 5 }
+    })
+      .setOrigin(1, 0)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerover", () => this.accountButton.setStyle({ color: "#ffff00" }))
+      .on("pointerout", () => this.accountButton.setStyle({ color: "#ffffff" }))
+      .on("pointerdown", () => {
+        if (useAuth.getState().account) {
+          useAuth.getState().logout();
+        } else {
+          this.showAccountForm();
+        }
+      });
+    
+    this.updateAccountDisplay();
+    const unsubscribeAuth = useAuth.subscribe(() => this.updateAccountDisplay());
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, unsubscribeAuth);
+    
     // Credits text
     this.add.text(width / 2, height - 50, "Based on Book of Mormon War Chapters", {
       fontFamily: "monospace",
@@ -150,26 +296,714 @@ export class MainMenuScene extends Phaser.Scene {
     
     // Initialize background music
     this.initializeBackgroundMusic();
+    
+    if (this.startMessage) {
+      this.showMessage(this.startMessage, 0xff0000);
+    }
+    
+    // After a reload the server puts us back into a match we dropped out of
+    const unsubscribe = useMultiplayer.getState().subscribeToGameEvents((event) => {
+      if (event.type === "gameStart") {
+        unsubscribe();
+        this.scene.start("GameScene", { gameData: event.gameData, isSolo: false });
+      }
+    });
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, unsubscribe);
+  }
+  
+  private updateAccountDisplay() {
+    const { account } = useAuth.getState();
+    this.accountText.setText(account ? `Logged in as ${account.username}` : "Playing as a guest");
+    this.accountButton.setText(account ? "LOG OUT" : "LOG IN");
+  }
+  
+  /**
+   * Online games are played under an account; guests are asked to log in first
+   * @returns Whether someone is logged in
+   */
+  private requireAccount(): boolean {
+    if (useAuth.getState().account) {
+      return true;
+    }
+    
+    this.showAccountForm("Log in to play online");
+    return false;
+  }
+  
+  private showAccountForm(reason?: string) {
+    const { width, height } = this.cameras.main;
+    const overlay = this.add.rectangle(0, 0, width, height, 0x000000, 0.8)
+      .setOrigin(0)
+      .setInteractive();
+    
+    const heading = this.add.text(width / 2, height / 2 - 140, reason ? reason.toUpperCase() : "LOG IN OR REGISTER", {
+      fontFamily: "monospace",
+      fontSize: "32px",
+      color: "#ffffff",
+      stroke: "#000000",
+      strokeThickness: 4
+    }).setOrigin(0.5);
+    
+    const createField = (label: string, y: number, type: string, maxLength: number) => {
+      const labelText = this.add.text(width / 2 - 90, y, label, {
+        fontFamily: "monospace",
+        fontSize: "20px",
+        color: "#ffffff"
+      }).setOrigin(1, 0.5);
+      
+      const element = document.createElement('input');
+      element.type = type;
+      element.maxLength = maxLength;
+      element.style.width = '200px';
+      element.style.height = '30px';
+      element.style.fontSize = '18px';
+      element.style.fontFamily = 'monospace';
+      const input = this.add.dom(width / 2 - 80, y, element).setOrigin(0, 0.5);
+      
+      return { element, objects: [labelText, input] };
+    };
+    
+    const usernameField = createField("USERNAME:", height / 2 - 60, "text", 20);
+    const passwordField = createField("PASSWORD:", height / 2 - 10, "password", 128);
+    
+    const errorText = this.add.text(width / 2, height / 2 + 40, "", {
+      fontFamily: "monospace",
+      fontSize: "16px",
+      color: "#ff0000"
+    }).setOrigin(0.5);
+    
+    const elements: Phaser.GameObjects.GameObject[] = [
+      overlay, heading, ...usernameField.objects, ...passwordField.objects, errorText
+    ];
+    const close = () => elements.forEach(element => element.destroy());
+    
+    // Logging in and registering both sign in on success
+    let submitting = false;
+    const submit = async (action: "login" | "register") => {
+      if (submitting) return;
+      submitting = true;
+      errorText.setText("");
+      
+      const error = await useAuth.getState()[action](usernameField.element.value.trim(), passwordField.element.value);
+      submitting = false;
+      if (!overlay.active) return;
+      
+      if (error) {
+        errorText.setText(error);
+        return;
+      }
+      
+      close();
+      this.showMessage(`Logged in as ${useAuth.getState().account?.username}`);
+    };
+    
+    passwordField.element.addEventListener("keydown", event => {
+      if (event.key === "Enter") {
+        submit("login");
+      }
+    });
+    
+    const createButton = (x: number, label: string, color: string, onClick: () => void) => {
+      const button = this.add.text(x, height / 2 + 110, label, {
+        fontFamily: "monospace",
+        fontSize: "24px",
+        color: "#ffffff",
+        backgroundColor: color,
+        padding: { x: 15, y: 8 }
+      })
+        .setOrigin(0.5)
+        .setInteractive({ useHandCursor: true })
+        .on("pointerover", () => button.setStyle({ color: "#ffff00" }))
+        .on("pointerout", () => button.setStyle({ color: "#ffffff" }))
+        .on("pointerdown", onClick);
+      elements.push(button);
+    };
+    
+    createButton(width / 2 - 170, "LOG IN", "#4a6c6f", () => submit("login"));
+    createButton(width / 2, "REGISTER", "#4a6c6f", () => submit("register"));
+    createButton(width / 2 + 170, "BACK", "#aa3333", close);
+    
+    usernameField.element.focus();
   }
   
   private soloGameClicked() {
     console.log("Solo game selected");
-    // Create a solo game with an AI opponent
-    this.startSoloGame();
+    // Let the player pick how strong the AI opponent is before the match starts
+    this.showDifficultySelection();
+  }
+  
+  private showDifficultySelection() {
+    const { width, height } = this.cameras.main;
+    const overlay = this.add.rectangle(0, 0, width, height, 0x000000, 0.8)
+      .setOrigin(0)
+      .setInteractive();
+    
+    const heading = this.add.text(width / 2, height / 2 - 140, "CHOOSE AI DIFFICULTY", {
+      fontFamily: "monospace",
+      fontSize: "32px",
+      color: "#ffffff",
+      stroke: "#000000",
+      strokeThickness: 4
+    }).setOrigin(0.5);
+    
+    const options: Array<{ difficulty: AIDifficulty; label: string; description: string }> = [
+      { difficulty: "easy", label: "EASY", description: "A slow economy and small, late attacks" },
+      { difficulty: "normal", label: "NORMAL", description: "A balanced opponent that researches and raids" },
+      { difficulty: "hard", label: "HARD", description: "A fast economy and large, early attack waves" }
+    ];
+    
+    const elements: Phaser.GameObjects.GameObject[] = [overlay, heading];
+    
+    options.forEach((option, index) => {
+      const y = height / 2 - 60 + index * 80;
+      
+      const button = this.add.text(width / 2, y, option.label, {
+        fontFamily: "monospace",
+        fontSize: "28px",
+        color: "#ffffff",
+        backgroundColor: "#4a6c6f",
+        padding: { x: 20, y: 8 }
+      })
+        .setOrigin(0.5)
+        .setInteractive({ useHandCursor: true })
+        .on("pointerover", () => button.setStyle({ color: "#ffff00" }))
+        .on("pointerout", () => button.setStyle({ color: "#ffffff" }))
+        .on("pointerdown", () => {
+          this.startSoloGame(option.difficulty);
+        });
+      
+      const description = this.add.text(width / 2, y + 30, option.description, {
+        fontFamily: "monospace",
+        fontSize: "14px",
+        color: "#cccccc"
+      }).setOrigin(0.5);
+      
+      elements.push(button, description);
+    });
+    
+    // Back button
+    const backButton = this.add.text(width / 2, height / 2 + 200, "BACK", {
+      fontFamily: "monospace",
+      fontSize: "24px",
+      color: "#ffffff",
+      backgroundColor: "#aa3333",
+      padding: { x: 15, y: 8 }
+    })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerdown", () => {
+        elements.forEach(element => element.destroy());
+      });
+    
+    elements.push(backButton);
   }
   
   private hostMultiplayerClicked() {
     console.log("Host multiplayer game selected");
-    this.scene.start("LobbyScene");
+    if (!this.requireAccount()) return;
+    
+    // Let the host choose who can find and join the room
+    this.showHostOptions();
+  }
+  
+  private showHostOptions() {
+    const { width, height } = this.cameras.main;
+    const overlay = this.add.rectangle(0, 0, width, height, 0x000000, 0.8)
+      .setOrigin(0)
+      .setInteractive();
+    
+    const heading = this.add.text(width / 2, height / 2 - 140, "HOST A GAME", {
+      fontFamily: "monospace",
+      fontSize: "32px",
+      color: "#ffffff",
+      stroke: "#000000",
+      strokeThickness: 4
+    }).setOrigin(0.5);
+    
+    let isPublic = true;
+    const visibilityButton = this.add.text(width / 2, height / 2 - 60, "", {
+      fontFamily: "monospace",
+      fontSize: "24px",
+      color: "#ffffff",
+      backgroundColor: "#4a6c6f",
+      padding: { x: 15, y: 8 }
+    })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerover", () => visibilityButton.setStyle({ color: "#ffff00" }))
+      .on("pointerout", () => visibilityButton.setStyle({ color: "#ffffff" }))
+      .on("pointerdown", () => {
+        isPublic = !isPublic;
+        updateVisibility();
+      });
+    
+    const visibilityHint = this.add.text(width / 2, height / 2 - 25, "", {
+      fontFamily: "monospace",
+      fontSize: "14px",
+      color: "#cccccc"
+    }).setOrigin(0.5);
+    
+    const updateVisibility = () => {
+      visibilityButton.setText(isPublic ? "PUBLIC" : "PRIVATE");
+      visibilityHint.setText(isPublic ? "Listed in the room browser" : "Only players with the room code can join");
+    };
+    updateVisibility();
+    
+    const passwordLabel = this.add.text(width / 2 - 90, height / 2 + 30, "PASSWORD:", {
+      fontFamily: "monospace",
+      fontSize: "20px",
+      color: "#ffffff"
+    }).setOrigin(1, 0.5);
+    
+    const passwordElement = document.createElement('input');
+    passwordElement.type = 'password';
+    passwordElement.placeholder = 'optional';
+    passwordElement.maxLength = 32;
+    passwordElement.style.width = '180px';
+    passwordElement.style.height = '30px';
+    passwordElement.style.fontSize = '18px';
+    passwordElement.style.fontFamily = 'monospace';
+    const passwordInput = this.add.dom(width / 2 - 80, height / 2 + 30, passwordElement)
+      .setOrigin(0, 0.5);
+    
+    const elements: Phaser.GameObjects.GameObject[] = [overlay, heading, visibilityButton, visibilityHint, passwordLabel, passwordInput];
+    
+    const createButton = this.add.text(width / 2 - 80, height / 2 + 110, "CREATE", {
+      fontFamily: "monospace",
+      fontSize: "24px",
+      color: "#ffffff",
+      backgroundColor: "#4a6c6f",
+      padding: { x: 15, y: 8 }
+    })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerover", () => createButton.setStyle({ color: "#ffff00" }))
+      .on("pointerout", () => createButton.setStyle({ color: "#ffffff" }))
+      .on("pointerdown", () => {
+        const password = passwordElement.value || undefined;
+        this.scene.start("LobbyScene", { create: { isPublic, password } });
+      });
+    
+    // Back button
+    const backButton = this.add.text(width / 2 + 80, height / 2 + 110, "BACK", {
+      fontFamily: "monospace",
+      fontSize: "24px",
+      color: "#ffffff",
+      backgroundColor: "#aa3333",
+      padding: { x: 15, y: 8 }
+    })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerdown", () => {
+        elements.forEach(element => element.destroy());
+      });
+    
+    elements.push(createButton, backButton);
   }
   
-  private joinGameClicked() {
+  private quickMatchClicked() {
+    const { width, height } = this.cameras.main;
+    const multiplayerStore = useMultiplayer.getState();
+    
+    if (!this.requireAccount()) return;
+    
+    if (!multiplayerStore.connected) {
+      this.showMessage("Not connected to the server", 0xff0000);
+      return;
+    }
+    
+    const overlay = this.add.rectangle(0, 0, width, height, 0x000000, 0.8)
+      .setOrigin(0)
+      .setInteractive();
+    
+    const searchingText = this.add.text(width / 2, height / 2 - 40, "SEARCHING FOR AN OPPONENT...", {
+      fontFamily: "monospace",
+      fontSize: "28px",
+      color: "#ffffff",
+      stroke: "#000000",
+      strokeThickness: 4
+    }).setOrigin(0.5);
+    
+    // The server moves us into a new room once enough players are waiting
+    const unsubscribe = multiplayerStore.subscribeToGameEvents((event) => {
+      if (event.type === "matchFound") {
+        unsubscribe();
+        this.scene.start("LobbyScene", { roomCode: event.roomCode, matched: true });
+      } else if (event.type === "error") {
+        close();
+        this.showMessage(event.message, 0xff0000);
+      }
+    });
+    
+    const cancelButton = this.add.text(width / 2, height / 2 + 40, "CANCEL", {
+      fontFamily: "monospace",
+      fontSize: "24px",
+      color: "#ffffff",
+      backgroundColor: "#aa3333",
+      padding: { x: 15, y: 8 }
+    })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerdown", () => {
+        useMultiplayer.getState().leaveQueue();
+        close();
+      });
+    
+    const close = () => {
+      unsubscribe();
+      overlay.destroy();
+      searchingText.destroy();
+      cancelButton.destroy();
+    };
+    
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, unsubscribe);
+    multiplayerStore.joinQueue();
+  }
+  
+  private browseRoomsClicked() {
+    const { width, height } = this.cameras.main;
+    const overlay = this.add.rectangle(0, 0, width, height, 0x000000, 0.85)
+      .setOrigin(0)
+      .setInteractive();
+    
+    const heading = this.add.text(width / 2, 80, "PUBLIC ROOMS", {
+      fontFamily: "monospace",
+      fontSize: "32px",
+      color: "#ffffff",
+      stroke: "#000000",
+      strokeThickness: 4
+    }).setOrigin(0.5);
+    
+    const elements: Phaser.GameObjects.GameObject[] = [overlay, heading];
+    let rows: Phaser.GameObjects.GameObject[] = [];
+    
+    const showRows = (rooms: RoomListing[] | null) => {
+      rows.forEach(row => row.destroy());
+      rows = [];
+      
+      if (!rooms || rooms.length === 0) {
+        rows.push(this.add.text(width / 2, 180, rooms ? "No public rooms right now" : "Could not load rooms", {
+          fontFamily: "monospace",
+          fontSize: "20px",
+          color: rooms ? "#cccccc" : "#ff0000"
+        }).setOrigin(0.5));
+        return;
+      }
+      
+      // Only as many rooms as fit above the buttons
+      rooms.slice(0, Math.floor((height - 280) / 40)).forEach((room, index) => {
+        const y = 150 + index * 40;
+        const status = room.gameStarted ? "IN GAME" : "WAITING";
+        const details = `${room.hasPassword ? "[LOCKED] " : ""}${room.roomCode}  ${(room.hostName ?? "-").padEnd(16)}` +
+          `${room.playerCount}/${room.maxPlayers}  ${room.factions.join(", ").padEnd(20)}${status}`;
+        
+        rows.push(this.add.text(width / 2 - 420, y, details, {
+          fontFamily: "monospace",
+          fontSize: "16px",
+          color: "#ffffff"
+        }).setOrigin(0, 0.5));
+        
+        if (!room.gameStarted && room.playerCount < room.maxPlayers) {
+          rows.push(this.createRoomRowButton(width / 2 + 290, y, "JOIN", () => {
+            if (!this.requireAccount()) return;
+            this.scene.start("LobbyScene", { roomCode: room.roomCode });
+          }));
+        }
+        
+        rows.push(this.createRoomRowButton(width / 2 + 380, y, "WATCH", () => {
+          this.scene.start("LobbyScene", { roomCode: room.roomCode, observe: true });
+        }));
+      });
+    };
+    
+    const refresh = () => {
+      apiRequest("GET", "/api/rooms")
+        .then(response => response.json())
+        .then((rooms: RoomListing[]) => {
+          if (overlay.active) showRows(rooms);
+        })
+        .catch(error => {
+          console.error("Error listing rooms:", error);
+          if (overlay.active) showRows(null);
+        });
+    };
+    
+    const refreshButton = this.createRoomRowButton(width / 2 - 80, height - 100, "REFRESH", refresh);
+    
+    // Close button
+    const closeButton = this.add.text(width / 2 + 80, height - 100, "CLOSE", {
+      fontFamily: "monospace",
+      fontSize: "24px",
+      color: "#ffffff",
+      backgroundColor: "#aa3333",
+      padding: { x: 15, y: 8 }
+    })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerdown", () => {
+        rows.forEach(row => row.destroy());
+        elements.forEach(element => element.destroy());
+      });
+    
+    elements.push(refreshButton, closeButton);
+    refresh();
+  }
+  
+  /**
+   * Finished matches, starting with the logged-in player's own with their statistics
+   */
+  private matchHistoryClicked() {
+    const { width, height } = this.cameras.main;
+    const overlay = this.add.rectangle(0, 0, width, height, 0x000000, 0.85)
+      .setOrigin(0)
+      .setInteractive();
+    
+    const heading = this.add.text(width / 2, 80, "", {
+      fontFamily: "monospace",
+      fontSize: "32px",
+      color: "#ffffff",
+      stroke: "#000000",
+      strokeThickness: 4
+    }).setOrigin(0.5);
+    
+    const elements: Phaser.GameObjects.GameObject[] = [overlay, heading];
+    let rows: Phaser.GameObjects.GameObject[] = [];
+    
+    const account = useAuth.getState().account;
+    let showOwn = account !== null;
+    
+    const formatDuration = (ms: number) => {
+      const seconds = Math.round(ms / 1000);
+      return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
+    };
+    
+    const describeMatch = (match: MatchRecord): string => {
+      const date = new Date(match.endedAt).toLocaleDateString();
+      const summary = `${date.padEnd(12)}${formatDuration(match.duration).padStart(6)}  `;
+      
+      const own = showOwn && account ? match.participants.find(participant => String(participant.userId) === account.userId) : undefined;
+      if (own) {
+        const ratingChange = own.ratingChange === null ? "" : `${own.ratingChange >= 0 ? "+" : ""}${own.ratingChange}`;
+        return summary + `${own.result.toUpperCase().padEnd(5)}${ratingChange.padStart(4)} ${own.faction.padEnd(10)}` +
+          `trained ${own.unitsProduced}, lost ${own.unitsLost}, kills ${own.unitsKilled}, ` +
+          `food ${own.foodGathered}, ore ${own.oreGathered}, techs ${own.techsResearched}`;
+      }
+      
+      return summary + match.participants
+        .map(participant => `${participant.username} (${participant.faction}) ${participant.result.toUpperCase()}`)
+        .join(", ");
+    };
+    
+    const showRows = (matches: MatchRecord[] | null) => {
+      rows.forEach(row => row.destroy());
+      rows = [];
+      
+      if (!matches || matches.length === 0) {
+        rows.push(this.add.text(width / 2, 180, matches ? "No matches played yet" : "Could not load match history", {
+          fontFamily: "monospace",
+          fontSize: "20px",
+          color: matches ? "#cccccc" : "#ff0000"
+        }).setOrigin(0.5));
+        return;
+      }
+      
+      // Only as many matches as fit above the buttons
+      matches.slice(0, Math.floor((height - 280) / 32)).forEach((match, index) => {
+        rows.push(this.add.text(width / 2 - 460, 150 + index * 32, describeMatch(match), {
+          fontFamily: "monospace",
+          fontSize: "14px",
+          color: "#ffffff",
+          wordWrap: { width: 920 }
+        }).setOrigin(0, 0.5));
+      });
+    };
+    
+    const refresh = () => {
+      heading.setText(showOwn ? "MY MATCHES" : "RECENT MATCHES");
+      const url = showOwn && account ? `/api/users/${account.userId}/matches` : "/api/matches";
+      apiRequest("GET", url)
+        .then(response => response.json())
+        .then((matches: MatchRecord[]) => {
+          if (overlay.active) showRows(matches);
+        })
+        .catch(error => {
+          console.error("Error loading match history:", error);
+          if (overlay.active) showRows(null);
+        });
+    };
+    
+    // Logged-in players can switch between their own matches and everyone's
+    if (account) {
+      const toggleButton = this.createRoomRowButton(width / 2 - 110, height - 100, "SHOW ALL", () => {
+        showOwn = !showOwn;
+        toggleButton.setText(showOwn ? "SHOW ALL" : "SHOW MINE");
+        refresh();
+      });
+      elements.push(toggleButton);
+    }
+    
+    // Close button
+    const closeButton = this.add.text(width / 2 + 80, height - 100, "CLOSE", {
+      fontFamily: "monospace",
+      fontSize: "24px",
+      color: "#ffffff",
+      backgroundColor: "#aa3333",
+      padding: { x: 15, y: 8 }
+    })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerdown", () => {
+        rows.forEach(row => row.destroy());
+        elements.forEach(element => element.destroy());
+      });
+    
+    elements.push(closeButton);
+    refresh();
+  }
+  
+  /**
+   * Ranked ratings, overall or for one faction, a page at a time
+   */
+  private leaderboardClicked() {
+    const { width, height } = this.cameras.main;
+    const overlay = this.add.rectangle(0, 0, width, height, 0x000000, 0.85)
+      .setOrigin(0)
+      .setInteractive();
+    
+    const heading = this.add.text(width / 2, 80, "LEADERBOARD", {
+      fontFamily: "monospace",
+      fontSize: "32px",
+      color: "#ffffff",
+      stroke: "#000000",
+      strokeThickness: 4
+    }).setOrigin(0.5);
+    
+    const elements: Phaser.GameObjects.GameObject[] = [overlay, heading];
+    let rows: Phaser.GameObjects.GameObject[] = [];
+    
+    const categories: RatingCategory[] = ["overall", "Nephites", "Lamanites"];
+    let categoryIndex = 0;
+    let page = 1;
+    // Only as many players as fit above the buttons
+    const pageSize = Math.max(1, Math.floor((height - 300) / 32));
+    let lastPage = 1;
+    
+    const showRows = (leaderboard: LeaderboardPage | null) => {
+      rows.forEach(row => row.destroy());
+      rows = [];
+      
+      if (!leaderboard || leaderboard.entries.length === 0) {
+        rows.push(this.add.text(width / 2, 180, leaderboard ? "No ranked matches played yet" : "Could not load leaderboard", {
+          fontFamily: "monospace",
+          fontSize: "20px",
+          color: leaderboard ? "#cccccc" : "#ff0000"
+        }).setOrigin(0.5));
+        return;
+      }
+      
+      lastPage = Math.max(1, Math.ceil(leaderboard.total / leaderboard.pageSize));
+      const ownUserId = useAuth.getState().account?.userId;
+      
+      rows.push(this.add.text(width / 2 - 300, 150, `${"#".padEnd(6)}${"PLAYER".padEnd(22)}${"RATING".padEnd(8)}${"W-L-D".padEnd(12)}GAMES`, {
+        fontFamily: "monospace",
+        fontSize: "16px",
+        color: "#aaaaaa"
+      }).setOrigin(0, 0.5));
+      
+      leaderboard.entries.forEach((entry, index) => {
+        const record = `${entry.wins}-${entry.losses}-${entry.draws}`;
+        rows.push(this.add.text(width / 2 - 300, 182 + index * 32,
+          `${String(entry.rank).padEnd(6)}${entry.username.padEnd(22)}${String(entry.rating).padEnd(8)}${record.padEnd(12)}${entry.gamesPlayed}`, {
+          fontFamily: "monospace",
+          fontSize: "16px",
+          color: String(entry.userId) === ownUserId ? "#ffff00" : "#ffffff"
+        }).setOrigin(0, 0.5));
+      });
+      
+      rows.push(this.add.text(width / 2, height - 150, `PAGE ${leaderboard.page} OF ${lastPage}`, {
+        fontFamily: "monospace",
+        fontSize: "16px",
+        color: "#cccccc"
+      }).setOrigin(0.5));
+    };
+    
+    const refresh = () => {
+      const category = categories[categoryIndex];
+      heading.setText(`LEADERBOARD - ${category.toUpperCase()}`);
+      apiRequest("GET", `/api/leaderboard?category=${category}&page=${page}&pageSize=${pageSize}`)
+        .then(response => response.json())
+        .then((leaderboard: LeaderboardPage) => {
+          if (overlay.active) showRows(leaderboard);
+        })
+        .catch(error => {
+          console.error("Error loading leaderboard:", error);
+          if (overlay.active) showRows(null);
+        });
+    };
+    
+    const categoryButton = this.createRoomRowButton(width / 2 - 300, height - 100, "CATEGORY", () => {
+      categoryIndex = (categoryIndex + 1) % categories.length;
+      page = 1;
+      refresh();
+    });
+    const previousButton = this.createRoomRowButton(width / 2 - 160, height - 100, "PREV", () => {
+      if (page > 1) {
+        page--;
+        refresh();
+      }
+    });
+    const nextButton = this.createRoomRowButton(width / 2 - 60, height - 100, "NEXT", () => {
+      if (page < lastPage) {
+        page++;
+        refresh();
+      }
+    });
+    
+    // Close button
+    const closeButton = this.add.text(width / 2 + 80, height - 100, "CLOSE", {
+      fontFamily: "monospace",
+      fontSize: "24px",
+      color: "#ffffff",
+      backgroundColor: "#aa3333",
+      padding: { x: 15, y: 8 }
+    })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerdown", () => {
+        rows.forEach(row => row.destroy());
+        elements.forEach(element => element.destroy());
+      });
+    
+    elements.push(categoryButton, previousButton, nextButton, closeButton);
+    refresh();
+  }
+  
+  private createRoomRowButton(x: number, y: number, label: string, onClick: () => void): Phaser.GameObjects.Text {
+    const button = this.add.text(x, y, label, {
+      fontFamily: "monospace",
+      fontSize: "18px",
+      color: "#ffffff",
+      backgroundColor: "#4a6c6f",
+      padding: { x: 10, y: 5 }
+    })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerover", () => button.setStyle({ color: "#ffff00" }))
+      .on("pointerout", () => button.setStyle({ color: "#ffffff" }))
+      .on("pointerdown", onClick);
+    return button;
+  }
+  
+  private joinGameClicked(observe: boolean = false) {
     const inputElement = this.roomCodeInput.getChildByName('input') as HTMLInputElement;
     const roomCode = inputElement ? inputElement.value.toUpperCase() : '';
     
+    // Anyone may watch, but players need an account
+    if (!observe && !this.requireAccount()) return;
+    
     if (roomCode && roomCode.length === 6) {
-      console.log(`Joining game with room code: ${roomCode}`);
-      this.scene.start("LobbyScene", { roomCode });
+      console.log(`${observe ? "Watching" : "Joining"} game with room code: ${roomCode}`);
+      this.scene.start("LobbyScene", { roomCode, observe });
     } else {
       // Show error message for invalid room code
       this.showMessage("Please enter a valid 6-character room code", 0xff0000);
@@ -195,7 +1029,7 @@ export class MainMenuScene extends Phaser.Scene {
     });
   }
   
-  private startSoloGame() {
+  private startSoloGame(aiDifficulty: AIDifficulty) {
     // Create a game with the player as Nephites and AI as Lamanites
     const gameData = {
       players: [
@@ -207,7 +1041,45 @@ export class MainMenuScene extends Phaser.Scene {
     };
     
     // Start the game directly
-    this.scene.start("GameScene", { gameData, isSolo: true });
+    this.scene.start("GameScene", { gameData, isSolo: true, aiDifficulty });
+  }
+  
+  private watchReplayClicked() {
+    // Let the user pick a replay file saved by the server
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept = '.json,application/json';
+    
+    fileInput.addEventListener('change', () => {
+      const file = fileInput.files?.[0];
+      if (!file) return;
+      
+      file.text()
+        .then(contents => this.startReplay(JSON.parse(contents)))
+        .catch(error => {
+          console.error("Error reading replay file:", error);
+          this.showMessage("Could not read replay file", 0xff0000);
+        });
+    });
+    
+    fileInput.click();
+  }
+  
+  private startReplay(replay: ReplayData) {
+    const replayError = getReplayError(replay);
+    if (replayError) {
+      this.showMessage(replayError, 0xff0000);
+      return;
+    }
+    
+    const gameData = {
+      players: replay.players.map(player => ({ ...player, ready: true })),
+      roomCode: replay.roomCode,
+      map: "standard",
+      seed: replay.seed
+    };
+    
+    this.scene.start("GameScene", { gameData, replay });
   }
   
   private howToPlayButtonClicked() {
@@ -271,26 +1143,26 @@ export class MainMenuScene extends Phaser.Scene {
       const counterAttackSoundElement = document.getElementById("counter-attack-sound") as HTMLAudioElement;
       const weaknessHitSoundElement = document.getElementById("weakness-hit-sound") as HTMLAudioElement;
       const deathSoundElement = document.getElementById("death-sound") as HTMLAudioElement;
-
+      
       // Set up the audio store
       const audioStore = useAudio.getState();
-
+      
       // Only set audio elements that exist
       if (musicElement) {
         console.log("Background music found");
         audioStore.setBackgroundMusic(musicElement);
       }
-
+      
       if (hitSoundElement) {
         console.log("Hit sound found");
         audioStore.setHitSound(hitSoundElement);
       }
-
+      
       if (successSoundElement) {
         console.log("Success sound found");
         audioStore.setSuccessSound(successSoundElement);
       }
-
+      
       // Set up enhanced combat sounds with proper fallbacks
       // Critical hit can fall back to regular hit sound
       if (criticalHitSoundElement) {
@@ -301,7 +1173,7 @@ export class MainMenuScene extends Phaser.Scene {
         console.log("Using hit sound for critical hits");
         audioStore.setCriticalHitSound(hitSoundElement);
       }
-
+      
       // Counter attack can fall back to hit sound
       if (counterAttackSoundElement) {
         console.log("Counter attack sound found");
@@ -311,7 +1183,7 @@ export class MainMenuScene extends Phaser.Scene {
         console.log("Using hit sound for counter attacks");
         audioStore.setCounterAttackSound(hitSoundElement);
       }
-
+      
       // Weakness hit can fall back to hit sound
       if (weaknessHitSoundElement) {
         console.log("Weakness hit sound found");
@@ -321,7 +1193,7 @@ export class MainMenuScene extends Phaser.Scene {
         console.log("Using hit sound for weakness hits");
         audioStore.setWeaknessHitSound(hitSoundElement);
       }
-
+      
       // Death sound can fall back to hit sound
       if (deathSoundElement) {
         console.log("Death sound found");
@@ -331,7 +1203,7 @@ export class MainMenuScene extends Phaser.Scene {
         console.log("Using hit sound for death effects");
         audioStore.setDeathSound(hitSoundElement);
       }
-
+      
       console.log("Combat sound effects initialized");
     } catch (error) {
       console.error("Error initializing audio:", error);
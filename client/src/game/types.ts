@@ -1,10 +1,12 @@
 // Game types and interfaces
+import type { MatchSettings } from "../../../shared/types";
 
 export type FactionType = "Nephites" | "Lamanites";
 export type UnitType = "worker" | "melee" | "ranged" | "cavalry" | "hero" | "striplingWarrior" | "lamaniteScout";
 export type BuildingType = "cityCenter" | "barracks" | "archeryRange" | "wall" | "nephiteTemple" | "lamaniteTower";
 export type ResourceType = "food" | "ore";
 export type GamePhase = "menu" | "lobby" | "playing" | "gameOver";
+export type AIDifficulty = "easy" | "normal" | "hard";
 
 export interface ResourceNode {
   type: ResourceType;
@@ -29,10 +31,16 @@ export interface GameData {
     id: string;
     username: string;
     faction: FactionType | null;
+    // Players on the same team are allies; null or missing plays alone
+    team?: number | null;
     ready: boolean;
   }>;
   roomCode: string;
   map: string;
+  // Map generation seed; solo games pick their own when it's missing
+  seed?: number;
+  // Multiplayer matches only: the host's lobby settings
+  settings?: MatchSettings;
 }
 
 export interface UnitStats {
@@ -41,6 +49,7 @@ export interface UnitStats {
   defense: number;
   range: number;
   speed: number;
+  sight: number;
   cost: { food: number; ore: number };
   description: string;
   role: string;
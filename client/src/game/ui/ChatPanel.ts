@@ -0,0 +1,195 @@
+import Phaser from "phaser";
+import { useMultiplayer } from "../../lib/stores/useMultiplayer";
+import { CHAT_MAX_LENGTH } from "../config";
+import { ChatMessage, ChatScope } from "@shared/types";
+
+const LINE_HEIGHT = 16;
+const INPUT_HEIGHT = 28;
+const SCOPE_BUTTON_WIDTH = 60;
+const RECENT_MESSAGE_TIME = 8000; // ms a new message stays on screen while the panel is closed
+
+export interface ChatPanelOptions {
+  x: number;
+  y: number;
+  width: number;
+  // Lines of chat log shown above the input
+  lines: number;
+  // Scopes the sender can switch between; the first is the default
+  scopes: ChatScope[];
+  // Closable panels open with openInput() and only show recent messages while closed
+  closable: boolean;
+}
+
+/**
+ * Chat log and input line fed by the multiplayer store's chat messages
+ * The lobby keeps it open; in a match it is an overlay opened with Enter
+ */
+export class ChatPanel {
+  private options: ChatPanelOptions;
+  private scopeIndex: number;
+  private isOpen: boolean;
+  private receivedAt: WeakMap<ChatMessage, number>;
+  private background: Phaser.GameObjects.Rectangle;
+  private logText: Phaser.GameObjects.Text;
+  private scopeButton: Phaser.GameObjects.Text;
+  private inputElement: HTMLInputElement;
+  private input: Phaser.GameObjects.DOMElement;
+  
+  constructor(scene: Phaser.Scene, options: ChatPanelOptions) {
+    this.options = options;
+    this.scopeIndex = 0;
+    this.isOpen = !options.closable;
+    this.receivedAt = new WeakMap();
+    
+    const { x, y, width, lines } = options;
+    const logHeight = lines * LINE_HEIGHT + 8;
+    
+    this.background = scene.add.rectangle(x, y, width, logHeight + INPUT_HEIGHT + 8, 0x000000, 0.6)
+      .setOrigin(0, 0)
+      .setStrokeStyle(1, 0x666666)
+      .setScrollFactor(0)
+      .setDepth(1000);
+    
+    this.logText = scene.add.text(x + 6, y + 4, "", {
+      fontFamily: "monospace",
+      fontSize: "12px",
+      color: "#ffffff",
+      lineSpacing: LINE_HEIGHT - 12,
+      wordWrap: { width: width - 12, useAdvancedWrap: true }
+    })
+      .setOrigin(0, 0)
+      .setScrollFactor(0)
+      .setDepth(1001);
+    
+    this.scopeButton = scene.add.text(x + width - 6, y + logHeight + INPUT_HEIGHT / 2, "", {
+      fontFamily: "monospace",
+      fontSize: "12px",
+      color: "#ffffff",
+      backgroundColor: "#444444",
+      padding: { x: 6, y: 4 }
+    })
+      .setOrigin(1, 0.5)
+      .setScrollFactor(0)
+      .setDepth(1001)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerover", () => this.scopeButton.setStyle({ color: "#ffff00" }))
+      .on("pointerout", () => this.scopeButton.setStyle({ color: "#ffffff" }))
+      .on("pointerdown", () => {
+        this.scopeIndex = (this.scopeIndex + 1) % this.options.scopes.length;
+        this.updateScopeButton();
+      });
+    
+    const showScopeButton = options.scopes.length > 1;
+    const inputWidth = width - 12 - (showScopeButton ? SCOPE_BUTTON_WIDTH + 6 : 0);
+    
+    this.inputElement = document.createElement("input");
+    this.inputElement.maxLength = CHAT_MAX_LENGTH;
+    this.inputElement.placeholder = "Press Enter to chat";
+    this.inputElement.style.width = `${inputWidth}px`;
+    this.inputElement.style.height = `${INPUT_HEIGHT - 6}px`;
+    this.inputElement.style.fontSize = "12px";
+    this.inputElement.style.fontFamily = "monospace";
+    this.inputElement.style.boxSizing = "border-box";
+    
+    // Keys typed into the chat must not reach the scene's shortcuts
+    this.inputElement.addEventListener("keyup", event => event.stopPropagation());
+    this.inputElement.addEventListener("keydown", event => {
+      event.stopPropagation();
+      if (event.key === "Enter") {
+        this.submit();
+      } else if (event.key === "Escape") {
+        this.closeInput();
+      }
+    });
+    
+    this.input = scene.add.dom(x + 6, y + logHeight + INPUT_HEIGHT / 2, this.inputElement)
+      .setOrigin(0, 0.5)
+      .setScrollFactor(0)
+      .setDepth(1001);
+    
+    this.updateScopeButton();
+    this.scopeButton.setVisible(showScopeButton);
+    
+    // Follow the store's chat log for as long as the scene runs
+    const unsubscribe = useMultiplayer.subscribe((state, previous) => {
+      if (state.chatMessages === previous.chatMessages) return;
+      
+      const now = Date.now();
+      state.chatMessages
+        .filter(message => !this.receivedAt.has(message))
+        .forEach(message => this.receivedAt.set(message, now));
+      this.refresh();
+    });
+    
+    // Closed panels let recent messages expire
+    const refreshTimer = options.closable
+      ? scene.time.addEvent({ delay: 1000, loop: true, callback: () => this.refresh() })
+      : null;
+    
+    scene.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
+      unsubscribe();
+      refreshTimer?.remove();
+    });
+    
+    // Messages from before the panel existed, such as the lobby's join messages, are not recent
+    useMultiplayer.getState().chatMessages.forEach(message => this.receivedAt.set(message, 0));
+    this.setOpen(this.isOpen);
+  }
+  
+  /**
+   * Open the panel, if needed, and put the cursor in the input line
+   */
+  openInput() {
+    this.setOpen(true);
+    this.inputElement.focus();
+  }
+  
+  private closeInput() {
+    this.inputElement.blur();
+    if (this.options.closable) {
+      this.setOpen(false);
+    }
+  }
+  
+  private submit() {
+    const text = this.inputElement.value.trim();
+    this.inputElement.value = "";
+    
+    if (text) {
+      useMultiplayer.getState().sendChat(this.options.scopes[this.scopeIndex], text);
+    }
+    
+    this.closeInput();
+  }
+  
+  private setOpen(open: boolean) {
+    this.isOpen = open;
+    this.background.setVisible(open);
+    this.input.setVisible(open);
+    this.scopeButton.setVisible(open && this.options.scopes.length > 1);
+    this.refresh();
+  }
+  
+  private updateScopeButton() {
+    this.scopeButton.setText(this.options.scopes[this.scopeIndex].toUpperCase());
+  }
+  
+  private refresh() {
+    const now = Date.now();
+    const messages = useMultiplayer.getState().chatMessages
+      .filter(message => this.isOpen || now - (this.receivedAt.get(message) ?? 0) < RECENT_MESSAGE_TIME);
+    
+    // Keep the newest lines that fit once long messages have wrapped
+    const lines = this.logText.getWrappedText(messages.map(message => this.formatMessage(message)).join("\n"));
+    this.logText.setText(messages.length > 0 ? lines.slice(-this.options.lines) : []);
+  }
+  
+  private formatMessage(message: ChatMessage): string {
+    if (message.scope === "system") {
+      return `* ${message.text}`;
+    }
+    
+    const prefix = message.scope === "team" ? "[TEAM] " : "";
+    return `${prefix}${message.senderName}: ${message.text}`;
+  }
+}
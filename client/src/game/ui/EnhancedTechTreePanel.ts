@@ -486,10 +486,7 @@ export class EnhancedTechTreePanel {
       container.add(researchedText);
     } else {
       // Check if all prerequisites are met
-      const canResearch = tech.prerequisites.every(prereqId => {
-        const prereqTech = this.techManager.getTechById(prereqId);
-        return prereqTech && prereqTech.researched;
-      });
+      const canResearch = tech.prerequisites.every(prereqId => this.techManager.isTechResearched(prereqId, playerId));
       
       // Check if player has enough resources
       const hasResources = this.resourceManager.hasEnoughResources(
@@ -109,6 +109,21 @@ export class GameUI {
     this.updateResources();
   }
   
+  /**
+   * Show or hide the command panel; spectators get their own HUD instead
+   */
+  setVisible(visible: boolean) {
+    this.uiPanel.setVisible(visible);
+    this.resourceText.setVisible(visible);
+    this.selectedUnitInfo.setVisible(visible);
+    this.techButton.setVisible(visible);
+    this.actionPanel.setVisible(visible);
+    
+    if (!visible) {
+      this.techPanel.setVisible(false);
+    }
+  }
+  
   updateResources() {
     const playerId = this.scene.registry.get("localPlayerId");
     const resources = this.resourceManager.getPlayerResources(playerId);
@@ -0,0 +1,115 @@
+import Phaser from "phaser";
+import { FactionType } from "../types";
+import { ResourceManager } from "../managers/ResourceManager";
+import { UnitManager } from "../managers/UnitManager";
+import { BuildingManager } from "../managers/BuildingManager";
+
+const PANEL_WIDTH = 220;
+const PANEL_HEIGHT = 96;
+const REFRESH_INTERVAL = 250; // ms between panel refreshes
+
+/**
+ * Spectator HUD: one panel per player with their resources and army
+ * Used by observers and the replay viewer, who see every player at once
+ */
+export class ObserverHUD {
+  private scene: Phaser.Scene;
+  private resourceManager: ResourceManager;
+  private unitManager: UnitManager;
+  private buildingManager: BuildingManager;
+  private players: Array<{ id: string; username: string; faction: FactionType }>;
+  private panelTexts: Map<string, Phaser.GameObjects.Text>;
+  private defeatedPlayerIds: Set<string>;
+  private refreshTimer: number;
+  
+  constructor(
+    scene: Phaser.Scene,
+    players: Array<{ id: string; username: string; faction: FactionType }>,
+    resourceManager: ResourceManager,
+    unitManager: UnitManager,
+    buildingManager: BuildingManager
+  ) {
+    this.scene = scene;
+    this.players = players;
+    this.resourceManager = resourceManager;
+    this.unitManager = unitManager;
+    this.buildingManager = buildingManager;
+    this.panelTexts = new Map();
+    this.defeatedPlayerIds = new Set();
+    this.refreshTimer = 0;
+    
+    this.createPanels();
+    this.refresh();
+  }
+  
+  private createPanels() {
+    this.players.forEach((player, index) => {
+      const y = 10 + index * (PANEL_HEIGHT + 8);
+      const color = player.faction === "Nephites" ? 0x2244aa : 0xaa2222;
+      
+      this.scene.add.rectangle(10, y, PANEL_WIDTH, PANEL_HEIGHT, color, 0.7)
+        .setOrigin(0, 0)
+        .setStrokeStyle(2, 0xffffff)
+        .setScrollFactor(0)
+        .setDepth(999);
+      
+      const text = this.scene.add.text(18, y + 6, "", {
+        fontFamily: "monospace",
+        fontSize: "12px",
+        color: "#ffffff",
+        lineSpacing: 2
+      })
+        .setOrigin(0, 0)
+        .setScrollFactor(0)
+        .setDepth(999);
+      
+      this.panelTexts.set(player.id, text);
+    });
+  }
+  
+  update(delta: number) {
+    this.refreshTimer += delta;
+    if (this.refreshTimer >= REFRESH_INTERVAL) {
+      this.refreshTimer = 0;
+      this.refresh();
+    }
+  }
+  
+  markDefeated(playerId: string) {
+    this.defeatedPlayerIds.add(playerId);
+    this.refresh();
+  }
+  
+  private refresh() {
+    this.players.forEach(player => {
+      const text = this.panelTexts.get(player.id);
+      if (!text) return;
+      
+      const resources = this.resourceManager.getPlayerResources(player.id);
+      const units = this.unitManager.getUnitsByPlayer(player.id);
+      const buildings = this.buildingManager.getBuildingsByPlayer(player.id);
+      
+      // Count the army by unit type; workers are listed separately
+      const workers = units.filter(unit => unit.type === "worker").length;
+      const army = new Map<string, number>();
+      units.forEach(unit => {
+        if (unit.type !== "worker") {
+          army.set(unit.type, (army.get(unit.type) || 0) + 1);
+        }
+      });
+      const armyBreakdown = Array.from(army.entries())
+        .map(([type, count]) => `${type} ${count}`)
+        .join(", ");
+      
+      const status = this.defeatedPlayerIds.has(player.id) ? " [DEFEATED]" : "";
+      
+      text.setText([
+        `${player.username} (${player.faction})${status}`,
+        `Food: ${resources.food} | Ore: ${resources.ore}`,
+        `Workers: ${workers} | Army: ${units.length - workers}`,
+        armyBreakdown || "No army",
+        `Buildings: ${buildings.length}`
+      ]);
+    });
+  }
+}
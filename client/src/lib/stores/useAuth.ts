@@ -0,0 +1,96 @@
+import { create } from "zustand";
+import { useMultiplayer } from "./useMultiplayer";
+
+interface Account {
+  userId: string;
+  username: string;
+}
+
+interface AuthState {
+  // The logged-in account, or null for a guest
+  account: Account | null;
+  // Whether the session has been checked since the page loaded
+  loaded: boolean;
+
+  loadSession: () => Promise<void>;
+  // These resolve to an error message to show, or null on success
+  login: (username: string, password: string) => Promise<string | null>;
+  register: (username: string, password: string) => Promise<string | null>;
+  logout: () => Promise<void>;
+}
+
+/**
+ * POST credentials to an auth route
+ * @returns The response body, with an error message when the request failed
+ */
+async function postAuth(url: string, body?: unknown): Promise<{ ok: boolean; data: any }> {
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: body ? { "Content-Type": "application/json" } : {},
+      body: body ? JSON.stringify(body) : undefined,
+      credentials: "include"
+    });
+    const data = await response.json().catch(() => ({}));
+    return { ok: response.ok, data };
+  } catch (error) {
+    console.error(`Error calling ${url}:`, error);
+    return { ok: false, data: { error: "Could not reach the server" } };
+  }
+}
+
+/**
+ * The game server reads the session when a connection opens, so reconnect to play as the new account
+ */
+function reconnectGameServer() {
+  const multiplayer = useMultiplayer.getState();
+  multiplayer.disconnectFromServer();
+  multiplayer.connectToServer();
+}
+
+export const useAuth = create<AuthState>((set) => ({
+  account: null,
+  loaded: false,
+
+  loadSession: async () => {
+    try {
+      const response = await fetch("/api/session", { credentials: "include" });
+      const session = await response.json();
+      set({
+        account: session.authenticated ? { userId: session.userId, username: session.username } : null,
+        loaded: true
+      });
+    } catch (error) {
+      console.error("Error loading session:", error);
+      set({ account: null, loaded: true });
+    }
+  },
+
+  login: async (username, password) => {
+    const { ok, data } = await postAuth("/api/login", { username, password });
+    if (!ok) {
+      return data.error || "Could not log in";
+    }
+
+    set({ account: { userId: data.userId, username: data.username } });
+    reconnectGameServer();
+    return null;
+  },
+
+  register: async (username, password) => {
+    const { ok, data } = await postAuth("/api/register", { username, password });
+    if (!ok) {
+      return data.error || "Could not create account";
+    }
+
+    set({ account: { userId: data.userId, username: data.username } });
+    reconnectGameServer();
+    return null;
+  },
+
+  logout: async () => {
+    await postAuth("/api/logout");
+    set({ account: null });
+    reconnectGameServer();
+  }
+}));
@@ -1,6 +1,10 @@
 import { create } from "zustand";
-import { FactionType, MultiplayerEvent } from "../../game/types";
+import { AIDifficulty, FactionType, MultiplayerEvent } from "../../game/types";
 import { SOCKET_EVENTS } from "../../game/config";
+import { ChatMessage, ChatScope, MatchSettings } from "@shared/types";
+
+// Older chat messages are dropped once the log is this long
+const CHAT_LOG_LIMIT = 100;
 
 interface PendingAction {
   type: string;
@@ -16,8 +20,23 @@ interface MultiplayerState {
     id: string;
     username: string;
     faction: FactionType | null;
+    team?: number | null;
     ready: boolean;
+    isBot?: boolean;
   }>;
+  // Our player ID, assigned by the server when we join a room
+  playerId: string | null;
+  // The human player who starts the match, kicks players, manages bots and picks the settings
+  hostId: string | null;
+  // The room's settings for the next match
+  settings: MatchSettings | null;
+  // Whether we joined the current room as a spectator
+  isObserver: boolean;
+  observers: Array<{ id: string; username: string }>;
+  // Chat and system messages in the current room, oldest first
+  chatMessages: ChatMessage[];
+  // Whether we are waiting in the quick-match queue
+  inQueue: boolean;
   gameEventListeners: ((event: MultiplayerEvent) => void)[];
   
   // Improved server-client synchronization
@@ -32,20 +51,40 @@ interface MultiplayerState {
   disconnectFromServer: () => void;
   
   // Room management
-  joinRoom: (roomCode: string) => void;
+  createRoom: (options: { isPublic: boolean; password?: string }) => void;
+  joinRoom: (roomCode: string, options?: { observe?: boolean; password?: string }) => void;
   leaveRoom: () => void;
+  joinQueue: () => void;
+  leaveQueue: () => void;
   
   // Player actions
   updateFaction: (faction: FactionType) => void;
   updateReadyState: (ready: boolean) => void;
+  // Pass a bot's ID to change that bot's team instead (host only)
+  updateTeam: (team: number | null, botId?: string) => void;
+  
+  sendChat: (scope: ChatScope, text: string) => void;
+  
+  // Host actions
+  addBot: (difficulty: AIDifficulty) => void;
+  removeBot: (botId: string) => void;
+  // Settings left out keep their value
+  updateSettings: (settings: Partial<MatchSettings>) => void;
+  kickPlayer: (playerId: string) => void;
+  
+  // Any player still in the match may pause, a limited number of times, or resume
+  pauseGame: () => void;
+  resumeGame: () => void;
   
   // Game actions
   startGame: () => void;
   moveUnits: (unitIds: string[], targetX: number, targetY: number) => void;
-  createUnit: (playerId: string, type: string, x: number, y: number) => void;
   createBuilding: (playerId: string, type: string, x: number, y: number) => void;
-  updateResources: (resources: { food: number; ore: number }) => void;
   researchTech: (techId: string) => void;
+  attackTarget: (attackerIds: string[], targetId: string) => void;
+  gatherResource: (unitIds: string[], resourceX: number, resourceY: number) => void;
+  queueProduction: (buildingId: string, unitType: string) => void;
+  cancelProduction: (buildingId: string, index: number) => void;
   
   // Event listeners
   subscribeToGameEvents: (listener: (event: MultiplayerEvent) => void) => () => void;
@@ -56,6 +95,13 @@ export const useMultiplayer = create<MultiplayerState>((set, get) => ({
   socket: null,
   roomCode: null,
   players: [],
+  playerId: null,
+  hostId: null,
+  settings: null,
+  isObserver: false,
+  observers: [],
+  chatMessages: [],
+  inQueue: false,
   gameEventListeners: [],
   
   // Improved synchronization properties
@@ -82,7 +128,8 @@ export const useMultiplayer = create<MultiplayerState>((set, get) => ({
       
       socket.onclose = () => {
         console.log("WebSocket connection closed");
-        set({ connected: false, socket: null });
+        // The server drops a closed connection from the quick-match queue
+        set({ connected: false, socket: null, inQueue: false });
         
         // Try to reconnect after delay
         setTimeout(() => {
@@ -140,12 +187,17 @@ export const useMultiplayer = create<MultiplayerState>((set, get) => ({
     set({ 
       connected: false,
       socket: null,
+      inQueue: false,
       roomCode: null,
-      players: []
+      players: [],
+      hostId: null,
+      isObserver: false,
+      observers: [],
+      chatMessages: []
     });
   },
   
-  joinRoom: (roomCode: string) => {
+  joinRoom: (roomCode: string, options = {}) => {
     const { socket, connected } = get();
     
     if (!connected || !socket) {
@@ -159,19 +211,69 @@ export const useMultiplayer = create<MultiplayerState>((set, get) => ({
     // For now, simulate joining a room
     socket.send(JSON.stringify({
       type: SOCKET_EVENTS.JOIN_ROOM,
-      roomCode
+      roomCode,
+      ...(options.password ? { password: options.password } : {}),
+      ...(options.observe ? { role: "observer" } : {})
     }));
     
+    // Observers watch without a player slot
+    if (options.observe) {
+      set({ roomCode, players: [], isObserver: true, chatMessages: [] });
+      return;
+    }
+    
     // Simulate receiving players in the room
     const username = "Player" + Math.floor(Math.random() * 1000);
     set({
       roomCode,
       players: [
         { id: "local", username, faction: null, ready: false }
-      ]
+      ],
+      isObserver: false,
+      chatMessages: []
     });
   },
   
+  createRoom: (options) => {
+    const { socket, connected } = get();
+    
+    if (!connected || !socket) {
+      console.error("Cannot create room: not connected to server");
+      return;
+    }
+    
+    // The server picks the room code and sends it in the first roomUpdate
+    socket.send(JSON.stringify({
+      type: SOCKET_EVENTS.CREATE_ROOM,
+      isPublic: options.isPublic,
+      ...(options.password ? { password: options.password } : {})
+    }));
+    
+    set({ roomCode: null, players: [], isObserver: false, chatMessages: [] });
+  },
+  
+  joinQueue: () => {
+    const { socket, connected } = get();
+    
+    if (!connected || !socket) {
+      console.error("Cannot join quick match: not connected to server");
+      return;
+    }
+    
+    // The server answers with matchFound once enough players are waiting
+    socket.send(JSON.stringify({ type: SOCKET_EVENTS.JOIN_QUEUE }));
+    set({ inQueue: true });
+  },
+  
+  leaveQueue: () => {
+    const { socket, inQueue } = get();
+    
+    if (socket && inQueue) {
+      socket.send(JSON.stringify({ type: SOCKET_EVENTS.LEAVE_QUEUE }));
+    }
+    set({ inQueue: false });
+  },
+  
   leaveRoom: () => {
     const { socket, roomCode } = get();
     
@@ -184,7 +286,12 @@ export const useMultiplayer = create<MultiplayerState>((set, get) => ({
     
     set({ 
       roomCode: null,
-      players: []
+      players: [],
+      hostId: null,
+      settings: null,
+      isObserver: false,
+      observers: [],
+      chatMessages: []
     });
   },
   
@@ -240,6 +347,125 @@ export const useMultiplayer = create<MultiplayerState>((set, get) => ({
     set({ players: updatedPlayers });
   },
   
+  updateTeam: (team: number | null, botId?: string) => {
+    const { socket, roomCode } = get();
+    
+    if (!socket || !roomCode) {
+      console.error("Cannot update team: not in a room");
+      return;
+    }
+    
+    // The server checks the match can still be set up and sends everyone a roomUpdate
+    socket.send(JSON.stringify({
+      type: SOCKET_EVENTS.UPDATE_PLAYER,
+      roomCode,
+      botId,
+      team
+    }));
+  },
+  
+  sendChat: (scope: ChatScope, text: string) => {
+    const { socket, roomCode } = get();
+    
+    if (!socket || !roomCode) {
+      console.error("Cannot send chat: not in a room");
+      return;
+    }
+    
+    // Our own message comes back from the server like everyone else's
+    socket.send(JSON.stringify({
+      type: SOCKET_EVENTS.CHAT,
+      roomCode,
+      scope,
+      text
+    }));
+  },
+  
+  addBot: (difficulty: AIDifficulty) => {
+    const { socket, roomCode } = get();
+    
+    if (!socket || !roomCode) {
+      console.error("Cannot add bot: not in a room");
+      return;
+    }
+    
+    // The server adds the bot and sends everyone a roomUpdate
+    socket.send(JSON.stringify({
+      type: SOCKET_EVENTS.ADD_BOT,
+      roomCode,
+      difficulty
+    }));
+  },
+  
+  removeBot: (botId: string) => {
+    const { socket, roomCode } = get();
+    
+    if (!socket || !roomCode) {
+      console.error("Cannot remove bot: not in a room");
+      return;
+    }
+    
+    socket.send(JSON.stringify({
+      type: SOCKET_EVENTS.REMOVE_BOT,
+      roomCode,
+      botId
+    }));
+  },
+  
+  updateSettings: (settings: Partial<MatchSettings>) => {
+    const { socket, roomCode } = get();
+    
+    if (!socket || !roomCode) {
+      console.error("Cannot update settings: not in a room");
+      return;
+    }
+    
+    // The server sends everyone a roomUpdate with the new settings
+    socket.send(JSON.stringify({
+      type: SOCKET_EVENTS.UPDATE_SETTINGS,
+      roomCode,
+      settings
+    }));
+  },
+  
+  kickPlayer: (playerId: string) => {
+    const { socket, roomCode } = get();
+    
+    if (!socket || !roomCode) {
+      console.error("Cannot kick player: not in a room");
+      return;
+    }
+    
+    socket.send(JSON.stringify({
+      type: SOCKET_EVENTS.KICK_PLAYER,
+      roomCode,
+      playerId
+    }));
+  },
+  
+  pauseGame: () => {
+    const { socket, roomCode } = get();
+    
+    if (!socket || !roomCode) {
+      console.error("Cannot pause: not in a room");
+      return;
+    }
+    
+    // Everyone, including us, hears about the pause from the server
+    socket.send(JSON.stringify({ type: SOCKET_EVENTS.PAUSE_GAME, roomCode }));
+  },
+  
+  resumeGame: () => {
+    const { socket, roomCode } = get();
+    
+    if (!socket || !roomCode) {
+      console.error("Cannot resume: not in a room");
+      return;
+    }
+    
+    socket.send(JSON.stringify({ type: SOCKET_EVENTS.RESUME_GAME, roomCode }));
+  },
+  
   startGame: () => {
     const { socket, roomCode } = get();
     
@@ -306,108 +532,127 @@ export const useMultiplayer = create<MultiplayerState>((set, get) => ({
     }
   },
   
-  createUnit: (playerId: string, type: string, x: number, y: number) => {
+  createBuilding: (playerId: string, type: string, x: number, y: number) => {
     const { socket, roomCode } = get();
     
     if (!socket || !roomCode) {
-      console.error("Cannot create unit: not in a game");
+      console.error("Cannot create building: not in a game");
       return;
     }
     
-    // Send create unit command to server
+    // Send create building command to server
     socket.send(JSON.stringify({
       type: SOCKET_EVENTS.GAME_EVENT,
       roomCode,
-      eventType: "unitCreate",
-      playerId,
-      unitType: type,
+      eventType: "buildingCreate",
+      buildingType: type,
       x,
       y
     }));
     
     // Simulate event broadcast
     notifyGameEventListeners({
-      type: "unitCreate",
+      type: "buildingCreate",
       playerId,
-      unitType: type,
+      buildingType: type,
       x,
       y
     });
   },
   
-  createBuilding: (playerId: string, type: string, x: number, y: number) => {
+  researchTech: (techId: string) => {
     const { socket, roomCode } = get();
     
     if (!socket || !roomCode) {
-      console.error("Cannot create building: not in a game");
+      console.error("Cannot research technology: not in a game");
       return;
     }
     
-    // Send create building command to server
+    // Send tech research command to server
     socket.send(JSON.stringify({
       type: SOCKET_EVENTS.GAME_EVENT,
       roomCode,
-      eventType: "buildingCreate",
-      playerId,
-      buildingType: type,
-      x,
-      y
+      eventType: "researchTech",
+      techId
     }));
     
     // Simulate event broadcast
     notifyGameEventListeners({
-      type: "buildingCreate",
-      playerId,
-      buildingType: type,
-      x,
-      y
+      type: "researchTech",
+      techId
     });
   },
   
-  updateResources: (resources: { food: number; ore: number }) => {
+  attackTarget: (attackerIds: string[], targetId: string) => {
     const { socket, roomCode } = get();
     
     if (!socket || !roomCode) {
-      console.error("Cannot update resources: not in a game");
+      console.error("Cannot attack: not in a game");
       return;
     }
     
-    // Send resource update to server
+    // Send attack order to server; damage and kills come back through stateUpdate
     socket.send(JSON.stringify({
       type: SOCKET_EVENTS.GAME_EVENT,
       roomCode,
-      eventType: "resourceUpdate",
-      resources
+      eventType: "attack",
+      attackerIds,
+      targetId
     }));
+  },
+  
+  gatherResource: (unitIds: string[], resourceX: number, resourceY: number) => {
+    const { socket, roomCode } = get();
     
-    // Simulate event broadcast
-    notifyGameEventListeners({
-      type: "resourceUpdate",
-      resources
-    });
+    if (!socket || !roomCode) {
+      console.error("Cannot gather: not in a game");
+      return;
+    }
+    
+    // The server walks the workers between the resource and their city center
+    socket.send(JSON.stringify({
+      type: SOCKET_EVENTS.GAME_EVENT,
+      roomCode,
+      eventType: "gatherResource",
+      unitIds,
+      resourceX,
+      resourceY
+    }));
   },
   
-  researchTech: (techId: string) => {
+  queueProduction: (buildingId: string, unitType: string) => {
     const { socket, roomCode } = get();
     
     if (!socket || !roomCode) {
-      console.error("Cannot research technology: not in a game");
+      console.error("Cannot queue production: not in a game");
       return;
     }
     
-    // Send tech research command to server
+    // The server charges the cost and spawns the unit when training finishes
     socket.send(JSON.stringify({
       type: SOCKET_EVENTS.GAME_EVENT,
       roomCode,
-      eventType: "researchTech",
-      techId
+      eventType: "queueProduction",
+      buildingId,
+      unitType
     }));
+  },
+  
+  cancelProduction: (buildingId: string, index: number) => {
+    const { socket, roomCode } = get();
     
-    // Simulate event broadcast
-    notifyGameEventListeners({
-      type: "researchTech",
-      techId
-    });
+    if (!socket || !roomCode) {
+      console.error("Cannot cancel production: not in a game");
+      return;
+    }
+    
+    socket.send(JSON.stringify({
+      type: SOCKET_EVENTS.GAME_EVENT,
+      roomCode,
+      eventType: "cancelProduction",
+      buildingId,
+      index
+    }));
   },
   
   subscribeToGameEvents: (listener) => {
@@ -453,32 +698,54 @@ function handleServerMessage(message: any) {
         }));
       }
       break;
-      
+    
     case "connection_data":
       // Store reconnection token securely
       if (message.reconnectToken && message.playerId) {
         localStorage.setItem("reconnectToken", message.reconnectToken);
         localStorage.setItem("playerId", message.playerId);
       }
+      if (message.playerId) {
+        useMultiplayer.setState({ playerId: message.playerId });
+      }
       break;
-      
+    
     case "reconnectSuccess":
       console.log("Successfully reconnected to game");
       useMultiplayer.setState({ 
-        roomCode: message.roomCode
+        roomCode: message.roomCode,
+        playerId: message.playerId
       });
       localStorage.setItem("roomCode", message.roomCode);
       break;
-      
+    
     case "roomUpdate":
       console.log("Room update received:", message.room);
       useMultiplayer.setState({
         roomCode: message.room.roomCode,
-        players: message.room.players
+        players: message.room.players,
+        hostId: message.room.hostId || null,
+        settings: message.room.settings || null,
+        observers: message.room.observers || []
       });
       localStorage.setItem("roomCode", message.room.roomCode);
       break;
-      
+    
+    case "matchFound":
+      // The server has already put us in the new room; its roomUpdate follows
+      useMultiplayer.setState({
+        roomCode: message.roomCode,
+        players: [],
+        isObserver: false,
+        chatMessages: [],
+        inQueue: false
+      });
+      notifyGameEventListeners({
+        type: "matchFound",
+        roomCode: message.roomCode
+      });
+      break;
+    
     case "gameStart":
       console.log("Game started:", message.gameData);
       // Forward game start event to listeners
@@ -487,26 +754,109 @@ function handleServerMessage(message: any) {
         gameData: message.gameData
       });
       break;
-      
+    
     case "gameEvent":
       // Forward game events to listeners
       notifyGameEventListeners(message.event);
       break;
-      
+    
+    case "gamePaused":
+      notifyGameEventListeners({
+        type: "gamePaused",
+        playerId: message.playerId,
+        resumesIn: message.resumesIn
+      });
+      break;
+    
+    case "gameResumed":
+      notifyGameEventListeners({
+        type: "gameResumed",
+        playerId: message.playerId
+      });
+      break;
+    
+    case "playerDisconnected":
+      // The player keeps their place in the match for gracePeriod ms
+      notifyGameEventListeners({
+        type: "playerDisconnected",
+        playerId: message.playerId,
+        gracePeriod: message.gracePeriod
+      });
+      break;
+    
+    case "playerReconnected":
+      notifyGameEventListeners({
+        type: "playerReconnected",
+        playerId: message.playerId
+      });
+      break;
+    
+    case "playerDefeated":
+      // The server decides eliminations; forward them to the game scene
+      notifyGameEventListeners({
+        type: "playerDefeated",
+        playerId: message.playerId
+      });
+      break;
+    
+    case "gameOver":
+      console.log("Game over:", message.result);
+      notifyGameEventListeners({
+        type: "gameOver",
+        result: message.result
+      });
+      break;
+    
+    case "chat":
+      useMultiplayer.setState({
+        chatMessages: [...state.chatMessages, message.message as ChatMessage].slice(-CHAT_LOG_LIMIT)
+      });
+      break;
+    
     case "stateUpdate":
       // Process delta state updates
       processStateUpdate(message.changes, message.tick);
       break;
-      
+    
     case "ping":
       // Respond to ping with pong to measure latency
       respondToPing(message.timestamp);
       break;
-      
+    
+    case "kicked":
+      // The server has already removed us from the room
+      useMultiplayer.setState({
+        roomCode: null,
+        players: [],
+        hostId: null,
+        settings: null,
+        isObserver: false,
+        observers: [],
+        chatMessages: []
+      });
+      localStorage.removeItem("roomCode");
+      notifyGameEventListeners({
+        type: "kicked",
+        roomCode: message.roomCode
+      });
+      break;
+    
     case "error":
       console.error("Server error:", message.message);
+      // The room or our place in it is gone; stop trying to get back in
+      if (message.code === "RECONNECT_FAILED") {
+        localStorage.removeItem("roomCode");
+        localStorage.removeItem("playerId");
+        localStorage.removeItem("reconnectToken");
+      }
+      // Scenes react to the errors they can recover from, such as a room asking for a password
+      notifyGameEventListeners({
+        type: "error",
+        message: message.message,
+        code: message.code
+      });
       break;
-      
+    
     default:
       console.warn("Unknown message type received:", message.type);
   }
@@ -607,7 +957,7 @@ function respondToPing(timestamp: number) {
     const newLatency = state.networkLatency === 0 
       ? oneWayLatency 
       : Math.floor(state.networkLatency * 0.7 + oneWayLatency * 0.3);
-      
+    
     useMultiplayer.setState({ networkLatency: newLatency });
     
     // Send pong response with original timestamp for server to calculate round-trip time
@@ -1,6 +1,9 @@
 import { defineConfig } from "drizzle-kit";
 
-if (!process.env.DATABASE_URL) {
+// STORAGE=pglite pushes the schema into the server's in-process database directory instead
+const usesPglite = process.env.STORAGE === "pglite";
+
+if (!usesPglite && !process.env.DATABASE_URL) {
   throw new Error("DATABASE_URL, ensure the database is provisioned");
 }
 
@@ -8,7 +11,7 @@ export default defineConfig({
   out: "./migrations",
   schema: "./shared/schema.ts",
   dialect: "postgresql",
-  dbCredentials: {
-    url: process.env.DATABASE_URL,
-  },
+  ...(usesPglite
+    ? { driver: "pglite", dbCredentials: { url: process.env.PGLITE_DATA_DIR || "data/pglite" } }
+    : { dbCredentials: { url: process.env.DATABASE_URL! } }),
 });
@@ -6,6 +6,10 @@ import { z } from 'zod';
 const envSchema = z.object({
   // Database
   DATABASE_URL: z.string().optional(),
+  // Where accounts and match data live; defaults to the database when DATABASE_URL is set
+  // pglite runs Postgres inside the server process, keeping its data in PGLITE_DATA_DIR
+  STORAGE: z.enum(['memory', 'database', 'pglite']).optional(),
+  PGLITE_DATA_DIR: z.string().default('data/pglite'),
   
   // Server settings
   PORT: z.string().transform(Number).default('5000'),
@@ -14,6 +18,9 @@ const envSchema = z.object({
   // Session and security
   SESSION_SECRET: z.string().default('book-of-mormon-war-game-secret'),
   
+  // Where finished match replays are written
+  REPLAY_DIR: z.string().default('replays'),
+  
   // Feature flags - add as needed
   ENABLE_WEBSOCKETS: z.string()
     .transform(val => val.toLowerCase() === 'true')
@@ -0,0 +1,219 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GameRoom, RoomOptions } from "./GameRoom";
+import { Player } from "../../shared/player";
+import { rateMatch } from "../lib/rating";
+import { SIMULATION_STEP_MS } from "../../shared/replay";
+import { MIN_OBSERVER_DELAY } from "../../client/src/game/config";
+
+// Finished matches would otherwise write replays to disk and ratings to storage
+vi.mock("../lib/replays", () => ({ saveReplay: vi.fn(async () => "replay") }));
+vi.mock("../lib/rating", () => ({ rateMatch: vi.fn(async () => {}) }));
+
+/**
+ * Socket stand-in that keeps every chat message sent to it
+ */
+function createSocket() {
+  const chat: any[] = [];
+  return {
+    chat,
+    socket: {
+      readyState: 1,
+      send: (raw: string) => {
+        const data = JSON.parse(raw);
+        if (data.type === "chat") chat.push(data.message);
+      }
+    } as any
+  };
+}
+
+/**
+ * A lobby with two players with accounts, "a" and "b", and the chat each of them receives
+ */
+function createRoom(options?: RoomOptions) {
+  const room = new GameRoom("TEST", options);
+  const received: Record<string, any[]> = {};
+  ["a", "b"].forEach((playerId, index) => {
+    const player = new Player(playerId, playerId.toUpperCase(), index + 1);
+    player.setFaction("Nephites");
+    player.setReady(true);
+    const { chat, socket } = createSocket();
+    received[playerId] = chat;
+    room.addPlayer(player, socket);
+  });
+  return { room, received };
+}
+
+const sentBy = (messages: any[], senderId: string) => messages.filter(message => message.senderId === senderId);
+const refusals = (messages: any[]) => messages.filter(message =>
+  message.scope === "system" && message.text === "You are sending messages too quickly");
+
+describe("chat rate limit", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("allows five messages in ten seconds", () => {
+    const { room, received } = createRoom();
+
+    for (let i = 0; i < 5; i++) {
+      expect(room.sendChat("a", "lobby", `message ${i}`)).toBe(true);
+      vi.advanceTimersByTime(1000);
+    }
+
+    expect(sentBy(received.b, "a")).toHaveLength(5);
+    expect(refusals(received.a)).toEqual([]);
+  });
+
+  it("refuses a sixth message within the window, telling only the sender", () => {
+    const { room, received } = createRoom();
+
+    for (let i = 0; i < 5; i++) {
+      room.sendChat("a", "lobby", `message ${i}`);
+    }
+
+    expect(room.sendChat("a", "lobby", "one too many")).toBe(false);
+    expect(sentBy(received.b, "a")).toHaveLength(5);
+    expect(refusals(received.a)).toHaveLength(1);
+    expect(refusals(received.b)).toEqual([]);
+  });
+
+  it("lets a sender talk again once their oldest message leaves the window", () => {
+    const { room } = createRoom();
+
+    room.sendChat("a", "lobby", "first");
+    vi.advanceTimersByTime(5000);
+    for (let i = 0; i < 4; i++) {
+      room.sendChat("a", "lobby", `message ${i}`);
+    }
+
+    vi.advanceTimersByTime(4999);
+    expect(room.sendChat("a", "lobby", "too early")).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    expect(room.sendChat("a", "lobby", "after the window")).toBe(true);
+    expect(room.sendChat("a", "lobby", "window full again")).toBe(false);
+  });
+
+  it("does not count refused messages against the sender", () => {
+    const { room } = createRoom();
+
+    for (let i = 0; i < 5; i++) {
+      room.sendChat("a", "lobby", `message ${i}`);
+    }
+    for (let i = 0; i < 10; i++) {
+      room.sendChat("a", "lobby", "spam");
+    }
+
+    vi.advanceTimersByTime(10000);
+    expect(room.sendChat("a", "lobby", "back")).toBe(true);
+  });
+
+  it("limits each sender separately", () => {
+    const { room } = createRoom();
+
+    for (let i = 0; i < 5; i++) {
+      room.sendChat("a", "lobby", `message ${i}`);
+    }
+
+    expect(room.sendChat("a", "lobby", "blocked")).toBe(false);
+    expect(room.sendChat("b", "lobby", "still fine")).toBe(true);
+  });
+
+  it("limits observers too", () => {
+    const { room } = createRoom();
+    const observer = createSocket();
+    room.addObserver("o", "Observer", observer.socket);
+    expect(room.startGame(1)).toBe(true);
+
+    for (let i = 0; i < 5; i++) {
+      expect(room.sendChat("o", "all", `message ${i}`)).toBe(true);
+    }
+
+    expect(room.sendChat("o", "all", "blocked")).toBe(false);
+
+    // Everything reaches observers after the observer delay during a match
+    vi.advanceTimersByTime(MIN_OBSERVER_DELAY * 1000);
+    expect(sentBy(observer.chat, "o")).toHaveLength(5);
+    expect(refusals(observer.chat)).toHaveLength(1);
+  });
+
+  it("starts a rejoining player with a fresh window", () => {
+    const { room } = createRoom();
+
+    for (let i = 0; i < 5; i++) {
+      room.sendChat("a", "lobby", `message ${i}`);
+    }
+    room.removePlayer("a");
+
+    const player = new Player("a", "A");
+    player.setFaction("Nephites");
+    room.addPlayer(player, createSocket().socket);
+
+    expect(room.sendChat("a", "lobby", "hello again")).toBe(true);
+  });
+});
+
+describe("getGameData", () => {
+  it("keeps players who left the match in the roster", () => {
+    const { room } = createRoom();
+    expect(room.startGame(1)).toBe(true);
+
+    room.removePlayer("b");
+
+    const gameData = room.getGameData();
+    expect(gameData.players.map((player: any) => player.id)).toEqual(["a", "b"]);
+    expect(gameData.seed).toBe(1);
+  });
+});
+
+describe("match ratings", () => {
+  beforeEach(() => {
+    vi.mocked(rateMatch).mockClear();
+  });
+
+  /**
+   * Start a match in the room and end it by having "b" leave
+   */
+  function playMatch(room: GameRoom) {
+    expect(room.startGame(1)).toBe(true);
+    room.removePlayer("b");
+    // A simulated minute is plenty for the forfeit to decide the match
+    for (let step = 0; step < 1200 && room.getRoomData().gameStarted; step++) {
+      room.updateGameState(SIMULATION_STEP_MS);
+      room.resolveMatchOutcome();
+    }
+    expect(room.getRoomData().lastResult.winnerIds).toEqual(["a"]);
+  }
+
+  it("rates matches in ranked rooms", () => {
+    const { room } = createRoom({ isPublic: false, password: null, ranked: true });
+
+    playMatch(room);
+
+    expect(rateMatch).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(rateMatch).mock.calls[0][0].map(participant => participant.userId)).toEqual([1, 2]);
+  });
+
+  it("does not rate matches in rooms players made themselves", () => {
+    const { room } = createRoom({ isPublic: true, password: null, ranked: false });
+
+    playMatch(room);
+
+    expect(rateMatch).not.toHaveBeenCalled();
+  });
+
+  it("restores older saves as unranked", () => {
+    const { room } = createRoom({ isPublic: false, password: null, ranked: true });
+    expect(room.startGame(1)).toBe(true);
+
+    const saved = room.toSaved();
+    delete (saved.options as Partial<RoomOptions>).ranked;
+
+    expect(GameRoom.fromSaved(saved).isRanked()).toBe(false);
+  });
+});
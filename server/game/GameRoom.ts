@@ -1,36 +1,157 @@
 import { WebSocket } from "ws";
-import { Player } from "./Player";
-import { GameState } from "./GameState";
-import { GameEvent } from "../../shared/types";
-import { MAX_PLAYERS } from "../../client/src/game/config";
+import { Player } from "../../shared/player";
+import { GameState, GameResult, SavedGameState, VictoryConditions } from "../../shared/gameState";
+import { ReplayRecorder, SavedRecording } from "./ReplayRecorder";
+import { ServerBot } from "./ServerBot";
+import { ChatMessage, ChatScope, GameEvent, MatchSettings, RoomListing, VictoryCondition } from "../../shared/types";
+import { SIMULATION_STEP_MS } from "../../shared/replay";
+import { saveReplay } from "../lib/replays";
+import { storage } from "../storage";
+import { rateMatch } from "../lib/rating";
+import type { InsertMatchParticipant, MatchOutcome } from "../../shared/schema";
+import {
+  MAX_PLAYERS,
+  MAX_OBSERVERS,
+  MIN_OBSERVER_DELAY,
+  STARTING_RESOURCES,
+  PAUSES_PER_PLAYER,
+  PAUSE_TIMEOUT,
+  RECONNECT_GRACE_PERIOD,
+  MATCH_SAVE_INTERVAL
+} from "../../client/src/game/config";
+import { AIDifficulty, FactionType } from "../../client/src/game/types";
+
+// Each player or observer may send this many chat messages per window
+const CHAT_RATE_LIMIT = 5;
+const CHAT_RATE_WINDOW = 10000; // Milliseconds
+
+const DEFAULT_MATCH_SETTINGS: MatchSettings = {
+  seed: null,
+  startingResources: "standard",
+  gameSpeed: 1,
+  victoryCondition: "cityCenter",
+  observerDelay: MIN_OBSERVER_DELAY
+};
+
+const VICTORY_CONDITIONS: Record<VictoryCondition, VictoryConditions> = {
+  cityCenter: { loseWithoutCityCenter: true, loseWithoutUnits: false },
+  units: { loseWithoutCityCenter: false, loseWithoutUnits: true },
+  either: { loseWithoutCityCenter: true, loseWithoutUnits: true }
+};
+
+/**
+ * How a room can be found and joined
+ */
+export interface RoomOptions {
+  // Public rooms are listed in the room browser; private rooms are joined by code only
+  isPublic: boolean;
+  // Required from players and observers joining the room, when set
+  password: string | null;
+  // Only quick-match rooms are ranked; matches in them change the players' ratings
+  ranked: boolean;
+}
+
+/**
+ * A pause in progress; the match resumes by itself at resumesAt
+ */
+interface PauseState {
+  playerId: string;
+  resumesAt: number;
+}
+
+/**
+ * A spectator who sees the whole match but cannot act in it
+ */
+interface Observer {
+  id: string;
+  username: string;
+  socket: WebSocket;
+}
+
+/**
+ * A room with a match in progress, as it is saved to storage so it survives a server restart
+ * Pauses and observers are not saved; a restored match starts unpaused with nobody watching
+ */
+export interface SavedRoom {
+  roomCode: string;
+  options: RoomOptions;
+  settings: MatchSettings;
+  hostId: string | null;
+  // Players still in the room, in join order; the game state's roster also has those who left
+  playerIds: string[];
+  // Player ID -> difficulty of the bot playing that slot
+  bots: { [playerId: string]: AIDifficulty };
+  nextBotNumber: number;
+  reconnectTokens: { [playerId: string]: string };
+  pausesUsed: { [playerId: string]: number };
+  tick: number;
+  stepAccumulator: number;
+  gameState: SavedGameState;
+  replay: SavedRecording | null;
+  savedAt: number;
+}
 
 export class GameRoom {
   private roomCode: string;
+  private options: RoomOptions;
+  private settings: MatchSettings;
+  private hostId: string | null; // Human player who sets up the room; null once only bots are left
   private players: Map<string, Player>;
   private playerSockets: Map<string, WebSocket>;
+  private observers: Map<string, Observer>;
+  private bots: Map<string, ServerBot>; // Player ID -> bot playing that slot
+  private nextBotNumber: number;
   private gameState: GameState | null;
   private gameStarted: boolean;
+  private pause: PauseState | null;
+  private pausesUsed: Map<string, number>; // Player ID -> pauses called this match
   
   // New properties for optimized multiplayer
   private lastStateBroadcast: number;
   private pendingEvents: GameEvent[];
-  private lastStateSnapshot: any;
+  private lastStateSnapshots: Map<string, any>; // Player ID -> last state they were sent
+  private lastResult: GameResult | null;
+  private tick: number; // Simulation steps since the match started
+  private stepAccumulator: number; // Elapsed time not yet simulated, in milliseconds
+  private replayRecorder: ReplayRecorder | null;
   private reconnectTokens: Map<string, string>; // Player ID -> Token for reconnection
+  private reconnectDeadlines: Map<string, number>; // Disconnected player ID -> when their grace period ends
   private latencyData: Map<string, { ping: number, lastPing: number }>; // Track player latency
+  private chatTimestamps: Map<string, number[]>; // Sender ID -> when their recent chat messages were sent
+  private lastSavedAt: number; // When the match in progress was last saved to storage
+  private storageWrites: Promise<void>; // Saves and removals of the saved match, applied in order
+  private awaitingPlayers: boolean; // A restored match holds until its players are back or have forfeited
   
-  constructor(roomCode: string) {
+  constructor(roomCode: string, options: RoomOptions = { isPublic: false, password: null, ranked: false }) {
     this.roomCode = roomCode;
+    this.options = { ...options };
+    this.settings = { ...DEFAULT_MATCH_SETTINGS };
+    this.hostId = null;
     this.players = new Map();
     this.playerSockets = new Map();
+    this.observers = new Map();
+    this.bots = new Map();
+    this.nextBotNumber = 1;
     this.gameState = null;
     this.gameStarted = false;
+    this.pause = null;
+    this.pausesUsed = new Map();
     
     // Initialize new properties
     this.lastStateBroadcast = Date.now();
     this.pendingEvents = [];
-    this.lastStateSnapshot = null;
+    this.lastStateSnapshots = new Map();
+    this.lastResult = null;
+    this.tick = 0;
+    this.stepAccumulator = 0;
+    this.replayRecorder = null;
     this.reconnectTokens = new Map();
+    this.reconnectDeadlines = new Map();
     this.latencyData = new Map();
+    this.chatTimestamps = new Map();
+    this.lastSavedAt = 0;
+    this.storageWrites = Promise.resolve();
+    this.awaitingPlayers = false;
   }
   
   addPlayer(player: Player, socket: WebSocket): boolean {
@@ -39,9 +160,12 @@ export class GameRoom {
       return false;
     }
     
-    // Add player
+    // Add player; the first one in hosts the room
     this.players.set(player.id, player);
     this.playerSockets.set(player.id, socket);
+    if (this.hostId === null) {
+      this.hostId = player.id;
+    }
     
     // Create reconnection token for this player
     const reconnectToken = this.generateReconnectToken();
@@ -60,10 +184,25 @@ export class GameRoom {
     return true;
   }
   
+  /**
+   * Players who leave a match in progress forfeit it; their units and buildings stay on the map
+   */
   removePlayer(playerId: string): boolean {
+    if (this.gameStarted && this.gameState && this.players.has(playerId)) {
+      this.pendingEvents.push({ playerId, type: "forfeit" });
+    }
+    
+    this.bots.delete(playerId);
+    this.chatTimestamps.delete(playerId);
+    this.reconnectDeadlines.delete(playerId);
     const playerRemoved = this.players.delete(playerId);
     const socketRemoved = this.playerSockets.delete(playerId);
     
+    // Hosting passes to the longest-present human player left
+    if (playerId === this.hostId) {
+      this.hostId = Array.from(this.players.keys()).find(id => !this.bots.has(id)) ?? null;
+    }
+    
     // Keep reconnect token for 5 minutes to allow rejoins
     setTimeout(() => {
       this.reconnectTokens.delete(playerId);
@@ -72,29 +211,224 @@ export class GameRoom {
     return playerRemoved || socketRemoved;
   }
   
+  /**
+   * Fill an empty player slot with a server-hosted bot; bots are always ready
+   * @returns The bot's player, or null if the room is full or in a match
+   */
+  addBot(difficulty: AIDifficulty, faction: FactionType = "Lamanites"): Player | null {
+    if (this.isFull() || this.gameStarted) {
+      return null;
+    }
+    
+    const botNumber = this.nextBotNumber++;
+    const difficultyName = difficulty.charAt(0).toUpperCase() + difficulty.slice(1);
+    const bot = new Player(`bot_${botNumber}`, `Bot ${botNumber} (${difficultyName})`);
+    bot.setFaction(faction);
+    bot.setReady(true);
+    
+    this.players.set(bot.id, bot);
+    this.bots.set(bot.id, new ServerBot(bot.id, difficulty));
+    
+    return bot;
+  }
+  
+  removeBot(botId: string): boolean {
+    if (!this.bots.has(botId) || this.gameStarted) {
+      return false;
+    }
+    
+    return this.removePlayer(botId);
+  }
+  
+  isBot(playerId: string): boolean {
+    return this.bots.has(playerId);
+  }
+  
+  /**
+   * The host starts the match, kicks players, manages bots and picks the match settings
+   */
+  isHost(playerId: string): boolean {
+    return this.hostId === playerId;
+  }
+  
+  getHostId(): string | null {
+    return this.hostId;
+  }
+  
+  getSettings(): MatchSettings {
+    return { ...this.settings };
+  }
+  
+  /**
+   * Change the settings for the next match; everyone readies up again so nobody starts
+   * a match under settings they haven't seen
+   * @returns False during a match
+   */
+  updateSettings(settings: Partial<MatchSettings>): boolean {
+    if (this.gameStarted) {
+      return false;
+    }
+    
+    this.settings = { ...this.settings, ...settings };
+    this.players.forEach((player, playerId) => {
+      if (!this.bots.has(playerId)) {
+        player.setReady(false);
+      }
+    });
+    
+    return true;
+  }
+  
+  /**
+   * Remove a player from the lobby, or an observer at any time, and tell them they were kicked
+   * @returns False if there is no such player or observer, or the player is in a match
+   */
+  kick(targetId: string): boolean {
+    const observer = this.observers.get(targetId);
+    if (observer) {
+      this.sendToClient(targetId, { type: "kicked", roomCode: this.roomCode });
+      return this.removeObserver(targetId);
+    }
+    
+    if (!this.players.has(targetId) || this.bots.has(targetId) || this.gameStarted) {
+      return false;
+    }
+    
+    this.sendToPlayer(targetId, { type: "kicked", roomCode: this.roomCode });
+    return this.removePlayer(targetId);
+  }
+  
+  getRoomCode(): string {
+    return this.roomCode;
+  }
+  
+  isPublic(): boolean {
+    return this.options.isPublic;
+  }
+  
+  /**
+   * Whether a joining player or observer gave the room's password; rooms without one let anyone in
+   */
+  checkPassword(password?: string): boolean {
+    return this.options.password === null || password === this.options.password;
+  }
+  
+  hasPassword(): boolean {
+    return this.options.password !== null;
+  }
+  
+  isRanked(): boolean {
+    return this.options.ranked;
+  }
+  
+  /**
+   * Add a spectator; observers can join before or during a match and don't take a player slot
+   * Their view of the match lags behind it by the room's observer delay
+   */
+  addObserver(observerId: string, username: string, socket: WebSocket): boolean {
+    if (this.observers.size >= MAX_OBSERVERS) {
+      return false;
+    }
+    
+    this.observers.set(observerId, {
+      id: observerId,
+      username,
+      socket
+    });
+    
+    // Joining mid-match: start their game now; their first state update is the full state
+    if (this.gameStarted && this.gameState) {
+      this.sendToClient(observerId, {
+        type: "gameStart",
+        gameData: this.getGameData()
+      });
+      if (this.pause) {
+        this.sendToClient(observerId, this.getPauseMessage(this.pause));
+      }
+    }
+    
+    return true;
+  }
+  
+  removeObserver(observerId: string): boolean {
+    this.lastStateSnapshots.delete(observerId);
+    this.chatTimestamps.delete(observerId);
+    return this.observers.delete(observerId);
+  }
+  
+  hasObserver(observerId: string): boolean {
+    return this.observers.has(observerId);
+  }
+  
   /**
    * Allow a player to reconnect with their token
    */
   reconnectPlayer(playerId: string, reconnectToken: string, socket: WebSocket): boolean {
-    // Verify token matches
-    if (!this.reconnectTokens.has(playerId) || this.reconnectTokens.get(playerId) !== reconnectToken) {
+    // Verify token matches; players removed from the room have nothing to reconnect to
+    if (!this.players.has(playerId) || this.reconnectTokens.get(playerId) !== reconnectToken) {
       return false;
     }
     
     // Update socket reference
     this.playerSockets.set(playerId, socket);
     
-    // Send current game state to the reconnected player
+    if (this.reconnectDeadlines.delete(playerId)) {
+      this.broadcastToAll({
+        type: "playerReconnected",
+        playerId
+      });
+      this.sendSystemMessage(`${this.players.get(playerId)!.getUsername()} reconnected`);
+    }
+    
+    // Restart their game, which may be on a freshly loaded page; without a snapshot
+    // their next state update is everything they can currently see
     if (this.gameStarted && this.gameState) {
+      this.lastStateSnapshots.delete(playerId);
       this.sendToPlayer(playerId, {
-        type: "gameState",
-        state: this.gameState.getGameState(),
+        type: "gameStart",
+        gameData: this.getGameData()
       });
+      if (this.pause) {
+        this.sendToPlayer(playerId, this.getPauseMessage(this.pause));
+      }
     }
     
     return true;
   }
   
+  /**
+   * Keep a player whose connection dropped mid-match in the game, units and all, for
+   * RECONNECT_GRACE_PERIOD; whoever sets it up removes them if they haven't reconnected by then
+   * @returns When the grace period ends, or null if the player isn't in a match
+   */
+  disconnectPlayer(playerId: string): number | null {
+    if (!this.gameStarted || !this.players.has(playerId) || this.bots.has(playerId)) {
+      return null;
+    }
+    
+    const deadline = Date.now() + RECONNECT_GRACE_PERIOD * 1000;
+    this.playerSockets.delete(playerId);
+    this.reconnectDeadlines.set(playerId, deadline);
+    
+    this.broadcastToAll({
+      type: "playerDisconnected",
+      playerId,
+      gracePeriod: RECONNECT_GRACE_PERIOD * 1000
+    });
+    this.sendSystemMessage(
+      `${this.players.get(playerId)!.getUsername()} lost connection and has ${RECONNECT_GRACE_PERIOD} seconds to reconnect`
+    );
+    
+    return deadline;
+  }
+  
+  /**
+   * When a disconnected player's grace period ends; undefined once they reconnect or leave
+   */
+  getReconnectDeadline(playerId: string): number | undefined {
+    return this.reconnectDeadlines.get(playerId);
+  }
+  
   getPlayer(playerId: string): Player | undefined {
     return this.players.get(playerId);
   }
@@ -107,8 +441,18 @@ export class GameRoom {
     return this.players.has(playerId);
   }
   
+  /**
+   * Whether an account already holds a seat, e.g. from another browser tab
+   */
+  hasUser(userId: number): boolean {
+    return Array.from(this.players.values()).some(player => player.getUserId() === userId);
+  }
+  
+  /**
+   * Whether no humans are left; bots don't keep a room open
+   */
   isEmpty(): boolean {
-    return this.players.size === 0;
+    return this.getHostId() === null;
   }
   
   isFull(): boolean {
@@ -131,8 +475,8 @@ export class GameRoom {
   }
   
   canStartGame(): boolean {
-    // Need at least 2 players
-    if (this.players.size < 2) {
+    // Need at least 2 players, one of them human
+    if (this.players.size < 2 || this.getHostId() === null) {
       return false;
     }
     
@@ -143,20 +487,47 @@ export class GameRoom {
       }
     }
     
-    return true;
+    // A match needs two sides; players without a team are a side of their own
+    const players = Array.from(this.players.values());
+    const team = players[0].getTeam();
+    return team === null || players.some(player => player.getTeam() !== team);
   }
   
-  startGame(): boolean {
+  startGame(seed?: number): boolean {
     if (!this.canStartGame() || this.gameStarted) {
       return false;
     }
     
-    // Create new game state
-    this.gameState = new GameState(this.players);
+    // Players keep their objects between matches in the same room, so start them fresh
+    this.players.forEach(player => player.resetMatchState());
+    
+    // Bots start each match without memories of the last one
+    this.bots.forEach((bot, botId) => this.bots.set(botId, new ServerBot(botId, bot.difficulty)));
+    
+    // Create new game state; passing a previous seed replays the same map
+    this.gameState = new GameState(
+      this.players,
+      seed ?? this.settings.seed ?? undefined,
+      VICTORY_CONDITIONS[this.settings.victoryCondition],
+      STARTING_RESOURCES[this.settings.startingResources]
+    );
     this.gameStarted = true;
+    this.pause = null;
+    this.pausesUsed.clear();
+    this.tick = 0;
+    this.stepAccumulator = 0;
+    this.replayRecorder = new ReplayRecorder(
+      this.roomCode,
+      this.players,
+      this.gameState.getSeed(),
+      this.gameState.getVictoryConditions(),
+      this.gameState.getStartingResources()
+    );
+    
+    // Start with no snapshots so each player's first update is their full visible state
+    this.lastStateSnapshots.clear();
     
-    // Take initial state snapshot
-    this.lastStateSnapshot = this.gameState.getGameState();
+    this.saveMatch();
     
     return true;
   }
@@ -170,13 +541,14 @@ export class GameRoom {
       return false;
     }
     
+    if (this.pause) {
+      console.warn("Cannot process event: game paused");
+      return false;
+    }
+    
     // Import validation utilities
     import('../lib/validation')
-      .then(({ validateMapCoordinates, validateEntityOwnership, validateResourceRequirement, createErrorResponse }) => {
-        // Validate event based on type
-        let isValid = true;
-        let validationError = null;
-        
+      .then(({ validateGameEvent }) => {
         // Validate the player exists
         const player = this.getPlayer(event.playerId);
         if (!player) {
@@ -184,90 +556,14 @@ export class GameRoom {
           return false;
         }
         
-        // Player resources
-        const playerResources = player.getResources();
-        
-        // Perform type-specific validation
-        switch (event.type) {
-          case 'unitMove':
-            // Validate coordinates
-            if (!validateMapCoordinates(event.targetX, event.targetY)) {
-              isValid = false;
-              validationError = createErrorResponse(
-                'INVALID_COORDINATES', 
-                `Target coordinates (${event.targetX}, ${event.targetY}) are out of map bounds`
-              );
-            }
-            
-            // Validate unit ownership
-            if (isValid && this.gameState && event.unitIds && event.unitIds.length > 0) {
-              const units = this.gameState.getUnits();
-              if (!validateEntityOwnership(event.unitIds, units, event.playerId)) {
-                isValid = false;
-                validationError = createErrorResponse(
-                  'UNAUTHORIZED_UNITS',
-                  'Player does not own all of the specified units'
-                );
-              }
-            }
-            break;
-            
-          case 'unitCreate':
-            // Validate coordinates
-            if (!validateMapCoordinates(event.x, event.y)) {
-              isValid = false;
-              validationError = createErrorResponse(
-                'INVALID_COORDINATES', 
-                `Spawn coordinates (${event.x}, ${event.y}) are out of map bounds`
-              );
-            }
-            
-            // Validate resources for unit creation (would need unit cost data)
-            if (isValid && event.unitType) {
-              const unitCosts = this.gameState?.getUnitCosts();
-              if (unitCosts && unitCosts[event.unitType]) {
-                const cost = unitCosts[event.unitType];
-                if (!validateResourceRequirement(playerResources, cost.food, cost.ore)) {
-                  isValid = false;
-                  validationError = createErrorResponse(
-                    'INSUFFICIENT_RESOURCES',
-                    `Not enough resources to create ${event.unitType} unit`
-                  );
-                }
-              }
-            }
-            break;
-            
-          case 'buildingCreate':
-            // Similar validation for building creation...
-            if (!validateMapCoordinates(event.x, event.y)) {
-              isValid = false;
-              validationError = createErrorResponse(
-                'INVALID_COORDINATES', 
-                `Building coordinates (${event.x}, ${event.y}) are out of map bounds`
-              );
-            }
-            break;
-            
-          case 'attack':
-            // Validate unit ownership for attackers
-            if (this.gameState && event.attackerIds && event.attackerIds.length > 0) {
-              const units = this.gameState.getUnits();
-              if (!validateEntityOwnership(event.attackerIds, units, event.playerId)) {
-                isValid = false;
-                validationError = createErrorResponse(
-                  'UNAUTHORIZED_UNITS',
-                  'Player does not own all of the attacking units'
-                );
-              }
-            }
-            break;
-            
-          default:
-            // No specific validation for other event types
-            break;
+        // The match may have ended while the validation module loaded
+        if (!this.gameState) {
+          return false;
         }
         
+        const validationError = validateGameEvent(event, this.gameState);
+        const isValid = !validationError;
+        
         // If validation failed, notify the player
         if (!isValid) {
           const playerSocket = this.getPlayerSocket(event.playerId);
@@ -286,34 +582,23 @@ export class GameRoom {
           timestamp: Date.now()
         };
         
-        // Add to pending events queue
+        // Queue for the next tick; each event is applied exactly once
         this.pendingEvents.push(timestampedEvent);
         
-        // Process the event immediately for responsive feedback
-        const updatedState = this.gameState.processEvent(event);
-        
-        // Broadcast the event to all players as a responsive update
-        // (State synchronization will happen during tick updates)
-        if (updatedState) {
-          this.broadcastToAll({
-            type: "gameEvent",
-            event: timestampedEvent
-          });
-        }
-        
         return true;
       })
       .catch(error => {
         console.error('Error during event validation:', error);
         return false;
       });
-      
+    
     // Return true for now since the validation happens asynchronously
     return true;
   }
   
   /**
    * Update game state as part of the server tick
+   * The simulation advances in fixed steps so a replay of the same commands re-simulates exactly
    * @param deltaTime Time since last update in milliseconds
    */
   updateGameState(deltaTime: number): void {
@@ -321,44 +606,416 @@ export class GameRoom {
       return;
     }
     
+    const gameState = this.gameState;
+    
+    // A restored match waits for its players to reconnect; those who don't forfeit as usual
+    if (this.awaitingPlayers) {
+      if (Array.from(this.players.keys()).some(playerId => this.reconnectDeadlines.has(playerId))) {
+        return;
+      }
+      this.awaitingPlayers = false;
+      this.sendSystemMessage("The match continues");
+    }
+    
+    // A paused match still gets its network ticks, so clients see the pause, but nothing is simulated
+    if (this.pause) {
+      if (Date.now() < this.pause.resumesAt) {
+        return;
+      }
+      this.resumeGame(null);
+    }
+    
+    // The game speed scales simulated time, not the tick rate, so faster matches send no more updates
+    this.stepAccumulator += deltaTime * this.settings.gameSpeed;
+    
+    // Stop stepping once the match is decided; resolveMatchOutcome ends it after this tick
+    while (this.stepAccumulator >= SIMULATION_STEP_MS && !gameState.getResult()) {
+      this.stepAccumulator -= SIMULATION_STEP_MS;
+      this.runSimulationStep(gameState);
+    }
+    
+    // Decided matches are about to end, which removes their save instead
+    if (!gameState.getResult() && Date.now() - this.lastSavedAt >= MATCH_SAVE_INTERVAL * 1000) {
+      this.saveMatch();
+    }
+  }
+  
+  /**
+   * Stop the simulation until a player resumes it or PAUSE_TIMEOUT passes
+   * @returns False outside a match, while already paused, and for bots, defeated players
+   *   and players who have used all their pauses
+   */
+  pauseGame(playerId: string): boolean {
+    if (!this.gameStarted || !this.gameState || this.pause || !this.canControlPause(playerId)) {
+      return false;
+    }
+    
+    if (this.getPausesLeft(playerId) === 0) {
+      return false;
+    }
+    
+    this.pausesUsed.set(playerId, (this.pausesUsed.get(playerId) || 0) + 1);
+    this.pause = { playerId, resumesAt: Date.now() + PAUSE_TIMEOUT * 1000 };
+    
+    this.broadcastToAll(this.getPauseMessage(this.pause));
+    const pausesLeft = this.getPausesLeft(playerId);
+    this.sendSystemMessage(
+      `${this.players.get(playerId)!.getUsername()} paused the game (${pausesLeft} pause${pausesLeft === 1 ? "" : "s"} left)`
+    );
+    
+    return true;
+  }
+  
+  /**
+   * Any player still in the match may resume, not only the one who paused
+   * @param playerId Who resumed, or null when the pause timed out
+   */
+  resumeGame(playerId: string | null): boolean {
+    if (!this.pause || (playerId !== null && !this.canControlPause(playerId))) {
+      return false;
+    }
+    
+    this.pause = null;
+    
+    this.broadcastToAll({
+      type: "gameResumed",
+      playerId
+    });
+    this.sendSystemMessage(playerId
+      ? `${this.players.get(playerId)!.getUsername()} resumed the game`
+      : "The game resumed automatically");
+    
+    return true;
+  }
+  
+  isPaused(): boolean {
+    return this.pause !== null;
+  }
+  
+  getPausesLeft(playerId: string): number {
+    return Math.max(0, PAUSES_PER_PLAYER - (this.pausesUsed.get(playerId) || 0));
+  }
+  
+  private canControlPause(playerId: string): boolean {
+    return this.players.has(playerId) && !this.bots.has(playerId) && !this.gameState?.isDefeated(playerId);
+  }
+  
+  private getPauseMessage(pause: PauseState): any {
+    return {
+      type: "gamePaused",
+      playerId: pause.playerId,
+      // Time left rather than a timestamp, so clients don't depend on the server's clock
+      resumesIn: Math.max(0, pause.resumesAt - Date.now())
+    };
+  }
+  
+  /**
+   * Apply queued events, then advance the simulation by one fixed step
+   */
+  private runSimulationStep(gameState: GameState): void {
     // Process any pending events in the queue
     if (this.pendingEvents.length > 0) {
-      // Process accumulated events
-      this.pendingEvents.forEach(event => {
-        this.gameState?.processEvent(event);
-      });
-      
-      // Clear the queue
+      const events = this.pendingEvents;
       this.pendingEvents = [];
+      
+      events.forEach(event => {
+        // Echo accepted events to the issuer's side as a responsive update; enemies only see
+        // their effects through the fog-filtered stateUpdate
+        if (gameState.processEvent(event)) {
+          this.replayRecorder?.recordCommand(this.tick, event);
+          this.sendToAllies(gameState, event.playerId, {
+            type: "gameEvent",
+            event
+          });
+        }
+      });
     }
     
     // Have the game state update itself based on the elapsed time
     // This handles continuous actions like resource gathering, unit movement, etc.
-    this.gameState.update(deltaTime);
+    gameState.update(SIMULATION_STEP_MS);
+    this.tick++;
+    
+    // Bots order through the same validated path as players; their events apply on a later step
+    this.bots.forEach(bot => {
+      bot.update(SIMULATION_STEP_MS, gameState).forEach(event => this.processGameEvent(event));
+    });
   }
   
   /**
-   * Get state changes since last update for delta compression
+   * Announce eliminations and, once the match is decided, end it
+   * Called after the tick's state updates so clients see the final blow before gameOver
    */
-  getStateUpdate(): any {
-    if (!this.gameState) return null;
+  resolveMatchOutcome(): void {
+    if (!this.gameStarted || !this.gameState) return;
     
-    // Get current full state
-    const currentState = this.gameState.getGameState();
+    this.gameState.drainDefeats().forEach(playerId => {
+      this.broadcastToAll({
+        type: "playerDefeated",
+        playerId
+      });
+      // The match's roster still has players who forfeited by leaving the room
+      this.sendSystemMessage(`${this.gameState!.getPlayer(playerId)?.getUsername() || playerId} has been defeated`);
+    });
     
-    // Return full state the first time
-    if (!this.lastStateSnapshot) {
-      this.lastStateSnapshot = currentState;
-      return currentState;
+    const result = this.gameState.getResult();
+    if (result) {
+      this.broadcastToAll({
+        type: "gameOver",
+        result
+      });
+      this.endGame(result);
     }
+  }
+  
+  /**
+   * Return the room to a post-game lobby where players can ready up for a rematch
+   */
+  private endGame(result: GameResult): void {
+    this.saveReplay(result);
+    this.recordMatch(result);
+    this.discardSavedMatch();
     
-    // Compare with last state snapshot to create delta update
-    const delta = this.computeStateDelta(this.lastStateSnapshot, currentState);
+    this.gameStarted = false;
+    this.gameState = null;
+    this.pause = null;
+    this.lastResult = result;
+    this.pendingEvents = [];
+    this.lastStateSnapshots.clear();
     
-    // Save current state as the new reference point
-    this.lastStateSnapshot = currentState;
+    this.players.forEach(player => player.setReady(false));
     
-    return delta;
+    this.broadcastToAll({
+      type: "roomUpdate",
+      room: this.getRoomData()
+    });
+  }
+  
+  /**
+   * Save the match in progress, replacing the room's previous save; failures are only logged,
+   * and the next save tries again
+   */
+  private saveMatch(): void {
+    this.lastSavedAt = Date.now();
+    const saved = this.toSaved();
+    
+    this.storageWrites = this.storageWrites
+      .then(() => storage.saveRoom(saved))
+      .catch(error => {
+        console.error(`Error saving match for room ${this.roomCode}:`, error);
+      });
+  }
+  
+  /**
+   * Remove the room's saved match once there is nothing to restore: the match ended or the room closed
+   */
+  discardSavedMatch(): void {
+    this.storageWrites = this.storageWrites
+      .then(() => storage.deleteSavedRoom(this.roomCode))
+      .catch(error => {
+        console.error(`Error removing saved match for room ${this.roomCode}:`, error);
+      });
+  }
+  
+  /**
+   * The room and its match in progress, for fromSaved to restore
+   */
+  toSaved(): SavedRoom {
+    if (!this.gameState) {
+      throw new Error(`Room ${this.roomCode} has no match to save`);
+    }
+    
+    return {
+      roomCode: this.roomCode,
+      options: { ...this.options },
+      settings: { ...this.settings },
+      hostId: this.hostId,
+      playerIds: Array.from(this.players.keys()),
+      bots: Object.fromEntries(Array.from(this.bots.entries()).map(([botId, bot]) => [botId, bot.difficulty])),
+      nextBotNumber: this.nextBotNumber,
+      reconnectTokens: Object.fromEntries(this.reconnectTokens),
+      pausesUsed: Object.fromEntries(this.pausesUsed),
+      tick: this.tick,
+      stepAccumulator: this.stepAccumulator,
+      gameState: this.gameState.serialize(),
+      replay: this.replayRecorder?.toSaved() ?? null,
+      savedAt: Date.now()
+    };
+  }
+  
+  /**
+   * Restore a room saved by toSaved, e.g. after a server restart
+   * Nobody is connected yet, so every human player gets the usual grace period to reconnect
+   * and the match holds until they are all back or have forfeited
+   * Bots start again without memories, like at the start of a match
+   */
+  static fromSaved(saved: SavedRoom): GameRoom {
+    // Saves from before ranked rooms existed are unranked
+    const room = new GameRoom(saved.roomCode, { ...saved.options, ranked: saved.options.ranked ?? false });
+    const gameState = GameState.deserialize(saved.gameState);
+    
+    room.settings = { ...DEFAULT_MATCH_SETTINGS, ...saved.settings };
+    room.hostId = saved.hostId;
+    // Seats and the game state's roster share Player objects, as they do in a match started here
+    saved.playerIds.forEach(playerId => room.players.set(playerId, gameState.getPlayer(playerId)!));
+    Object.entries(saved.bots).forEach(([botId, difficulty]) => room.bots.set(botId, new ServerBot(botId, difficulty)));
+    room.nextBotNumber = saved.nextBotNumber;
+    room.reconnectTokens = new Map(Object.entries(saved.reconnectTokens));
+    room.pausesUsed = new Map(Object.entries(saved.pausesUsed));
+    room.gameState = gameState;
+    room.gameStarted = true;
+    room.tick = saved.tick;
+    room.stepAccumulator = saved.stepAccumulator;
+    room.replayRecorder = saved.replay ? ReplayRecorder.fromSaved(saved.replay) : null;
+    room.lastSavedAt = Date.now();
+    room.awaitingPlayers = true;
+    
+    const deadline = Date.now() + RECONNECT_GRACE_PERIOD * 1000;
+    room.players.forEach((player, playerId) => {
+      if (room.bots.has(playerId)) return;
+      room.reconnectDeadlines.set(playerId, deadline);
+      room.latencyData.set(playerId, { ping: 0, lastPing: Date.now() });
+    });
+    
+    return room;
+  }
+  
+  /**
+   * Write the finished match's replay; failures are logged and never affect the room
+   */
+  private saveReplay(result: GameResult): void {
+    if (!this.replayRecorder) return;
+    
+    const replay = this.replayRecorder.finish(this.tick, result.winnerIds);
+    this.replayRecorder = null;
+    
+    saveReplay(replay)
+      .then(replayId => {
+        console.log(`Saved replay ${replayId} for room ${this.roomCode}`);
+      })
+      .catch(error => {
+        console.error(`Error saving replay for room ${this.roomCode}:`, error);
+      });
+  }
+  
+  /**
+   * Add the finished match to the match history; like replays, failures are only logged
+   */
+  private recordMatch(result: GameResult): void {
+    const gameState = this.gameState!;
+    
+    // The match's roster, which still has players who forfeited by leaving the room
+    const participants: InsertMatchParticipant[] = Object.entries(result.stats).map(([playerId, stats]) => {
+      const player = gameState.getPlayer(playerId)!;
+      const outcome: MatchOutcome = result.winnerIds.length === 0
+        ? "draw"
+        : result.winnerIds.includes(playerId) ? "win" : "loss";
+      
+      return {
+        userId: player.getUserId(),
+        username: player.getUsername(),
+        isBot: this.bots.has(playerId),
+        // Every player has a faction before the match can start
+        faction: player.getFaction()!,
+        team: player.getTeam(),
+        result: outcome,
+        unitsProduced: stats.unitsProduced,
+        unitsLost: stats.unitsLost,
+        unitsKilled: stats.unitsKilled,
+        buildingsDestroyed: stats.buildingsDestroyed,
+        buildingsLost: stats.buildingsLost,
+        foodGathered: Math.round(stats.resourcesGathered.food),
+        oreGathered: Math.round(stats.resourcesGathered.ore),
+        techsResearched: stats.techsResearched
+      };
+    });
+    
+    const match = {
+      roomCode: this.roomCode,
+      seed: gameState.getSeed(),
+      duration: Math.round(result.duration),
+      winningTeam: result.winningTeam
+    };
+    
+    // Rate ranked matches first, so the history has each player's rating change
+    const rating = this.options.ranked ? rateMatch(participants) : Promise.resolve();
+    rating
+      .catch(error => {
+        console.error(`Error rating match for room ${this.roomCode}:`, error);
+      })
+      .then(() => storage.createMatch(match, participants))
+      .then(match => {
+        console.log(`Recorded match ${match.id} for room ${this.roomCode}`);
+      })
+      .catch(error => {
+        console.error(`Error recording match for room ${this.roomCode}:`, error);
+      });
+  }
+  
+  /**
+   * Get each player's state changes since their last update, filtered by fog of war
+   * Observers get the unfiltered state of the whole match
+   * @returns Player or observer ID -> delta (the full state on their first update)
+   */
+  getStateUpdates(): Map<string, any> {
+    const updates = new Map<string, any>();
+    if (!this.gameState) return updates;
+    
+    // Kills since the last update; each player hears about the ones they could see
+    const kills = this.gameState.drainKills();
+    
+    this.players.forEach((player, playerId) => {
+      // Bots read the game state directly; disconnected players get everything when they reconnect
+      if (this.bots.has(playerId) || this.reconnectDeadlines.has(playerId)) return;
+      
+      const currentState = this.gameState!.getVisibleState(playerId);
+      const lastSnapshot = this.lastStateSnapshots.get(playerId);
+      this.lastStateSnapshots.set(playerId, currentState);
+      
+      // Return full state the first time
+      if (!lastSnapshot) {
+        updates.set(playerId, currentState);
+        return;
+      }
+      
+      // Compare with last state snapshot to create delta update
+      const delta = this.computeStateDelta(lastSnapshot, currentState);
+      
+      const visibleKills = kills.filter(kill => {
+        const seen = kill.entityType === "unit"
+          ? lastSnapshot.units?.[kill.entityId]
+          : lastSnapshot.buildings?.[kill.entityId];
+        return seen && !seen.explored;
+      });
+      if (visibleKills.length > 0) {
+        delta.kills = visibleKills;
+      }
+      
+      updates.set(playerId, delta);
+    });
+    
+    if (this.observers.size > 0) {
+      const { map, ...fullState } = this.gameState.getGameState();
+      
+      this.observers.forEach((observer, observerId) => {
+        const lastSnapshot = this.lastStateSnapshots.get(observerId);
+        this.lastStateSnapshots.set(observerId, fullState);
+        
+        if (!lastSnapshot) {
+          updates.set(observerId, fullState);
+          return;
+        }
+        
+        const delta = this.computeStateDelta(lastSnapshot, fullState);
+        if (kills.length > 0) {
+          delta.kills = kills;
+        }
+        
+        updates.set(observerId, delta);
+      });
+    }
+    
+    return updates;
   }
   
   /**
@@ -415,7 +1072,7 @@ export class GameRoom {
       }
     }
     
-    // Compare resources
+    // Compare resources and research
     if (newState.players) {
       delta.players = {};
       
@@ -423,6 +1080,9 @@ export class GameRoom {
       Object.entries(newState.players).forEach(([playerId, playerData]: [string, any]) => {
         const oldPlayerData = oldState.players?.[playerId] as any;
         
+        // Only a player's own economy is sent to them
+        if (!playerData.resources) return;
+        
         if (!oldPlayerData || 
             oldPlayerData.resources.food !== playerData.resources.food || 
             oldPlayerData.resources.ore !== playerData.resources.ore) {
@@ -430,6 +1090,14 @@ export class GameRoom {
             resources: playerData.resources
           };
         }
+        
+        if (!oldPlayerData ||
+            oldPlayerData.researchedTechs.length !== playerData.researchedTechs.length) {
+          delta.players[playerId] = {
+            ...delta.players[playerId],
+            researchedTechs: playerData.researchedTechs
+          };
+        }
       });
     }
     
@@ -464,11 +1132,21 @@ export class GameRoom {
       return true;
     }
     
+    // Enemy buildings switching between seen and remembered
+    if (oldObj.explored !== newObj.explored) {
+      return true;
+    }
+    
     // For production progress
     if (oldObj.productionProgress !== newObj.productionProgress) {
       return true;
     }
     
+    // For units queued or cancelled at a building
+    if (oldObj.productionQueue?.length !== newObj.productionQueue?.length) {
+      return true;
+    }
+    
     return false;
   }
   
@@ -483,7 +1161,60 @@ export class GameRoom {
   }
   
   /**
-   * Broadcast data to all connected players
+   * Send data to a player or an observer
+   */
+  sendToClient(clientId: string, data: any): void {
+    const observer = this.observers.get(clientId);
+    if (observer) {
+      this.sendToObserver(observer, data);
+    } else {
+      this.sendToPlayer(clientId, data);
+    }
+  }
+  
+  /**
+   * Send data to an observer, holding match messages back by their delay
+   * Lobby updates and lobby chat are never delayed
+   */
+  private sendToObserver(observer: Observer, data: any): void {
+    const message = JSON.stringify(data);
+    const send = () => {
+      if (observer.socket.readyState === WebSocket.OPEN) {
+        observer.socket.send(message);
+      }
+    };
+    
+    const isLobbyMessage = data.type === "roomUpdate" || (data.type === "chat" && !this.gameStarted);
+    if (!isLobbyMessage) {
+      setTimeout(send, this.getObserverDelay());
+    } else {
+      send();
+    }
+  }
+  
+  /**
+   * Milliseconds match messages are held back from observers: the host's setting, but never less
+   * than MIN_OBSERVER_DELAY so an observer can't scout for a player
+   */
+  private getObserverDelay(): number {
+    return Math.max(this.settings.observerDelay, MIN_OBSERVER_DELAY) * 1000;
+  }
+  
+  /**
+   * Send data to a player, their allies and every observer
+   */
+  private sendToAllies(gameState: GameState, playerId: string, data: any): void {
+    for (const otherPlayerId of this.playerSockets.keys()) {
+      if (gameState.areAllies(playerId, otherPlayerId)) {
+        this.sendToPlayer(otherPlayerId, data);
+      }
+    }
+    
+    this.observers.forEach(observer => this.sendToObserver(observer, data));
+  }
+  
+  /**
+   * Broadcast data to all connected players and observers
    * Optionally exclude certain players
    */
   broadcastToAll(data: any, excludePlayerIds: string[] = []): void {
@@ -496,6 +1227,82 @@ export class GameRoom {
         socket.send(message);
       }
     }
+    
+    this.observers.forEach(observer => this.sendToObserver(observer, data));
+  }
+  
+  /**
+   * Deliver a chat message to everyone its scope reaches
+   * Lobby chat is for before the match; during it players talk to everyone or their team, and
+   * observers only to each other so they can't pass on what they see
+   * Refusals go back to the sender as a system message
+   * @returns Whether the message was sent
+   */
+  sendChat(senderId: string, scope: ChatScope, text: string): boolean {
+    const player = this.players.get(senderId);
+    const observer = this.observers.get(senderId);
+    if (!player && !observer) return false;
+    
+    const refuse = (reason: string) => {
+      this.sendToClient(senderId, { type: "chat", message: this.createSystemMessage(reason) });
+      return false;
+    };
+    
+    if (scope === "lobby" ? this.gameStarted : !this.gameStarted) {
+      return refuse(scope === "lobby" ? "Lobby chat is closed during the match" : "The match has not started");
+    }
+    if (scope === "team" && !player) {
+      return refuse("Observers have no team");
+    }
+    
+    // Sliding window rate limit
+    const now = Date.now();
+    const recent = (this.chatTimestamps.get(senderId) || []).filter(time => now - time < CHAT_RATE_WINDOW);
+    if (recent.length >= CHAT_RATE_LIMIT) {
+      this.chatTimestamps.set(senderId, recent);
+      return refuse("You are sending messages too quickly");
+    }
+    recent.push(now);
+    this.chatTimestamps.set(senderId, recent);
+    
+    const data = {
+      type: "chat",
+      message: {
+        scope,
+        senderId,
+        senderName: player ? player.getUsername() : observer!.username,
+        text: text.trim(),
+        timestamp: now
+      } as ChatMessage
+    };
+    
+    if (scope === "lobby") {
+      this.broadcastToAll(data);
+    } else if (observer) {
+      this.observers.forEach(other => this.sendToObserver(other, data));
+    } else if (scope === "all") {
+      this.broadcastToAll(data);
+    } else {
+      // Team chat reaches the sender's allies; a player without a team only hears themselves
+      this.players.forEach((_, playerId) => {
+        if (this.gameState!.areAllies(senderId, playerId)) {
+          this.sendToPlayer(playerId, data);
+        }
+      });
+    }
+    
+    return true;
+  }
+  
+  /**
+   * Announce something to everyone in the room, such as a join, leave or defeat
+   */
+  sendSystemMessage(text: string): void {
+    this.broadcastToAll({ type: "chat", message: this.createSystemMessage(text) });
+  }
+  
+  private createSystemMessage(text: string): ChatMessage {
+    return { scope: "system", senderId: null, senderName: null, text, timestamp: Date.now() };
   }
   
   /**
@@ -570,8 +1377,38 @@ export class GameRoom {
         id: player.id,
         username: player.getUsername(),
         faction: player.getFaction(),
-        ready: player.isReady()
+        team: player.getTeam(),
+        ready: player.isReady(),
+        isBot: this.bots.has(player.id)
+      })),
+      hostId: this.hostId,
+      isPublic: this.options.isPublic,
+      hasPassword: this.hasPassword(),
+      ranked: this.options.ranked,
+      settings: this.settings,
+      observers: Array.from(this.observers.values()).map(observer => ({
+        id: observer.id,
+        username: observer.username
       })),
+      gameStarted: this.gameStarted,
+      lastResult: this.lastResult
+    };
+  }
+  
+  /**
+   * Summary of the room for the public room browser
+   */
+  getListing(): RoomListing {
+    return {
+      roomCode: this.roomCode,
+      hostName: this.hostId ? this.players.get(this.hostId)!.getUsername() : null,
+      playerCount: this.players.size,
+      maxPlayers: MAX_PLAYERS,
+      // Factions already picked; players still choosing are left out
+      factions: Array.from(this.players.values())
+        .map(player => player.getFaction())
+        .filter((faction): faction is FactionType => faction !== null),
+      hasPassword: this.hasPassword(),
       gameStarted: this.gameStarted
     };
   }
@@ -581,15 +1418,20 @@ export class GameRoom {
       return null;
     }
     
+    // Players who left keep their slot, so late joiners and reconnects build the same map and positions
     return {
-      players: Array.from(this.players.values()).map(player => ({
+      players: this.gameState.getPlayers().map(player => ({
         id: player.id,
         username: player.getUsername(),
         faction: player.getFaction(),
-        ready: player.isReady()
+        team: player.getTeam(),
+        ready: player.isReady(),
+        isBot: this.bots.has(player.id)
       })),
       roomCode: this.roomCode,
-      map: "standard"
+      map: "standard",
+      seed: this.gameState.getSeed(),
+      settings: this.settings
     };
   }
 }
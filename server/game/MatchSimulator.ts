@@ -0,0 +1,143 @@
+import { Player } from "../../shared/player";
+import { GameState, PlayerStats, StartingResources, VictoryConditions, DEFAULT_VICTORY_CONDITIONS } from "../../shared/gameState";
+import { ServerBot } from "./ServerBot";
+import { GameEvent } from "../../shared/types";
+import { SIMULATION_STEP_MS } from "../../shared/replay";
+import { validateGameEvent } from "../lib/validation";
+import { assignStartingPositions } from "../../shared/mapGeneration";
+import { AIDifficulty, FactionType } from "../../client/src/game/types";
+
+/**
+ * Something that plays one side of a simulated match by issuing game events
+ * ServerBot is one; scripted strategies implement the same method
+ */
+export interface MatchController {
+  update(deltaTime: number, gameState: GameState): GameEvent[];
+}
+
+/**
+ * One player slot in a simulated match
+ * "idle" players never act, as a baseline to measure the other slots against
+ */
+export interface SimulatedPlayer {
+  faction: FactionType;
+  controller: AIDifficulty | "idle";
+  team?: number | null;
+}
+
+export interface SimulationOptions {
+  // Matches still undecided after this much game time (ms) are stopped as timeouts
+  maxDuration: number;
+  // Game time (ms) between resource curve samples
+  sampleInterval: number;
+  victoryConditions?: VictoryConditions;
+  startingResources?: StartingResources;
+  // Shifts which starting position each slot takes, so a series of matches can give every slot
+  // every position; the players join the match starting from this slot
+  rotation?: number;
+}
+
+/**
+ * Resources a player has gathered since the start of the match, at one moment
+ */
+export interface ResourceSample {
+  time: number;
+  food: number;
+  ore: number;
+}
+
+/**
+ * Outcome of one simulated match; players are listed in slot order
+ */
+export interface SimulatedMatch {
+  seed: number;
+  // Indices of the winning slots, with every member of a winning team; empty on a draw or timeout
+  winnerSlots: number[];
+  // Index into STARTING_POSITIONS for each slot
+  positions: number[];
+  timedOut: boolean;
+  duration: number;
+  stats: PlayerStats[];
+  resourceCurves: ResourceSample[][];
+}
+
+const idleController: MatchController = {
+  update: () => []
+};
+
+/**
+ * Play one match between the given players as fast as possible, with the same
+ * fixed-step simulation and event handling a GameRoom uses
+ */
+export function simulateMatch(players: SimulatedPlayer[], seed: number, options: SimulationOptions): SimulatedMatch {
+  const slotPlayers: Player[] = [];
+  const controllers: MatchController[] = [];
+  
+  players.forEach((slot, index) => {
+    const player = new Player(`slot_${index}`, `${slot.faction} (${slot.controller})`);
+    player.setFaction(slot.faction);
+    player.setTeam(slot.team ?? null);
+    slotPlayers.push(player);
+    controllers.push(slot.controller === "idle" ? idleController : new ServerBot(player.id, slot.controller));
+  });
+  
+  // Starting positions follow join order, as they do in a room
+  const rotation = (options.rotation ?? 0) % players.length;
+  const joinOrder = slotPlayers.map((_, index) => (index + rotation) % players.length);
+  const roster = new Map(joinOrder.map(slot => [slotPlayers[slot].id, slotPlayers[slot]]));
+  const joinedPositions = assignStartingPositions(joinOrder.map(slot => players[slot].team ?? null));
+  const positions = slotPlayers.map((_, slot) => joinedPositions[joinOrder.indexOf(slot)]);
+  
+  const playerIds = slotPlayers.map(player => player.id);
+  const gameState = new GameState(roster, seed, options.victoryConditions || DEFAULT_VICTORY_CONDITIONS, options.startingResources);
+  const resourceCurves: ResourceSample[][] = playerIds.map(() => []);
+  
+  let pendingEvents: GameEvent[] = [];
+  let elapsed = 0;
+  
+  const sample = () => {
+    const stats = gameState.getPlayerStats();
+    playerIds.forEach((playerId, index) => {
+      resourceCurves[index].push({ time: elapsed, ...stats[playerId].resourcesGathered });
+    });
+  };
+  sample();
+  
+  while (!gameState.getResult() && elapsed < options.maxDuration) {
+    // Orders from the last step apply before this one, as queued events do in a room
+    pendingEvents.forEach(event => gameState.processEvent(event));
+    pendingEvents = [];
+    
+    gameState.update(SIMULATION_STEP_MS);
+    elapsed += SIMULATION_STEP_MS;
+    
+    // Orders are checked when given, as a room checks them before queuing
+    controllers.forEach(controller => {
+      controller.update(SIMULATION_STEP_MS, gameState).forEach(event => {
+        const error = validateGameEvent(event, gameState);
+        if (error) {
+          console.warn(`Rejected ${event.type} from ${event.playerId}: ${error.error.message}`);
+          return;
+        }
+        pendingEvents.push(event);
+      });
+    });
+    
+    if (elapsed % options.sampleInterval === 0) {
+      sample();
+    }
+  }
+  
+  const result = gameState.getResult();
+  const stats = gameState.getPlayerStats();
+  
+  return {
+    seed,
+    winnerSlots: result ? result.winnerIds.map(winnerId => playerIds.indexOf(winnerId)) : [],
+    positions,
+    timedOut: !result,
+    duration: result ? result.duration : elapsed,
+    stats: playerIds.map(playerId => stats[playerId]),
+    resourceCurves
+  };
+}
@@ -0,0 +1,86 @@
+import { WebSocket } from "ws";
+import { QUICK_MATCH_SIZE, QUICK_MATCH_RATING_RANGE, QUICK_MATCH_RANGE_GROWTH } from "../../client/src/game/config";
+
+/**
+ * A client waiting for a quick match
+ */
+export interface QueuedPlayer {
+  clientId: string;
+  userId: number;
+  username: string;
+  // Overall rating, to match players of similar skill
+  rating: number;
+  // When the player started waiting (ms)
+  joinedAt: number;
+  socket: WebSocket;
+}
+
+/**
+ * Quick-match queue that groups waiting players of similar rating into matches
+ * The longest-waiting players are matched first, and the rating difference a player
+ * accepts grows the longer they wait, so nobody waits forever for an exact match
+ */
+export class MatchmakingQueue {
+  private waiting: QueuedPlayer[];
+  private matchSize: number;
+  
+  constructor(matchSize: number = QUICK_MATCH_SIZE) {
+    this.waiting = [];
+    this.matchSize = matchSize;
+  }
+  
+  /**
+   * @returns False if the client, or another connection of the same account, is already waiting
+   */
+  add(player: QueuedPlayer): boolean {
+    if (this.has(player.clientId) || this.waiting.some(waiting => waiting.userId === player.userId)) {
+      return false;
+    }
+    
+    this.waiting.push(player);
+    return true;
+  }
+  
+  remove(clientId: string): boolean {
+    const index = this.waiting.findIndex(player => player.clientId === clientId);
+    if (index < 0) {
+      return false;
+    }
+    
+    this.waiting.splice(index, 1);
+    return true;
+  }
+  
+  has(clientId: string): boolean {
+    return this.waiting.some(player => player.clientId === clientId);
+  }
+  
+  /**
+   * Take the longest-waiting player and the closest-rated players within range of them,
+   * once there are enough for a match
+   * Players whose connection has closed are dropped rather than matched
+   */
+  takeMatch(now: number = Date.now()): QueuedPlayer[] | null {
+    this.waiting = this.waiting.filter(player => player.socket.readyState === WebSocket.OPEN);
+    
+    for (const anchor of this.waiting) {
+      // Both players must accept the difference
+      const opponents = this.waiting
+        .filter(player => player !== anchor &&
+          Math.abs(player.rating - anchor.rating) <= Math.min(this.getRatingRange(anchor, now), this.getRatingRange(player, now)))
+        .sort((a, b) => Math.abs(a.rating - anchor.rating) - Math.abs(b.rating - anchor.rating));
+      
+      if (opponents.length >= this.matchSize - 1) {
+        const match = [anchor, ...opponents.slice(0, this.matchSize - 1)];
+        this.waiting = this.waiting.filter(player => !match.includes(player));
+        return match;
+      }
+    }
+    
+    return null;
+  }
+  
+  private getRatingRange(player: QueuedPlayer, now: number): number {
+    return QUICK_MATCH_RATING_RANGE + QUICK_MATCH_RANGE_GROWTH * Math.floor((now - player.joinedAt) / 10000);
+  }
+}
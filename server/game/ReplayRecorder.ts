@@ -0,0 +1,101 @@
+import { Player } from "../../shared/player";
+import { StartingResources, VictoryConditions } from "../../shared/gameState";
+import { GameEvent } from "../../shared/types";
+import { ReplayCommand, ReplayData, REPLAY_VERSION, SIMULATION_STEP_MS } from "../../shared/replay";
+
+/**
+ * A recording in progress, saved along with its match
+ */
+export type SavedRecording = Pick<
+  ReplayData,
+  "roomCode" | "recordedAt" | "seed" | "victoryConditions" | "startingResources" | "players" | "commands"
+>;
+
+/**
+ * Collects everything needed to re-simulate a match: its setup and every command the
+ * simulation accepted, tagged with the step it was applied at
+ */
+export class ReplayRecorder {
+  private roomCode: string;
+  private startedAt: number;
+  private seed: number;
+  private victoryConditions: VictoryConditions;
+  private startingResources: StartingResources;
+  private players: ReplayData["players"];
+  private commands: ReplayCommand[];
+  
+  constructor(
+    roomCode: string,
+    players: Map<string, Player>,
+    seed: number,
+    victoryConditions: VictoryConditions,
+    startingResources: StartingResources
+  ) {
+    this.roomCode = roomCode;
+    this.startedAt = Date.now();
+    this.seed = seed;
+    this.victoryConditions = victoryConditions;
+    this.startingResources = startingResources;
+    this.commands = [];
+    
+    // Join order and teams decide starting positions, so keep the room's order
+    this.players = Array.from(players.values()).map(player => ({
+      id: player.id,
+      username: player.getUsername(),
+      faction: player.getFaction()!,
+      team: player.getTeam()
+    }));
+  }
+  
+  recordCommand(tick: number, event: GameEvent): void {
+    this.commands.push({ tick, event });
+  }
+  
+  toSaved(): SavedRecording {
+    return structuredClone({
+      roomCode: this.roomCode,
+      recordedAt: this.startedAt,
+      seed: this.seed,
+      victoryConditions: this.victoryConditions,
+      startingResources: this.startingResources,
+      players: this.players,
+      commands: this.commands
+    });
+  }
+  
+  /**
+   * Continue a recording saved by toSaved, e.g. for a match restored after a server restart
+   */
+  static fromSaved(saved: SavedRecording): ReplayRecorder {
+    const data = structuredClone(saved);
+    const recorder: ReplayRecorder = Object.create(ReplayRecorder.prototype);
+    recorder.roomCode = data.roomCode;
+    recorder.startedAt = data.recordedAt;
+    recorder.seed = data.seed;
+    recorder.victoryConditions = data.victoryConditions;
+    recorder.startingResources = data.startingResources;
+    recorder.players = data.players;
+    recorder.commands = data.commands;
+    return recorder;
+  }
+  
+  /**
+   * Build the replay once the match has ended
+   * @param totalTicks Steps simulated over the whole match
+   */
+  finish(totalTicks: number, winnerIds: string[]): ReplayData {
+    return {
+      version: REPLAY_VERSION,
+      roomCode: this.roomCode,
+      recordedAt: this.startedAt,
+      seed: this.seed,
+      stepMs: SIMULATION_STEP_MS,
+      victoryConditions: this.victoryConditions,
+      startingResources: this.startingResources,
+      players: this.players,
+      commands: this.commands,
+      totalTicks,
+      winnerIds
+    };
+  }
+}
@@ -0,0 +1,99 @@
+import { GameState } from "../../shared/gameState";
+import { GameEvent } from "../../shared/types";
+import { TECH_DEFINITIONS } from "../../shared/techTree";
+import { BotOrder, BotStrategy, BotView } from "../../shared/botStrategy";
+import { AIDifficulty } from "../../client/src/game/types";
+
+/**
+ * Computer player hosted by a GameRoom: it plays the shared BotStrategy and acts only by issuing
+ * game events that the room validates and queues like any player's
+ * Units, buildings and resources come from its fog-of-war filtered state, as a human client's do,
+ * but gathering and site-picking read the simulation's map directly, so the bot sees every tile's
+ * remaining resources and which tiles are occupied, including out of sight
+ * Bots gather at the normal rate; the difficulty's gatherMultiplier only applies to the solo AI
+ */
+export class ServerBot {
+  readonly playerId: string;
+  readonly difficulty: AIDifficulty;
+  private strategy: BotStrategy;
+  
+  constructor(playerId: string, difficulty: AIDifficulty) {
+    this.playerId = playerId;
+    this.difficulty = difficulty;
+    this.strategy = new BotStrategy(`Bot ${playerId}`, difficulty);
+  }
+  
+  /**
+   * Advance the bot's clock and, when it is time to think, decide its next orders
+   * @param deltaTime Simulated time since the last update in milliseconds
+   * @returns Game events for the room to validate and queue
+   */
+  update(deltaTime: number, gameState: GameState): GameEvent[] {
+    if (!this.strategy.advance(deltaTime)) return [];
+    
+    return this.strategy.think(this.getView(gameState)).map(order => this.toEvent(order));
+  }
+  
+  private getView(gameState: GameState): BotView {
+    const state = gameState.getVisibleState(this.playerId);
+    const isEnemy = (playerId: string) => !gameState.areAllies(this.playerId, playerId);
+    
+    const units = Object.values(state.units) as any[];
+    const buildings = Object.values(state.buildings) as any[];
+    
+    // Explored buildings stay in the state until the bot sees their site again, like a player's map
+    const toBotBuilding = (building: any) => ({
+      id: building.id,
+      type: building.type,
+      x: building.x,
+      y: building.y,
+      queueLength: building.productionQueue ? building.productionQueue.length : 0
+    });
+    
+    return {
+      map: gameState.getMap(),
+      playerCount: Object.keys(state.players).length,
+      resources: state.players[this.playerId].resources,
+      units: units
+        .filter(unit => unit.playerId === this.playerId)
+        .map(unit => ({
+          id: unit.id,
+          type: unit.type,
+          x: unit.x,
+          y: unit.y,
+          isGathering: unit.isGathering,
+          isMoving: unit.isMoving,
+          isAttacking: unit.isAttacking,
+          carryingResource: !!unit.carryingResource
+        })),
+      buildings: buildings.filter(building => building.playerId === this.playerId).map(toBotBuilding),
+      alliedCityCenters: buildings.filter(building => building.type === "cityCenter" && !isEnemy(building.playerId)),
+      enemyUnits: units.filter(unit => isEnemy(unit.playerId)),
+      enemyBuildings: buildings.filter(building => isEnemy(building.playerId)).map(toBotBuilding),
+      researchableTechs: TECH_DEFINITIONS.filter(tech => !gameState.getResearchError(this.playerId, tech.id))
+    };
+  }
+  
+  private toEvent(order: BotOrder): GameEvent {
+    const event = (type: GameEvent["type"], data: { [key: string]: any }): GameEvent => ({ playerId: this.playerId, type, ...data });
+    
+    switch (order.type) {
+      case "train":
+        return event("queueProduction", { buildingId: order.buildingId, unitType: order.unitType });
+      case "build":
+        return event("buildingCreate", { buildingType: order.buildingType, x: order.x, y: order.y });
+      case "research":
+        return event("researchTech", { techId: order.techId });
+      case "gather":
+        return event("gatherResource", { unitIds: [order.unitId], resourceX: order.x, resourceY: order.y });
+      case "attack":
+        return event("attack", { attackerIds: order.unitIds, targetId: order.targetId });
+      case "move":
+        return event("unitMove", { unitIds: order.unitIds, targetX: order.x, targetY: order.y });
+      case "attackWave":
+        return order.targetId
+          ? event("attack", { attackerIds: order.unitIds, targetId: order.targetId })
+          : event("unitMove", { unitIds: order.unitIds, targetX: order.x, targetY: order.y });
+    }
+  }
+}
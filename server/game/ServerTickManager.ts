@@ -60,26 +60,33 @@ export class ServerTickManager {
         
         // Send state updates to clients
         this.sendStateUpdates(room);
+        
+        // Announce defeats and end the match if it has been decided
+        room.resolveMatchOutcome();
       }
     });
   }
   
   /**
    * Send optimized state updates to players in a room
-   * This uses delta compression to only send changes since the last update
+   * This uses delta compression to only send changes since the last update,
+   * and each player only receives what their units and buildings can see
+   * (observers receive everything)
    */
   private sendStateUpdates(room: GameRoom): void {
-    // Get delta state update (only changed values)
-    const stateUpdate = room.getStateUpdate();
+    // Get delta state updates (only changed values) per player
+    const stateUpdates = room.getStateUpdates();
     
-    // If there are meaningful changes, broadcast them
-    if (stateUpdate && Object.keys(stateUpdate).length > 0) {
-      room.broadcastToAll({
-        type: "stateUpdate",
-        tick: this.lastTickTime,
-        changes: stateUpdate
-      });
-    }
+    // If there are meaningful changes, send them
+    stateUpdates.forEach((stateUpdate, clientId) => {
+      if (Object.keys(stateUpdate).length > 0) {
+        room.sendToClient(clientId, {
+          type: "stateUpdate",
+          tick: this.lastTickTime,
+          changes: stateUpdate
+        });
+      }
+    });
   }
   
   /**
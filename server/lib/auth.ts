@@ -0,0 +1,44 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { z } from 'zod';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keyLength: number) => Promise<Buffer>;
+
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+
+// Registration and login body; usernames are shown to other players, so keep them plain
+export const credentialsSchema = z.object({
+  username: z.string()
+    .min(2, "Username must be at least 2 characters")
+    .max(20, "Username must be at most 20 characters")
+    .regex(/^[A-Za-z0-9_]+$/, "Username may only use letters, numbers and underscores"),
+  password: z.string()
+    .min(8, "Password must be at least 8 characters")
+    .max(128, "Password must be at most 128 characters")
+});
+
+export type Credentials = z.infer<typeof credentialsSchema>;
+
+/**
+ * Hash a password with a random salt for storage, as "salt:hash" in hex
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES).toString('hex');
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt}:${hash.toString('hex')}`;
+}
+
+/**
+ * Check a password against a hash from hashPassword
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
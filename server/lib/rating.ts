@@ -0,0 +1,108 @@
+import { storage } from "../storage";
+import { DEFAULT_RATING, RATING_K_FACTOR } from "../../client/src/game/config";
+import type { InsertMatchParticipant, MatchOutcome, Rating } from "../../shared/schema";
+import type { FactionType, RatingCategory } from "../../shared/types";
+
+/**
+ * One side of a match, a team or a player on their own, as Elo sees it
+ */
+export interface RatedSide {
+  // The members' average rating
+  rating: number;
+  // 1 for a win, 0.5 for a draw, 0 for a loss
+  score: number;
+}
+
+const OUTCOME_SCORES: Record<MatchOutcome, number> = {
+  win: 1,
+  draw: 0.5,
+  loss: 0
+};
+
+/**
+ * Elo rating changes for a finished match; every side is scored against every other side,
+ * so a free-for-all counts as a set of head-to-head results
+ * @returns The change for each side, in the same order
+ */
+export function computeRatingChanges(sides: RatedSide[]): number[] {
+  if (sides.length < 2) {
+    return sides.map(() => 0);
+  }
+
+  return sides.map((side, index) => {
+    let total = 0;
+    sides.forEach((opponent, opponentIndex) => {
+      if (opponentIndex === index) return;
+
+      const expected = 1 / (1 + Math.pow(10, (opponent.rating - side.rating) / 400));
+      const actual = side.score === opponent.score ? 0.5 : side.score > opponent.score ? 1 : 0;
+      total += actual - expected;
+    });
+    return Math.round((RATING_K_FACTOR * total) / (sides.length - 1));
+  });
+}
+
+/**
+ * Matches in ranked rooms count when they are played between accounts only; a bot or guest makes the match unranked
+ */
+export function isRankedMatch(participants: InsertMatchParticipant[]): boolean {
+  return participants.length >= 2 &&
+    participants.every(participant => !participant.isBot && participant.userId != null) &&
+    new Set(participants.map(participant => getSideKey(participant))).size >= 2;
+}
+
+function getSideKey(participant: InsertMatchParticipant): string {
+  return participant.team != null ? `team_${participant.team}` : `user_${participant.userId}`;
+}
+
+/**
+ * Update every participant's overall and faction ratings after a ranked match
+ * Each participant's ratingChange is set to the change in their overall rating
+ */
+export async function rateMatch(participants: InsertMatchParticipant[]): Promise<void> {
+  if (!isRankedMatch(participants)) return;
+
+  const currentRatings = await Promise.all(participants.map(participant => storage.getRatings(participant.userId!)));
+
+  const categories: Array<(participant: InsertMatchParticipant) => RatingCategory> = [
+    () => "overall",
+    participant => participant.faction as FactionType
+  ];
+
+  for (const getCategory of categories) {
+    const entries = participants.map((participant, index) => {
+      const category = getCategory(participant);
+      const existing: Rating | undefined = currentRatings[index].find(rating => rating.category === category);
+      return { participant, category, existing, rating: existing?.rating ?? DEFAULT_RATING };
+    });
+
+    // Teammates share their side's result and rating change
+    const sideKeys = Array.from(new Set(participants.map(participant => getSideKey(participant))));
+    const sides = sideKeys.map(sideKey => {
+      const members = entries.filter(entry => getSideKey(entry.participant) === sideKey);
+      return {
+        rating: members.reduce((sum, member) => sum + member.rating, 0) / members.length,
+        score: OUTCOME_SCORES[members[0].participant.result]
+      };
+    });
+    const changes = computeRatingChanges(sides);
+
+    await Promise.all(entries.map(entry => {
+      const { participant, category, existing } = entry;
+      const change = changes[sideKeys.indexOf(getSideKey(participant))];
+      if (category === "overall") {
+        participant.ratingChange = change;
+      }
+
+      return storage.saveRating({
+        userId: participant.userId!,
+        category,
+        rating: entry.rating + change,
+        gamesPlayed: (existing?.gamesPlayed ?? 0) + 1,
+        wins: (existing?.wins ?? 0) + (participant.result === "win" ? 1 : 0),
+        losses: (existing?.losses ?? 0) + (participant.result === "loss" ? 1 : 0),
+        draws: (existing?.draws ?? 0) + (participant.result === "draw" ? 1 : 0)
+      });
+    }));
+  }
+}
@@ -0,0 +1,93 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { config } from "../config";
+import { ReplayData } from "../../shared/replay";
+
+/**
+ * Summary of a stored replay for listings
+ */
+export interface ReplaySummary {
+  id: string;
+  roomCode: string;
+  recordedAt: number;
+  players: Array<{ username: string; faction: string; team: number | null }>;
+  winnerIds: string[];
+}
+
+// Replay ids become file names, so only allow what saveReplay generates
+const REPLAY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+function getReplayDir(): string {
+  return path.resolve(process.cwd(), config.REPLAY_DIR);
+}
+
+function getReplayPath(id: string): string {
+  return path.join(getReplayDir(), `${id}.json`);
+}
+
+/**
+ * Write a finished match to the replay directory
+ * @returns The replay id
+ */
+export async function saveReplay(replay: ReplayData): Promise<string> {
+  const id = `${replay.roomCode}-${replay.recordedAt}`;
+
+  await fs.mkdir(getReplayDir(), { recursive: true });
+  await fs.writeFile(getReplayPath(id), JSON.stringify(replay));
+
+  return id;
+}
+
+/**
+ * Load a stored replay, or null if there is none with that id
+ */
+export async function loadReplay(id: string): Promise<ReplayData | null> {
+  if (!REPLAY_ID_PATTERN.test(id)) {
+    return null;
+  }
+
+  try {
+    const contents = await fs.readFile(getReplayPath(id), "utf8");
+    return JSON.parse(contents) as ReplayData;
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * List stored replays, newest first
+ */
+export async function listReplays(): Promise<ReplaySummary[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(getReplayDir());
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const summaries: ReplaySummary[] = [];
+
+  for (const file of files) {
+    if (!file.endsWith(".json")) continue;
+
+    const id = file.slice(0, -".json".length);
+    const replay = await loadReplay(id);
+    if (!replay) continue;
+
+    summaries.push({
+      id,
+      roomCode: replay.roomCode,
+      recordedAt: replay.recordedAt,
+      players: replay.players.map(player => ({ username: player.username, faction: player.faction, team: player.team })),
+      winnerIds: replay.winnerIds
+    });
+  }
+
+  return summaries.sort((a, b) => b.recordedAt - a.recordedAt);
+}
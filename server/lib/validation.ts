@@ -1,5 +1,8 @@
 import { z } from 'zod';
 import { fromZodError } from 'zod-validation-error';
+import { MIN_OBSERVER_DELAY, MAX_OBSERVER_DELAY, MAX_PLAYERS, CHAT_MAX_LENGTH, GAME_SPEEDS } from '../../client/src/game/config';
+import type { GameState } from '../../shared/gameState';
+import type { GameEvent } from '../../shared/types';
 // Define faction type inline to avoid import issues
 const factionValues = ['Nephites', 'Lamanites'] as const;
 type FactionType = typeof factionValues[number];
@@ -12,11 +15,28 @@ const baseMessageSchema = z.object({
   })
 });
 
-// Join room message schema
+// Join room message schema; players and observers are named after their account
 export const joinRoomSchema = baseMessageSchema.extend({
   type: z.literal('joinRoom'),
   roomCode: z.string().min(3).max(10),
-  username: z.string().min(2).max(20).optional()
+  role: z.enum(['player', 'observer']).optional(),
+  password: z.string().max(32).optional()
+});
+
+// Create room message schema; the server picks the room code
+export const createRoomSchema = baseMessageSchema.extend({
+  type: z.literal('createRoom'),
+  isPublic: z.boolean(),
+  password: z.string().min(1).max(32).optional()
+});
+
+// Quick-match queue message schemas
+export const joinQueueSchema = baseMessageSchema.extend({
+  type: z.literal('joinQueue')
+});
+
+export const leaveQueueSchema = baseMessageSchema.extend({
+  type: z.literal('leaveQueue')
 });
 
 // Leave room message schema
@@ -29,7 +49,11 @@ export const leaveRoomSchema = baseMessageSchema.extend({
 export const updatePlayerSchema = baseMessageSchema.extend({
   type: z.literal('updatePlayer'),
   roomCode: z.string().min(3).max(10),
+  // Set when the host updates one of the room's bots
+  botId: z.string().optional(),
   faction: z.enum(['Nephites', 'Lamanites']).optional(),
+  // Null leaves the player without a team
+  team: z.number().int().min(1).max(MAX_PLAYERS).nullable().optional(),
   ready: z.boolean().optional()
 });
 
@@ -39,6 +63,64 @@ export const startGameSchema = baseMessageSchema.extend({
   roomCode: z.string().min(3).max(10)
 });
 
+// Add bot message schema (host only)
+export const addBotSchema = baseMessageSchema.extend({
+  type: z.literal('addBot'),
+  roomCode: z.string().min(3).max(10),
+  difficulty: z.enum(['easy', 'normal', 'hard']),
+  faction: z.enum(['Nephites', 'Lamanites']).optional()
+});
+
+// Remove bot message schema (host only)
+export const removeBotSchema = baseMessageSchema.extend({
+  type: z.literal('removeBot'),
+  roomCode: z.string().min(3).max(10),
+  botId: z.string()
+});
+
+// Update match settings message schema (host only); settings left out keep their value
+export const updateSettingsSchema = baseMessageSchema.extend({
+  type: z.literal('updateSettings'),
+  roomCode: z.string().min(3).max(10),
+  settings: z.object({
+    // Null picks a new map for every match
+    seed: z.number().int().min(0).max(4294967295).nullable().optional(),
+    startingResources: z.enum(['low', 'standard', 'high']).optional(),
+    gameSpeed: z.number().refine(speed => GAME_SPEEDS.includes(speed), {
+      message: `Game speed must be one of ${GAME_SPEEDS.join(', ')}`
+    }).optional(),
+    victoryCondition: z.enum(['cityCenter', 'units', 'either']).optional(),
+    // Seconds the observers' stream lags behind the match
+    observerDelay: z.number().int().min(MIN_OBSERVER_DELAY).max(MAX_OBSERVER_DELAY).optional()
+  })
+});
+
+// Kick player message schema (host only); also removes observers
+export const kickPlayerSchema = baseMessageSchema.extend({
+  type: z.literal('kickPlayer'),
+  roomCode: z.string().min(3).max(10),
+  playerId: z.string()
+});
+
+// Pause and resume message schemas (players in a match only)
+export const pauseGameSchema = baseMessageSchema.extend({
+  type: z.literal('pauseGame'),
+  roomCode: z.string().min(3).max(10)
+});
+
+export const resumeGameSchema = baseMessageSchema.extend({
+  type: z.literal('resumeGame'),
+  roomCode: z.string().min(3).max(10)
+});
+
+// Chat message schema; surrounding whitespace is trimmed before the length checks
+export const chatSchema = baseMessageSchema.extend({
+  type: z.literal('chat'),
+  roomCode: z.string().min(3).max(10),
+  scope: z.enum(['all', 'team', 'lobby']),
+  text: z.string().trim().min(1, "Chat message is empty").max(CHAT_MAX_LENGTH, `Chat messages are limited to ${CHAT_MAX_LENGTH} characters`)
+});
+
 // Unit move event schema
 export const unitMoveEventSchema = baseMessageSchema.extend({
   type: z.literal('gameEvent'),
@@ -49,15 +131,14 @@ export const unitMoveEventSchema = baseMessageSchema.extend({
   targetY: z.number().int()
 });
 
-// Unit create event schema
-export const unitCreateEventSchema = baseMessageSchema.extend({
+// Gather resource event schema
+export const gatherResourceEventSchema = baseMessageSchema.extend({
   type: z.literal('gameEvent'),
   roomCode: z.string().min(3).max(10),
-  eventType: z.literal('unitCreate'),
-  playerId: z.string(),
-  unitType: z.string(),
-  x: z.number().int(),
-  y: z.number().int()
+  eventType: z.literal('gatherResource'),
+  unitIds: z.array(z.string()),
+  resourceX: z.number().int(),
+  resourceY: z.number().int()
 });
 
 // Building create event schema
@@ -65,23 +146,11 @@ export const buildingCreateEventSchema = baseMessageSchema.extend({
   type: z.literal('gameEvent'),
   roomCode: z.string().min(3).max(10),
   eventType: z.literal('buildingCreate'),
-  playerId: z.string(),
   buildingType: z.string(),
   x: z.number().int(),
   y: z.number().int()
 });
 
-// Resource update event schema
-export const resourceUpdateEventSchema = baseMessageSchema.extend({
-  type: z.literal('gameEvent'),
-  roomCode: z.string().min(3).max(10),
-  eventType: z.literal('resourceUpdate'),
-  resources: z.object({
-    food: z.number().nonnegative(),
-    ore: z.number().nonnegative()
-  })
-});
-
 // Research tech event schema
 export const researchTechEventSchema = baseMessageSchema.extend({
   type: z.literal('gameEvent'),
@@ -99,6 +168,24 @@ export const attackEventSchema = baseMessageSchema.extend({
   targetId: z.string()
 });
 
+// Queue production event schema
+export const queueProductionEventSchema = baseMessageSchema.extend({
+  type: z.literal('gameEvent'),
+  roomCode: z.string().min(3).max(10),
+  eventType: z.literal('queueProduction'),
+  buildingId: z.string(),
+  unitType: z.string()
+});
+
+// Cancel production event schema
+export const cancelProductionEventSchema = baseMessageSchema.extend({
+  type: z.literal('gameEvent'),
+  roomCode: z.string().min(3).max(10),
+  eventType: z.literal('cancelProduction'),
+  buildingId: z.string(),
+  index: z.number().int().nonnegative()
+});
+
 // Pong message schema for latency measurement
 export const pongSchema = baseMessageSchema.extend({
   type: z.literal('pong'),
@@ -117,11 +204,12 @@ export const reconnectSchema = baseMessageSchema.extend({
 // Combined event schema
 export const gameEventSchema = z.discriminatedUnion('eventType', [
   unitMoveEventSchema.omit({ type: true }),
-  unitCreateEventSchema.omit({ type: true }),
+  gatherResourceEventSchema.omit({ type: true }),
   buildingCreateEventSchema.omit({ type: true }),
-  resourceUpdateEventSchema.omit({ type: true }),
   researchTechEventSchema.omit({ type: true }),
-  attackEventSchema.omit({ type: true })
+  attackEventSchema.omit({ type: true }),
+  queueProductionEventSchema.omit({ type: true }),
+  cancelProductionEventSchema.omit({ type: true })
 ]);
 
 // A function that validates incoming messages and returns proper error messages
@@ -153,10 +241,30 @@ export function getSchemaForMessageType(type: string, eventType?: string) {
       return joinRoomSchema;
     case 'leaveRoom':
       return leaveRoomSchema;
+    case 'createRoom':
+      return createRoomSchema;
+    case 'joinQueue':
+      return joinQueueSchema;
+    case 'leaveQueue':
+      return leaveQueueSchema;
     case 'updatePlayer':
       return updatePlayerSchema;
     case 'startGame':
       return startGameSchema;
+    case 'addBot':
+      return addBotSchema;
+    case 'removeBot':
+      return removeBotSchema;
+    case 'updateSettings':
+      return updateSettingsSchema;
+    case 'kickPlayer':
+      return kickPlayerSchema;
+    case 'pauseGame':
+      return pauseGameSchema;
+    case 'resumeGame':
+      return resumeGameSchema;
+    case 'chat':
+      return chatSchema;
     case 'gameEvent':
       if (!eventType) {
         return null;
@@ -164,16 +272,18 @@ export function getSchemaForMessageType(type: string, eventType?: string) {
       switch (eventType) {
         case 'unitMove':
           return unitMoveEventSchema;
-        case 'unitCreate':
-          return unitCreateEventSchema;
+        case 'gatherResource':
+          return gatherResourceEventSchema;
         case 'buildingCreate':
           return buildingCreateEventSchema;
-        case 'resourceUpdate':
-          return resourceUpdateEventSchema;
         case 'researchTech':
           return researchTechEventSchema;
         case 'attack':
           return attackEventSchema;
+        case 'queueProduction':
+          return queueProductionEventSchema;
+        case 'cancelProduction':
+          return cancelProductionEventSchema;
         default:
           return null;
       }
@@ -244,4 +354,75 @@ export function createErrorResponse(code: string, message: string) {
       message
     }
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Checks a game event against the match before it is queued: coordinates in bounds,
+ * ordered units and buildings owned by the sender, and research allowed
+ * Rooms and the match simulator apply the same checks, so bots are held to the same rules as players
+ * @param event Game event from a player or bot
+ * @param gameState Match the event is for
+ * @returns An error response if the event must be rejected, or null if it may be queued
+ */
+export function validateGameEvent(event: GameEvent, gameState: GameState): ReturnType<typeof createErrorResponse> | null {
+  switch (event.type) {
+    case 'unitMove':
+      if (!validateMapCoordinates(event.targetX, event.targetY)) {
+        return createErrorResponse(
+          'INVALID_COORDINATES',
+          `Target coordinates (${event.targetX}, ${event.targetY}) are out of map bounds`
+        );
+      }
+      if (event.unitIds && event.unitIds.length > 0 &&
+          !validateEntityOwnership(event.unitIds, gameState.getUnits(), event.playerId)) {
+        return createErrorResponse('UNAUTHORIZED_UNITS', 'Player does not own all of the specified units');
+      }
+      return null;
+
+    case 'gatherResource':
+      if (!validateMapCoordinates(event.resourceX, event.resourceY)) {
+        return createErrorResponse(
+          'INVALID_COORDINATES',
+          `Resource coordinates (${event.resourceX}, ${event.resourceY}) are out of map bounds`
+        );
+      }
+      if (event.unitIds && event.unitIds.length > 0 &&
+          !validateEntityOwnership(event.unitIds, gameState.getUnits(), event.playerId)) {
+        return createErrorResponse('UNAUTHORIZED_UNITS', 'Player does not own all of the specified units');
+      }
+      return null;
+
+    case 'buildingCreate':
+      if (!validateMapCoordinates(event.x, event.y)) {
+        return createErrorResponse(
+          'INVALID_COORDINATES',
+          `Building coordinates (${event.x}, ${event.y}) are out of map bounds`
+        );
+      }
+      return null;
+
+    case 'attack':
+      if (event.attackerIds && event.attackerIds.length > 0 &&
+          !validateEntityOwnership(event.attackerIds, gameState.getUnits(), event.playerId)) {
+        return createErrorResponse('UNAUTHORIZED_UNITS', 'Player does not own all of the attacking units');
+      }
+      return null;
+
+    case 'queueProduction':
+    case 'cancelProduction':
+      if (!validateEntityOwnership([event.buildingId], gameState.getBuildings(), event.playerId)) {
+        return createErrorResponse('UNAUTHORIZED_BUILDING', 'Player does not own the specified building');
+      }
+      return null;
+
+    case 'researchTech': {
+      // Prerequisites, faction and cost against the shared tech tree
+      const researchError = gameState.getResearchError(event.playerId, event.techId);
+      return researchError ? createErrorResponse('INVALID_RESEARCH', researchError) : null;
+    }
+
+    default:
+      // No specific validation for other event types
+      return null;
+  }
+}
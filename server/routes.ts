@@ -1,10 +1,15 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import session from "express-session";
 import MemoryStore from "memorystore";
-import { getSessionCookieConfig, isDevelopment } from "./config";
-import { storage } from "./storage";
+import connectPgSimple from "connect-pg-simple";
+import { z } from "zod";
+import { getDatabaseUrl, getSessionCookieConfig, isDevelopment } from "./config";
+import { storage, usesDatabaseStorage } from "./storage";
+import { credentialsSchema, hashPassword, verifyPassword } from "./lib/auth";
+import { listReplays, loadReplay } from "./lib/replays";
 import { setupSocketServer } from "./socket";
+import type { LeaderboardPage } from "../shared/types";
 
 // Extend the session to include our custom properties
 declare module 'express-session' {
@@ -20,18 +25,61 @@ declare module 'express-session' {
   }
 }
 
+/**
+ * Start a fresh session for a user who just registered or logged in, so a session ID
+ * handed out before authenticating can't be used to ride along
+ */
+function startUserSession(req: Request, user: { id: number; username: string }): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate(error => {
+      if (error) {
+        return reject(error);
+      }
+      req.session.userId = String(user.id);
+      req.session.username = user.username;
+      req.session.save(error => error ? reject(error) : resolve());
+    });
+  });
+}
+
+const MATCH_HISTORY_LIMIT = 20;
+const MATCH_HISTORY_MAX_LIMIT = 100;
+
+/**
+ * Number of matches asked for with ?limit=, within the allowed range
+ */
+function getMatchLimit(req: Request): number {
+  const limit = Number(req.query.limit);
+  if (!Number.isInteger(limit) || limit <= 0) {
+    return MATCH_HISTORY_LIMIT;
+  }
+  return Math.min(limit, MATCH_HISTORY_MAX_LIMIT);
+}
+
+const leaderboardQuerySchema = z.object({
+  category: z.enum(['overall', 'Nephites', 'Lamanites']).default('overall'),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up session middleware for managing user sessions
-  const MemoryStoreSession = MemoryStore(session);
   const sessionConfig = getSessionCookieConfig();
   
-  // Use memory store for development, but for production you should use
-  // a more persistent store like Redis or PostgreSQL
+  // Sessions live in the database along with accounts when there is one, so players stay logged in
+  // across a server restart and can take their seats back in restored matches
+  const sessionStore = usesDatabaseStorage()
+    ? new (connectPgSimple(session))({
+      conString: getDatabaseUrl(),
+      createTableIfMissing: true,
+    })
+    : new (MemoryStore(session))({
+      checkPeriod: 86400000, // prune expired entries every 24h
+    });
+  
   const sessionMiddleware = session({
     ...sessionConfig,
-    store: new MemoryStoreSession({
-      checkPeriod: 86400000, // prune expired entries every 24h
-    }),
+    store: sessionStore,
   });
   
   app.use(sessionMiddleware);
@@ -56,14 +104,161 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Create an account and sign in with it
+  app.post('/api/register', async (req, res) => {
+    const parsed = credentialsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues[0].message });
+    }
+    
+    try {
+      const { username, password } = parsed.data;
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ error: 'That username is taken' });
+      }
+      
+      const user = await storage.createUser({ username, password: await hashPassword(password) });
+      await startUserSession(req, user);
+      res.status(201).json({ authenticated: true, userId: String(user.id), username: user.username });
+    } catch (error) {
+      console.error('Error registering user:', error);
+      res.status(500).json({ error: 'Could not create account' });
+    }
+  });
+
+  app.post('/api/login', async (req, res) => {
+    // The same message for every failure, so logins can't be used to find usernames
+    const parsed = credentialsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(401).json({ error: 'Invalid username or password' });
+    }
+    
+    try {
+      const { username, password } = parsed.data;
+      const user = await storage.getUserByUsername(username);
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return res.status(401).json({ error: 'Invalid username or password' });
+      }
+      
+      await startUserSession(req, user);
+      res.json({ authenticated: true, userId: String(user.id), username: user.username });
+    } catch (error) {
+      console.error('Error logging in:', error);
+      res.status(500).json({ error: 'Could not log in' });
+    }
+  });
+
+  app.post('/api/logout', (req, res) => {
+    req.session.destroy(error => {
+      if (error) {
+        console.error('Error logging out:', error);
+        return res.status(500).json({ error: 'Could not log out' });
+      }
+      res.clearCookie('connect.sid');
+      res.json({ authenticated: false });
+    });
+  });
+
+  // Finished matches with every participant's statistics, newest first
+  app.get('/api/matches', async (req, res) => {
+    try {
+      res.json(await storage.getMatches(getMatchLimit(req)));
+    } catch (error) {
+      console.error('Error listing matches:', error);
+      res.status(500).json({ error: 'Could not list matches' });
+    }
+  });
+
+  // Matches one account played in, newest first
+  app.get('/api/users/:id/matches', async (req, res) => {
+    const userId = Number(req.params.id);
+    if (!Number.isInteger(userId) || userId <= 0) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+    
+    try {
+      if (!(await storage.getUser(userId))) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      res.json(await storage.getUserMatches(userId, getMatchLimit(req)));
+    } catch (error) {
+      console.error('Error listing user matches:', error);
+      res.status(500).json({ error: 'Could not list matches' });
+    }
+  });
+
+  // Ratings from ranked matches, best first, a page at a time
+  app.get('/api/leaderboard', async (req, res) => {
+    const parsed = leaderboardQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues[0].message });
+    }
+    
+    try {
+      const { category, page, pageSize } = parsed.data;
+      const offset = (page - 1) * pageSize;
+      const { total, entries } = await storage.getLeaderboard(category, pageSize, offset);
+      const leaderboard: LeaderboardPage = {
+        category,
+        page,
+        pageSize,
+        total,
+        entries: entries.map((entry, index) => ({
+          rank: offset + index + 1,
+          userId: entry.userId,
+          username: entry.username,
+          rating: entry.rating,
+          gamesPlayed: entry.gamesPlayed,
+          wins: entry.wins,
+          losses: entry.losses,
+          draws: entry.draws
+        }))
+      };
+      res.json(leaderboard);
+    } catch (error) {
+      console.error('Error loading leaderboard:', error);
+      res.status(500).json({ error: 'Could not load leaderboard' });
+    }
+  });
+
+  // Recorded matches, newest first
+  app.get('/api/replays', async (req, res) => {
+    try {
+      res.json(await listReplays());
+    } catch (error) {
+      console.error('Error listing replays:', error);
+      res.status(500).json({ error: 'Could not list replays' });
+    }
+  });
+
+  // Full replay file for the GameScene replay viewer
+  app.get('/api/replays/:id', async (req, res) => {
+    try {
+      const replay = await loadReplay(req.params.id);
+      if (!replay) {
+        return res.status(404).json({ error: 'Replay not found' });
+      }
+      res.json(replay);
+    } catch (error) {
+      console.error('Error loading replay:', error);
+      res.status(500).json({ error: 'Could not load replay' });
+    }
+  });
+
   // Create HTTP server
   const httpServer = createServer(app);
   
   // Set up WebSocket server for game communication
-  const socketServer = setupSocketServer(httpServer);
+  // Game connections share the session, so players are who they logged in as
+  const socketServer = setupSocketServer(httpServer, sessionMiddleware);
   
   // Store socket server in app locals for access in other parts of the app
   app.locals.socketServer = socketServer;
+  
+  // Public rooms for the room browser
+  app.get('/api/rooms', (req, res) => {
+    res.json(socketServer.listRooms());
+  });
 
   return httpServer;
 }
@@ -0,0 +1,225 @@
+import { parseArgs } from "util";
+import { simulateMatch, SimulatedMatch, SimulatedPlayer } from "./game/MatchSimulator";
+import { STARTING_POSITIONS } from "../shared/mapGeneration";
+import { AIDifficulty, FactionType } from "../client/src/game/types";
+
+/**
+ * Headless balance testing: plays seeded matches between bots without a client or server
+ * and reports win rates, match length and resource curves
+ * Slots take turns at each starting position from one match to the next, so a slot's win rate
+ * isn't decided by where it starts; the report also gives win rates by starting position
+ *
+ * Usage: npm run simulate -- [options]
+ *   --players  Comma-separated faction:controller[:team] slots, two to four (default Nephites:normal,Lamanites:normal)
+ *              Controllers are easy, normal, hard or idle; slots with the same team number are allies
+ *   --runs     Number of matches (default 20)
+ *   --seed     Seed of the first match; each further match uses the next seed (default 1)
+ *   --max-minutes     Game minutes before an undecided match counts as a timeout (default 30)
+ *   --sample-seconds  Game seconds between resource curve samples (default 60)
+ *   --json     Print the raw results as JSON instead of a report
+ *   --verbose  Keep the simulation's own logging
+ */
+
+const FACTIONS: FactionType[] = ["Nephites", "Lamanites"];
+const CONTROLLERS: Array<AIDifficulty | "idle"> = ["easy", "normal", "hard", "idle"];
+
+interface SimulationRun {
+  players: SimulatedPlayer[];
+  runs: number;
+  firstSeed: number;
+  maxDuration: number;
+  sampleInterval: number;
+}
+
+function parsePlayers(spec: string): SimulatedPlayer[] {
+  const players = spec.split(",").map(slot => {
+    const [faction, controller = "normal", team] = slot.trim().split(":");
+    if (!FACTIONS.includes(faction as FactionType)) {
+      throw new Error(`Unknown faction "${faction}"; expected one of ${FACTIONS.join(", ")}`);
+    }
+    if (!CONTROLLERS.includes(controller as AIDifficulty | "idle")) {
+      throw new Error(`Unknown controller "${controller}"; expected one of ${CONTROLLERS.join(", ")}`);
+    }
+    if (team !== undefined && !/^[1-9]$/.test(team)) {
+      throw new Error(`Unknown team "${team}"; expected a number from 1 to 9`);
+    }
+    return {
+      faction: faction as FactionType,
+      controller: controller as AIDifficulty | "idle",
+      team: team !== undefined ? Number(team) : null
+    };
+  });
+  
+  if (players.length < 2) {
+    throw new Error("A match needs at least two players");
+  }
+  if (players.length > STARTING_POSITIONS.length) {
+    throw new Error(`A match has at most ${STARTING_POSITIONS.length} players, one per starting position`);
+  }
+  
+  return players;
+}
+
+function parsePositiveInt(value: string, name: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`--${name} must be a positive whole number`);
+  }
+  return parsed;
+}
+
+/**
+ * Run every match with the simulation's console output silenced, unless asked for
+ */
+function runMatches(run: SimulationRun, verbose: boolean): SimulatedMatch[] {
+  const { log, warn } = console;
+  if (!verbose) {
+    console.log = () => {};
+    console.warn = () => {};
+  }
+  
+  try {
+    const matches: SimulatedMatch[] = [];
+    for (let i = 0; i < run.runs; i++) {
+      matches.push(simulateMatch(run.players, run.firstSeed + i, {
+        maxDuration: run.maxDuration,
+        sampleInterval: run.sampleInterval,
+        rotation: i
+      }));
+    }
+    return matches;
+  } finally {
+    console.log = log;
+    console.warn = warn;
+  }
+}
+
+function formatTime(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
+}
+
+function formatPercent(count: number, total: number): string {
+  return `${(total > 0 ? (count / total) * 100 : 0).toFixed(1)}%`;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function printReport(run: SimulationRun, matches: SimulatedMatch[]) {
+  const labels = run.players.map((slot, index) =>
+    `${index}: ${slot.faction} (${slot.controller})${slot.team ? ` team ${slot.team}` : ""}`);
+  const labelWidth = Math.max(...labels.map(label => label.length)) + 2;
+  
+  console.log(`Simulated ${matches.length} matches, seeds ${run.firstSeed}-${run.firstSeed + run.runs - 1}, ` +
+    `timeout after ${formatTime(run.maxDuration)}`);
+  console.log("");
+  
+  // Win rates by slot, then by faction across slots; every member of a winning team scores a win
+  console.log("Win rates");
+  run.players.forEach((_, index) => {
+    const wins = matches.filter(match => match.winnerSlots.includes(index)).length;
+    console.log(`  ${labels[index].padEnd(labelWidth)}${String(wins).padStart(4)} wins  ${formatPercent(wins, matches.length).padStart(6)}`);
+  });
+  
+  const timeouts = matches.filter(match => match.timedOut).length;
+  const draws = matches.filter(match => !match.timedOut && match.winnerSlots.length === 0).length;
+  console.log(`  ${"Draws".padEnd(labelWidth)}${String(draws).padStart(4)}`);
+  console.log(`  ${"Timeouts".padEnd(labelWidth)}${String(timeouts).padStart(4)}`);
+  
+  const factionWins = FACTIONS
+    .filter(faction => run.players.some(slot => slot.faction === faction))
+    .map(faction => {
+      const wins = matches.filter(match =>
+        match.winnerSlots.some(slot => run.players[slot].faction === faction)
+      ).length;
+      return `${faction} ${formatPercent(wins, matches.length)}`;
+    });
+  console.log(`  By faction: ${factionWins.join(", ")}`);
+  
+  const positionWins = STARTING_POSITIONS.slice(0, run.players.length).map((position, index) => {
+    const wins = matches.filter(match =>
+      match.winnerSlots.some(slot => match.positions[slot] === index)
+    ).length;
+    return `(${position.x}, ${position.y}) ${formatPercent(wins, matches.length)}`;
+  });
+  console.log(`  By starting position: ${positionWins.join(", ")}`);
+  console.log("");
+  
+  // Match length, leaving out timeouts, which all last the full limit
+  const decided = matches.filter(match => !match.timedOut);
+  console.log(`Average match length: ${decided.length > 0 ? formatTime(average(decided.map(match => match.duration))) : "-"}` +
+    ` (${decided.length} decided)`);
+  console.log("");
+  
+  // Average end-of-match statistics per slot
+  console.log("Average per match");
+  run.players.forEach((_, index) => {
+    const stats = matches.map(match => match.stats[index]);
+    console.log(`  ${labels[index].padEnd(labelWidth)}` +
+      `food ${Math.round(average(stats.map(stat => stat.resourcesGathered.food)))}, ` +
+      `ore ${Math.round(average(stats.map(stat => stat.resourcesGathered.ore)))}, ` +
+      `units killed ${average(stats.map(stat => stat.unitsKilled)).toFixed(1)}, ` +
+      `lost ${average(stats.map(stat => stat.unitsLost)).toFixed(1)}, ` +
+      `techs ${average(stats.map(stat => stat.techsResearched)).toFixed(1)}`);
+  });
+  console.log("");
+  
+  // Resource curves, averaged over the matches still running at each sample
+  console.log("Resources gathered over time (average food/ore)");
+  const sampleCount = Math.max(...matches.map(match => match.resourceCurves[0].length));
+  const columnWidth = 14;
+  console.log(`  ${"Time".padEnd(8)}${"Matches".padEnd(9)}` +
+    run.players.map((_, index) => `Slot ${index}`.padEnd(columnWidth)).join("").trimEnd());
+  
+  for (let sample = 0; sample < sampleCount; sample++) {
+    const running = matches.filter(match => match.resourceCurves[0].length > sample);
+    const columns = run.players.map((_, index) => {
+      const samples = running.map(match => match.resourceCurves[index][sample]);
+      return `${Math.round(average(samples.map(point => point.food)))}/${Math.round(average(samples.map(point => point.ore)))}`
+        .padEnd(columnWidth);
+    });
+    console.log(`  ${formatTime(sample * run.sampleInterval).padEnd(8)}${String(running.length).padEnd(9)}${columns.join("").trimEnd()}`);
+  }
+}
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      players: { type: "string", default: "Nephites:normal,Lamanites:normal" },
+      runs: { type: "string", default: "20" },
+      seed: { type: "string", default: "1" },
+      "max-minutes": { type: "string", default: "30" },
+      "sample-seconds": { type: "string", default: "60" },
+      json: { type: "boolean", default: false },
+      verbose: { type: "boolean", default: false }
+    }
+  });
+  
+  const run: SimulationRun = {
+    players: parsePlayers(values.players!),
+    runs: parsePositiveInt(values.runs!, "runs"),
+    firstSeed: Number(values.seed),
+    maxDuration: parsePositiveInt(values["max-minutes"]!, "max-minutes") * 60 * 1000,
+    sampleInterval: parsePositiveInt(values["sample-seconds"]!, "sample-seconds") * 1000
+  };
+  if (!Number.isInteger(run.firstSeed)) {
+    throw new Error("--seed must be a whole number");
+  }
+  
+  const matches = runMatches(run, values.verbose!);
+  
+  if (values.json) {
+    console.log(JSON.stringify({ players: run.players, matches }, null, 2));
+  } else {
+    printReport(run, matches);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -1,16 +1,41 @@
-import { Server } from "http";
+import { IncomingMessage, Server } from "http";
+import type { Request, RequestHandler, Response } from "express";
 import { WebSocket, WebSocketServer } from "ws";
-import { GameRoom } from "./game/GameRoom";
-import { Player } from "./game/Player";
+import { GameRoom, RoomOptions } from "./game/GameRoom";
+import { Player } from "../shared/player";
 import { ServerTickManager } from "./game/ServerTickManager";
+import { MatchmakingQueue } from "./game/MatchmakingQueue";
+import { storage } from "./storage";
+import { RoomListing } from "../shared/types";
+import { DEFAULT_RATING } from "../client/src/game/config";
+
+/**
+ * Error codes clients act on: a join that needs a (different) password, or one that can't succeed
+ */
+type ErrorCode = "PASSWORD_REQUIRED" | "JOIN_FAILED" | "RECONNECT_FAILED" | "AUTH_REQUIRED";
+
+/**
+ * The account a connection's session was logged in as when it connected
+ */
+interface SocketAccount {
+  userId: number;
+  username: string;
+}
 
 export class SocketServer {
   private wss: WebSocketServer;
   private rooms: Map<string, GameRoom>;
   private tickManager: ServerTickManager;
+  private matchmakingQueue: MatchmakingQueue;
   private pingInterval: NodeJS.Timeout | null = null;
+  // Retries the quick-match queue as waiting players accept wider rating differences
+  private matchmakingInterval: NodeJS.Timeout | null = null;
+  // Reads the HTTP session of a connecting client; without one every client is a guest
+  private sessionParser: RequestHandler | null;
   
-  constructor(server: Server) {
+  constructor(server: Server, sessionParser?: RequestHandler) {
+    this.sessionParser = sessionParser ?? null;
+    
     // Use a specific path for our game WebSockets to avoid conflicts with Vite
     this.wss = new WebSocketServer({ 
       server,
@@ -32,12 +57,15 @@ export class SocketServer {
     });
     
     this.rooms = new Map();
+    this.matchmakingQueue = new MatchmakingQueue();
     
     // Create tick manager for optimized game state updates
     this.tickManager = new ServerTickManager(this.rooms, 15); // 15 ticks per second
     
     this.setupSocketServer();
+    this.restoreSavedRooms();
     this.startPingInterval();
+    this.matchmakingInterval = setInterval(() => this.createQueuedMatches(), 2000);
     
     // Add error handler for the WebSocket server
     this.wss.on('error', (error) => {
@@ -46,7 +74,7 @@ export class SocketServer {
   }
   
   private setupSocketServer() {
-    this.wss.on("connection", (ws: WebSocket) => {
+    this.wss.on("connection", (ws: WebSocket, request: IncomingMessage) => {
       console.log("New client connected");
       
       // Create a unique ID for this client
@@ -55,11 +83,16 @@ export class SocketServer {
       // Associate client ID with socket
       (ws as any).clientId = clientId;
       
+      // Bind the connection to whoever is logged in; messages wait until we know
+      const authenticated = this.readSessionAccount(request).then(account => {
+        (ws as any).account = account;
+      });
+      
       // Set up message handler
       ws.on("message", (message: string) => {
         try {
           const data = JSON.parse(message.toString());
-          this.handleMessage(ws, data);
+          authenticated.then(() => this.handleMessage(ws, data));
         } catch (error) {
           console.error("Error parsing message:", error);
           this.sendError(ws, "Invalid message format");
@@ -67,17 +100,22 @@ export class SocketServer {
       });
       
       // Handle disconnections
+      // A reconnected socket takes over its player's ID, so read it when the socket closes
       ws.on("close", () => {
-        console.log(`Client ${clientId} disconnected`);
-        this.handleClientDisconnect(clientId);
+        console.log(`Client ${(ws as any).clientId} disconnected`);
+        this.handleClientDisconnect(ws, (ws as any).clientId);
       });
       
       // Send initial connection acknowledgment with timestamp for latency calculation
-      this.sendToClient(ws, {
-        type: "connection",
-        clientId,
-        timestamp: Date.now(),
-        success: true
+      authenticated.then(() => {
+        const account = this.getAccount(ws);
+        this.sendToClient(ws, {
+          type: "connection",
+          clientId,
+          username: account?.username ?? null,
+          timestamp: Date.now(),
+          success: true
+        });
       });
     });
     
@@ -86,6 +124,87 @@ export class SocketServer {
     console.log("WebSocket server initialized with tick-based synchronization");
   }
   
+  /**
+   * Bring back the matches that were in progress when the server last stopped
+   * Their players reconnect with the tokens their clients kept; anyone who doesn't forfeits as usual
+   */
+  private async restoreSavedRooms() {
+    let savedRooms;
+    try {
+      savedRooms = await storage.getSavedRooms();
+    } catch (error) {
+      console.error("Error loading saved rooms:", error);
+      return;
+    }
+    
+    savedRooms.forEach(saved => {
+      // A room opened since startup already has the code
+      if (this.rooms.has(saved.roomCode)) {
+        return;
+      }
+      
+      let room: GameRoom;
+      try {
+        room = GameRoom.fromSaved(saved);
+      } catch (error) {
+        // Saves from an older version of the game can't be restored
+        console.error(`Error restoring room ${saved.roomCode}:`, error);
+        storage.deleteSavedRoom(saved.roomCode).catch(error => {
+          console.error(`Error removing saved match for room ${saved.roomCode}:`, error);
+        });
+        return;
+      }
+      
+      // Nobody is left to come back to it
+      if (room.isEmpty()) {
+        room.discardSavedMatch();
+        return;
+      }
+      
+      this.rooms.set(room.getRoomCode(), room);
+      room.getPlayerIds().forEach(playerId => {
+        const deadline = room.getReconnectDeadline(playerId);
+        if (deadline !== undefined) {
+          setTimeout(() => this.expireDisconnect(room, playerId, deadline), deadline - Date.now());
+        }
+      });
+      console.log(`Restored the match in room ${room.getRoomCode()}`);
+    });
+  }
+  
+  /**
+   * Run the session middleware over the upgrade request to find the logged-in account
+   */
+  private readSessionAccount(request: IncomingMessage): Promise<SocketAccount | null> {
+    const sessionParser = this.sessionParser;
+    if (!sessionParser) {
+      return Promise.resolve(null);
+    }
+    
+    return new Promise(resolve => {
+      const req = request as Request;
+      sessionParser(req, {} as Response, (error?: unknown) => {
+        const session = req.session;
+        if (error || !session?.userId || !session.username) {
+          resolve(null);
+          return;
+        }
+        resolve({ userId: Number(session.userId), username: session.username });
+      });
+    });
+  }
+  
+  private getAccount(ws: WebSocket): SocketAccount | null {
+    return (ws as any).account ?? null;
+  }
+  
+  /**
+   * Whether a client is playing in or watching any room
+   */
+  private isInRoom(clientId: string): boolean {
+    return Array.from(this.rooms.values()).some(room => room.hasPlayer(clientId) || room.hasObserver(clientId));
+  }
+  
   /**
    * Start periodic ping to measure client latency
    */
@@ -129,39 +248,82 @@ export class SocketServer {
           return;
         }
         
+        // Handlers only see the parsed message, so fields the schema doesn't know are dropped
+        const message = validationResult.data;
+        
         // Handle different validated message types
-        switch (data.type) {
+        switch (message.type) {
           case "joinRoom":
-            this.handleJoinRoom(ws, clientId, data);
+            this.handleJoinRoom(ws, clientId, message);
             break;
-            
+          
           case "leaveRoom":
-            this.handleLeaveRoom(clientId, data.roomCode);
+            this.handleLeaveRoom(clientId, message.roomCode);
+            break;
+          
+          case "createRoom":
+            this.handleCreateRoom(ws, clientId, message);
+            break;
+          
+          case "joinQueue":
+            this.handleJoinQueue(ws, clientId);
+            break;
+          
+          case "leaveQueue":
+            this.matchmakingQueue.remove(clientId);
             break;
-            
+          
           case "updatePlayer":
-            this.handleUpdatePlayer(clientId, data);
+            this.handleUpdatePlayer(ws, clientId, message);
             break;
-            
+          
           case "startGame":
-            this.handleStartGame(clientId, data.roomCode);
+            this.handleStartGame(ws, clientId, message.roomCode);
+            break;
+          
+          case "updateSettings":
+            this.handleUpdateSettings(ws, clientId, message);
+            break;
+          
+          case "kickPlayer":
+            this.handleKickPlayer(ws, clientId, message);
+            break;
+          
+          case "pauseGame":
+            this.handlePauseGame(ws, clientId, message);
+            break;
+          
+          case "resumeGame":
+            this.handleResumeGame(ws, clientId, message);
             break;
-            
+          
+          case "addBot":
+            this.handleAddBot(ws, clientId, message);
+            break;
+          
+          case "removeBot":
+            this.handleRemoveBot(ws, clientId, message);
+            break;
+          
+          case "chat":
+            this.handleChat(ws, clientId, message);
+            break;
+          
           case "gameEvent":
-            this.handleGameEvent(clientId, data);
+            this.handleGameEvent(ws, clientId, message);
             break;
-            
+          
           case "pong":
-            this.handlePongResponse(clientId, data);
+            this.handlePongResponse(clientId, message);
             break;
-            
+          
           case "reconnect":
-            this.handleReconnection(ws, clientId, data);
+            this.handleReconnection(ws, clientId, message);
             break;
-            
+          
           default:
-            console.warn(`Unknown message type: ${data.type}`);
-            this.sendError(ws, `Unknown message type: ${data.type}`);
+            console.warn(`Unknown message type: ${message.type}`);
+            this.sendError(ws, `Unknown message type: ${message.type}`);
         }
       })
       .catch(error => {
@@ -195,12 +357,19 @@ export class SocketServer {
     const { roomCode, playerId, reconnectToken } = data;
     
     if (!roomCode || !this.rooms.has(roomCode) || !playerId || !reconnectToken) {
-      this.sendError(ws, "Invalid reconnection data");
+      this.sendError(ws, "Invalid reconnection data", "RECONNECT_FAILED");
       return;
     }
     
     const room = this.rooms.get(roomCode)!;
     
+    // A seat can only be taken back by the account that held it
+    const seatUserId = room.getPlayer(playerId)?.getUserId() ?? null;
+    if (seatUserId !== null && seatUserId !== this.getAccount(ws)?.userId) {
+      this.sendError(ws, "Reconnection failed: log in as the player who left", "RECONNECT_FAILED");
+      return;
+    }
+    
     // Try to reconnect using token
     if (room.reconnectPlayer && room.reconnectPlayer(playerId, reconnectToken, ws)) {
       // Update the websocket's clientId to match the reconnected playerId
@@ -218,12 +387,13 @@ export class SocketServer {
       // Broadcast room update to all players
       this.broadcastRoomUpdate(roomCode);
     } else {
-      this.sendError(ws, "Reconnection failed: invalid token");
+      this.sendError(ws, "Reconnection failed: invalid token", "RECONNECT_FAILED");
     }
   }
   
   private handleJoinRoom(ws: WebSocket, clientId: string, data: any) {
-    const { roomCode, username } = data;
+    const { roomCode, role, password } = data;
+    const account = this.getAccount(ws);
     
     // Validate room code
     if (!roomCode) {
@@ -231,35 +401,193 @@ export class SocketServer {
       return;
     }
     
-    // Create room if it doesn't exist
-    if (!this.rooms.has(roomCode)) {
-      this.rooms.set(roomCode, new GameRoom(roomCode));
+    // Rooms are created with createRoom or by the quick-match queue, never by joining
+    const room = this.rooms.get(roomCode);
+    if (!room) {
+      this.sendError(ws, "Room not found", "JOIN_FAILED");
+      return;
     }
     
-    const room = this.rooms.get(roomCode)!;
+    if (!room.checkPassword(password)) {
+      this.sendError(ws, password ? "Incorrect password" : "This room needs a password", "PASSWORD_REQUIRED");
+      return;
+    }
+    
+    if (role === "observer") {
+      this.handleJoinAsObserver(ws, clientId, room, account);
+      return;
+    }
+    
+    // Anyone may watch, but players need an account
+    if (!account) {
+      this.sendError(ws, "Log in to join a game", "AUTH_REQUIRED");
+      return;
+    }
+    
+    // A queued player could otherwise be matched into a second game
+    if (this.matchmakingQueue.has(clientId)) {
+      this.sendError(ws, "Leave the quick-match queue before joining a room", "JOIN_FAILED");
+      return;
+    }
+    
+    if (room.hasUser(account.userId)) {
+      this.sendError(ws, "You are already playing in this room", "JOIN_FAILED");
+      return;
+    }
     
     // Check if room is full
     if (room.isFull()) {
-      this.sendError(ws, "Room is full");
+      this.sendError(ws, "Room is full", "JOIN_FAILED");
       return;
     }
     
     // Check if game already started
     if (room.isGameStarted()) {
-      this.sendError(ws, "Game already in progress");
+      this.sendError(ws, "Game already in progress", "JOIN_FAILED");
       return;
     }
     
+    this.addPlayerToRoom(ws, clientId, room, account);
+  }
+  
+  /**
+   * Open a new room with a server-picked code and make its creator the host
+   */
+  private handleCreateRoom(ws: WebSocket, clientId: string, data: any) {
+    const { isPublic, password } = data;
+    const account = this.getAccount(ws);
+    
+    if (!account) {
+      this.sendError(ws, "Log in to host a game", "AUTH_REQUIRED");
+      return;
+    }
+    
+    if (this.matchmakingQueue.has(clientId)) {
+      this.sendError(ws, "Leave the quick-match queue before creating a room");
+      return;
+    }
+    
+    const options: RoomOptions = { isPublic, password: password || null, ranked: false };
+    const room = this.createRoom(options);
+    
+    console.log(`Room ${room.getRoomCode()} created (${isPublic ? "public" : "private"}${password ? ", password" : ""})`);
+    
+    this.addPlayerToRoom(ws, clientId, room, account);
+  }
+  
+  /**
+   * Wait for a quick match; once enough players are waiting they are put in a new private room together
+   */
+  private async handleJoinQueue(ws: WebSocket, clientId: string) {
+    const account = this.getAccount(ws);
+    if (!account) {
+      this.sendError(ws, "Log in to find a quick match", "AUTH_REQUIRED");
+      return;
+    }
+    
+    let rating = DEFAULT_RATING;
+    try {
+      rating = (await storage.getRatings(account.userId)).find(entry => entry.category === "overall")?.rating ?? DEFAULT_RATING;
+    } catch (error) {
+      console.error(`Error loading rating for user ${account.userId}:`, error);
+    }
+    
+    if (this.isInRoom(clientId)) {
+      this.sendError(ws, "Leave your room before looking for a quick match");
+      return;
+    }
+    
+    const queued = { clientId, userId: account.userId, username: account.username, rating, joinedAt: Date.now(), socket: ws };
+    if (!this.matchmakingQueue.add(queued)) {
+      this.sendError(ws, "You are already looking for a quick match");
+      return;
+    }
+    
+    this.createQueuedMatches();
+  }
+  
+  /**
+   * Put every group of queued players the queue can match into a new private room
+   */
+  private createQueuedMatches() {
+    let match = this.matchmakingQueue.takeMatch();
+    while (match) {
+      const room = this.createRoom({ isPublic: false, password: null, ranked: true });
+      
+      match.forEach(queued => {
+        this.sendToClient(queued.socket, {
+          type: "matchFound",
+          roomCode: room.getRoomCode()
+        });
+        this.addPlayerToRoom(queued.socket, queued.clientId, room, queued);
+      });
+      
+      console.log(`Quick match created room ${room.getRoomCode()} for ${match.length} players`);
+      match = this.matchmakingQueue.takeMatch();
+    }
+  }
+  
+  private createRoom(options: RoomOptions): GameRoom {
+    const room = new GameRoom(this.generateRoomCode(), options);
+    this.rooms.set(room.getRoomCode(), room);
+    return room;
+  }
+  
+  private addPlayerToRoom(ws: WebSocket, clientId: string, room: GameRoom, account: SocketAccount) {
     // Create player
-    const player = new Player(clientId, username || `Player${clientId.substring(0, 4)}`);
+    const player = new Player(clientId, account.username, account.userId);
     
     // Add player to room
     room.addPlayer(player, ws);
     
     // Send room state to all players
+    this.broadcastRoomUpdate(room.getRoomCode());
+    room.sendSystemMessage(`${player.getUsername()} joined the room`);
+    
+    console.log(`Player ${clientId} joined room ${room.getRoomCode()}`);
+  }
+  
+  /**
+   * Public rooms for the room browser; rooms in a match are listed so they can be watched
+   */
+  listRooms(): RoomListing[] {
+    return Array.from(this.rooms.values())
+      .filter(room => room.isPublic() && !room.isEmpty())
+      .map(room => room.getListing());
+  }
+  
+  /**
+   * Join a room as an observer; unlike players, observers may join full rooms and matches in progress
+   */
+  private handleJoinAsObserver(ws: WebSocket, clientId: string, room: GameRoom, account: SocketAccount | null) {
+    const roomCode = room.getRoomCode();
+    
+    // Watching a match you play in, even from another tab, would show the whole map
+    if (room.hasPlayer(clientId) || (account && room.hasUser(account.userId))) {
+      this.sendError(ws, "You can't watch a room you are playing in", "JOIN_FAILED");
+      return;
+    }
+    
+    if (this.matchmakingQueue.has(clientId)) {
+      this.sendError(ws, "Leave the quick-match queue before watching a game", "JOIN_FAILED");
+      return;
+    }
+    
+    if (this.isInRoom(clientId)) {
+      this.sendError(ws, "Leave your room before watching another game", "JOIN_FAILED");
+      return;
+    }
+    
+    const observerName = account?.username || `Observer${clientId.substring(0, 4)}`;
+    if (!room.addObserver(clientId, observerName, ws)) {
+      this.sendError(ws, "Room has no observer slots left", "JOIN_FAILED");
+      return;
+    }
+    
     this.broadcastRoomUpdate(roomCode);
+    room.sendSystemMessage(`${observerName} is now watching`);
     
-    console.log(`Player ${clientId} joined room ${roomCode}`);
+    console.log(`Observer ${clientId} joined room ${roomCode}`);
   }
   
   private handleLeaveRoom(clientId: string, roomCode: string) {
@@ -269,41 +597,76 @@ export class SocketServer {
     
     const room = this.rooms.get(roomCode)!;
     
+    if (room.removeObserver(clientId)) {
+      this.broadcastRoomUpdate(roomCode);
+      console.log(`Observer ${clientId} left room ${roomCode}`);
+      return;
+    }
+    
     // Remove player from room
+    const username = room.getPlayer(clientId)?.getUsername();
+    const wasHost = room.isHost(clientId);
     room.removePlayer(clientId);
     
     // If room is empty, remove it
     if (room.isEmpty()) {
       this.rooms.delete(roomCode);
+      room.discardSavedMatch();
       console.log(`Room ${roomCode} removed (empty)`);
     } else {
       // Otherwise, broadcast room update
       this.broadcastRoomUpdate(roomCode);
+      if (username) {
+        room.sendSystemMessage(`${username} left the room`);
+      }
+      
+      const newHostId = room.getHostId();
+      if (wasHost && newHostId) {
+        room.sendSystemMessage(`${room.getPlayer(newHostId)!.getUsername()} is now the host`);
+      }
     }
     
     console.log(`Player ${clientId} left room ${roomCode}`);
   }
   
-  private handleUpdatePlayer(clientId: string, data: any) {
-    const { roomCode, faction, ready } = data;
+  private handleUpdatePlayer(ws: WebSocket, clientId: string, data: any) {
+    const { roomCode, botId, faction, team, ready } = data;
     
     if (!roomCode || !this.rooms.has(roomCode)) {
       return;
     }
     
     const room = this.rooms.get(roomCode)!;
-    const player = room.getPlayer(clientId);
+    
+    // The host sets up bots the same way players set up themselves
+    if (botId !== undefined && (!room.isHost(clientId) || !room.isBot(botId))) {
+      this.sendError(ws, "Only the host can change a bot");
+      return;
+    }
+    
+    const player = room.getPlayer(botId ?? clientId);
     
     if (!player) {
       return;
     }
     
+    // Factions and alliances are fixed once the match starts; reject before changing anything
+    if ((faction !== undefined || team !== undefined) && room.isGameStarted()) {
+      this.sendError(ws, "Faction and team cannot change during a game");
+      return;
+    }
+    
     // Update player data
     if (faction !== undefined) {
       player.setFaction(faction);
     }
     
-    if (ready !== undefined) {
+    if (team !== undefined) {
+      player.setTeam(team);
+    }
+    
+    // Bots are always ready
+    if (ready !== undefined && botId === undefined) {
       player.setReady(ready);
     }
     
@@ -311,20 +674,21 @@ export class SocketServer {
     this.broadcastRoomUpdate(roomCode);
   }
   
-  private handleStartGame(clientId: string, roomCode: string) {
+  private handleStartGame(ws: WebSocket, clientId: string, roomCode: string) {
     if (!roomCode || !this.rooms.has(roomCode)) {
       return;
     }
     
     const room = this.rooms.get(roomCode)!;
     
+    if (!room.isHost(clientId)) {
+      this.sendError(ws, "Only the host can start the game");
+      return;
+    }
+    
     // Check if game can be started
     if (!room.canStartGame()) {
-      // Find the host's socket
-      const hostSocket = room.getPlayerSocket(clientId);
-      if (hostSocket) {
-        this.sendError(hostSocket, "Cannot start game: not all players are ready");
-      }
+      this.sendError(ws, "Cannot start game: not all players are ready, or everyone is on the same team");
       return;
     }
     
@@ -340,8 +704,170 @@ export class SocketServer {
     console.log(`Game started in room ${roomCode}`);
   }
   
-  private handleGameEvent(clientId: string, data: any) {
-    const { roomCode, eventType, ...eventData } = data;
+  /**
+   * Let the host change the next match's settings; players have to ready up again
+   */
+  private handleUpdateSettings(ws: WebSocket, clientId: string, data: any) {
+    const { roomCode, settings } = data;
+    
+    const room = this.rooms.get(roomCode);
+    if (!room) {
+      this.sendError(ws, "Room not found");
+      return;
+    }
+    
+    if (!room.isHost(clientId)) {
+      this.sendError(ws, "Only the host can change the match settings");
+      return;
+    }
+    
+    if (!room.updateSettings(settings)) {
+      this.sendError(ws, "Settings cannot change during a game");
+      return;
+    }
+    
+    this.broadcastRoomUpdate(roomCode);
+    room.sendSystemMessage("The host changed the match settings");
+  }
+  
+  /**
+   * Let the host remove a player from the lobby, or an observer at any time
+   */
+  private handleKickPlayer(ws: WebSocket, clientId: string, data: any) {
+    const { roomCode, playerId } = data;
+    
+    const room = this.rooms.get(roomCode);
+    if (!room) {
+      this.sendError(ws, "Room not found");
+      return;
+    }
+    
+    if (!room.isHost(clientId)) {
+      this.sendError(ws, "Only the host can kick players");
+      return;
+    }
+    
+    if (playerId === clientId) {
+      this.sendError(ws, "The host cannot kick themselves");
+      return;
+    }
+    
+    const username = room.getPlayer(playerId)?.getUsername();
+    if (!room.kick(playerId)) {
+      this.sendError(ws, room.isBot(playerId) ? "Use remove bot to free a bot's slot" : "Player not found or game already in progress");
+      return;
+    }
+    
+    this.broadcastRoomUpdate(roomCode);
+    if (username) {
+      room.sendSystemMessage(`${username} was kicked by the host`);
+    }
+    
+    console.log(`${playerId} kicked from room ${roomCode}`);
+  }
+  
+  private handlePauseGame(ws: WebSocket, clientId: string, data: any) {
+    const room = this.rooms.get(data.roomCode);
+    if (!room || !room.hasPlayer(clientId)) {
+      this.sendError(ws, "Not in that room");
+      return;
+    }
+    
+    // The room announces the pause itself
+    if (!room.pauseGame(clientId)) {
+      if (!room.isGameStarted()) {
+        this.sendError(ws, "There is no game to pause");
+      } else if (room.isPaused()) {
+        this.sendError(ws, "The game is already paused");
+      } else if (room.getPausesLeft(clientId) === 0) {
+        this.sendError(ws, "You have no pauses left");
+      } else {
+        this.sendError(ws, "You cannot pause this game");
+      }
+    }
+  }
+  
+  private handleResumeGame(ws: WebSocket, clientId: string, data: any) {
+    const room = this.rooms.get(data.roomCode);
+    if (!room || !room.hasPlayer(clientId)) {
+      this.sendError(ws, "Not in that room");
+      return;
+    }
+    
+    if (!room.resumeGame(clientId)) {
+      this.sendError(ws, room.isPaused() ? "You cannot resume this game" : "The game is not paused");
+    }
+  }
+  
+  /**
+   * Let the host fill an empty slot with a bot before the match starts
+   */
+  private handleAddBot(ws: WebSocket, clientId: string, data: any) {
+    const { roomCode, difficulty, faction } = data;
+    
+    const room = this.rooms.get(roomCode);
+    if (!room) {
+      this.sendError(ws, "Room not found");
+      return;
+    }
+    
+    if (!room.isHost(clientId)) {
+      this.sendError(ws, "Only the host can add bots");
+      return;
+    }
+    
+    const bot = room.addBot(difficulty, faction);
+    if (!bot) {
+      this.sendError(ws, room.isGameStarted() ? "Game already in progress" : "Room is full");
+      return;
+    }
+    
+    this.broadcastRoomUpdate(roomCode);
+    
+    console.log(`Bot ${bot.id} (${difficulty}) added to room ${roomCode}`);
+  }
+  
+  private handleRemoveBot(ws: WebSocket, clientId: string, data: any) {
+    const { roomCode, botId } = data;
+    
+    const room = this.rooms.get(roomCode);
+    if (!room) {
+      this.sendError(ws, "Room not found");
+      return;
+    }
+    
+    if (!room.isHost(clientId)) {
+      this.sendError(ws, "Only the host can remove bots");
+      return;
+    }
+    
+    if (!room.removeBot(botId)) {
+      this.sendError(ws, "Bot not found or game already in progress");
+      return;
+    }
+    
+    this.broadcastRoomUpdate(roomCode);
+    
+    console.log(`Bot ${botId} removed from room ${roomCode}`);
+  }
+  
+  private handleChat(ws: WebSocket, clientId: string, data: any) {
+    const { roomCode, scope, text } = data;
+    
+    const room = this.rooms.get(roomCode);
+    if (!room || (!room.hasPlayer(clientId) && !room.hasObserver(clientId))) {
+      this.sendError(ws, "Not in that room");
+      return;
+    }
+    
+    // Refusals, such as rate limiting, are answered by the room as system chat
+    room.sendChat(clientId, scope, text);
+  }
+  
+  private handleGameEvent(ws: WebSocket, clientId: string, data: any) {
+    // The message's own type ("gameEvent") and any claimed player ID never reach the event;
+    // events always act as the client that sent them
+    const { roomCode, eventType, type, playerId, ...eventData } = data;
     
     if (!roomCode || !this.rooms.has(roomCode)) {
       return;
@@ -349,23 +875,59 @@ export class SocketServer {
     
     const room = this.rooms.get(roomCode)!;
     
+    // Observers watch; they never act in the match
+    if (room.hasObserver(clientId)) {
+      this.sendError(ws, "Observers cannot send game events");
+      return;
+    }
+    
     // Process the game event
     room.processGameEvent({
+      ...eventData,
       playerId: clientId,
-      type: eventType,
-      ...eventData
+      type: eventType
     });
   }
   
-  private handleClientDisconnect(clientId: string) {
+  private handleClientDisconnect(ws: WebSocket, clientId: string) {
+    this.matchmakingQueue.remove(clientId);
+    
     // Check all rooms for this client
     this.rooms.forEach((room, roomCode) => {
       if (room.hasPlayer(clientId)) {
+        // The player has already reconnected on a new socket
+        if (room.getPlayerSocket(clientId) !== ws) {
+          return;
+        }
+        
+        // Players in a match keep their place for a while; they forfeit if they don't come back
+        const deadline = room.disconnectPlayer(clientId);
+        if (deadline !== null) {
+          setTimeout(() => this.expireDisconnect(room, clientId, deadline), deadline - Date.now());
+          console.log(`Player ${clientId} disconnected from a match in room ${roomCode}`);
+          return;
+        }
+      }
+      
+      if (room.hasPlayer(clientId) || room.hasObserver(clientId)) {
         this.handleLeaveRoom(clientId, roomCode);
       }
     });
   }
   
+  /**
+   * Remove a player whose grace period has ended, unless they reconnected in the meantime
+   */
+  private expireDisconnect(room: GameRoom, playerId: string, deadline: number) {
+    const roomCode = room.getRoomCode();
+    if (this.rooms.get(roomCode) !== room || room.getReconnectDeadline(playerId) !== deadline) {
+      return;
+    }
+    
+    console.log(`Player ${playerId} did not reconnect to room ${roomCode} in time`);
+    this.handleLeaveRoom(playerId, roomCode);
+  }
+  
   private broadcastRoomUpdate(roomCode: string) {
     if (!this.rooms.has(roomCode)) {
       return;
@@ -385,18 +947,27 @@ export class SocketServer {
     }
   }
   
-  private sendError(ws: WebSocket, message: string) {
+  private sendError(ws: WebSocket, message: string, code?: ErrorCode) {
     this.sendToClient(ws, {
       type: "error",
-      message
+      message,
+      ...(code ? { code } : {})
     });
   }
   
   private generateClientId(): string {
     return Math.random().toString(36).substring(2, 15);
   }
+  
+  private generateRoomCode(): string {
+    let roomCode: string;
+    do {
+      roomCode = Math.random().toString(36).substring(2, 8).toUpperCase().padEnd(6, "0");
+    } while (this.rooms.has(roomCode));
+    return roomCode;
+  }
 }
 
-export function setupSocketServer(server: Server): SocketServer {
-  return new SocketServer(server);
+export function setupSocketServer(server: Server, sessionParser?: RequestHandler): SocketServer {
+  return new SocketServer(server, sessionParser);
 }
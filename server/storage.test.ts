@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { DbStorage, IStorage, MemStorage } from "./storage";
+import * as schema from "@shared/schema";
+import type { InsertMatchParticipant } from "@shared/schema";
+import type { SavedRoom } from "./game/GameRoom";
+
+// drizzle-kit's API only loads as CommonJS
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)("drizzle-kit/api");
+
+/**
+ * The SQL `npm run db:push` would run against an empty database
+ */
+async function getSchemaStatements(): Promise<string[]> {
+  return generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+}
+
+function createParticipant(userId: number | null, username: string): InsertMatchParticipant {
+  return {
+    userId,
+    username,
+    isBot: userId === null,
+    faction: "Nephites",
+    team: null,
+    result: "draw",
+    unitsProduced: 0,
+    unitsLost: 0,
+    unitsKilled: 0,
+    buildingsDestroyed: 0,
+    buildingsLost: 0,
+    foodGathered: 0,
+    oreGathered: 0,
+    techsResearched: 0
+  };
+}
+
+/**
+ * Record matches one minute apart, oldest first; the user plays in every other one
+ */
+async function recordMatches(storage: IStorage, count: number, userId: number) {
+  for (let i = 0; i < count; i++) {
+    const participants = [createParticipant(null, "Bot")];
+    if (i % 2 === 0) {
+      participants.push(createParticipant(userId, "alice"));
+    }
+    await storage.createMatch(
+      { roomCode: `ROOM${i}`, seed: i, duration: 60000, endedAt: new Date(Date.UTC(2024, 0, 1, 0, i)) },
+      participants
+    );
+  }
+}
+
+/**
+ * The same checks for every IStorage implementation
+ * @param createStorage Gives an empty storage for each test
+ */
+function describeStorage(name: string, createStorage: () => Promise<IStorage>) {
+  describe(name, () => {
+    let storage: IStorage;
+    let userId: number;
+
+    beforeEach(async () => {
+      storage = await createStorage();
+      userId = (await storage.createUser({ username: "alice", password: "hash" })).id;
+    });
+
+    it("finds users by ID and username", async () => {
+      expect(await storage.getUser(userId)).toMatchObject({ username: "alice" });
+      expect(await storage.getUserByUsername("alice")).toMatchObject({ id: userId });
+      expect(await storage.getUserByUsername("bob")).toBeUndefined();
+    });
+
+    it("returns the newest matches first, up to the limit, with their participants", async () => {
+      await recordMatches(storage, 5, userId);
+
+      const recent = await storage.getMatches(3);
+
+      expect(recent.map(match => match.roomCode)).toEqual(["ROOM4", "ROOM3", "ROOM2"]);
+      expect(recent[0].participants.map(participant => participant.username)).toEqual(["Bot", "alice"]);
+      expect(recent[1].participants.map(participant => participant.username)).toEqual(["Bot"]);
+    });
+
+    it("returns only the user's matches for their history", async () => {
+      await recordMatches(storage, 5, userId);
+
+      const history = await storage.getUserMatches(userId, 10);
+
+      expect(history.map(match => match.roomCode)).toEqual(["ROOM4", "ROOM2", "ROOM0"]);
+    });
+
+    it.each([0, -1])("returns no matches for a limit of %i", async limit => {
+      await recordMatches(storage, 5, userId);
+
+      expect(await storage.getMatches(limit)).toEqual([]);
+      expect(await storage.getUserMatches(userId, limit)).toEqual([]);
+    });
+
+    it("replaces a user's rating in the same category", async () => {
+      await storage.saveRating({ userId, category: "overall", rating: 1000, gamesPlayed: 0, wins: 0, losses: 0 });
+      await storage.saveRating({ userId, category: "overall", rating: 1016, gamesPlayed: 1, wins: 1, losses: 0 });
+      await storage.saveRating({ userId, category: "Nephites", rating: 1016, gamesPlayed: 1, wins: 1, losses: 0 });
+
+      const ratings = await storage.getRatings(userId);
+
+      expect(ratings).toHaveLength(2);
+      expect(ratings.find(rating => rating.category === "overall")).toMatchObject({ rating: 1016, gamesPlayed: 1 });
+    });
+
+    it("pages the leaderboard best first", async () => {
+      const bobId = (await storage.createUser({ username: "bob", password: "hash" })).id;
+      const carolId = (await storage.createUser({ username: "carol", password: "hash" })).id;
+      await storage.saveRating({ userId, category: "overall", rating: 1100, gamesPlayed: 3, wins: 2, losses: 1 });
+      await storage.saveRating({ userId: bobId, category: "overall", rating: 1200, gamesPlayed: 3, wins: 3, losses: 0 });
+      await storage.saveRating({ userId: carolId, category: "overall", rating: 1100, gamesPlayed: 5, wins: 3, losses: 2 });
+
+      const firstPage = await storage.getLeaderboard("overall", 2, 0);
+      const secondPage = await storage.getLeaderboard("overall", 2, 2);
+
+      expect(firstPage.total).toBe(3);
+      expect(firstPage.entries.map(entry => entry.username)).toEqual(["bob", "carol"]);
+      expect(secondPage.entries.map(entry => entry.username)).toEqual(["alice"]);
+    });
+
+    it("keeps one save per room until it is deleted", async () => {
+      const save = (tick: number) => ({ roomCode: "ABCD", tick } as unknown as SavedRoom);
+
+      await storage.saveRoom(save(1));
+      await storage.saveRoom(save(2));
+      expect(await storage.getSavedRooms()).toEqual([save(2)]);
+
+      await storage.deleteSavedRoom("ABCD");
+      expect(await storage.getSavedRooms()).toEqual([]);
+    });
+  });
+}
+
+describeStorage("MemStorage", async () => new MemStorage());
+
+// DbStorage runs against Postgres compiled to WebAssembly, in memory, with the tables db:push would create;
+// starting it is slow, so the tests share one database and empty it in between
+let database: PGlite | null = null;
+
+describeStorage("DbStorage", async () => {
+  if (!database) {
+    database = new PGlite();
+    for (const statement of await getSchemaStatements()) {
+      await database.exec(statement);
+    }
+  } else {
+    await database.exec("TRUNCATE users, matches, match_participants, ratings, saved_rooms RESTART IDENTITY CASCADE");
+  }
+  return new DbStorage(drizzle(database, { schema }));
+});
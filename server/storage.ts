@@ -1,4 +1,32 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import * as schema from "@shared/schema";
+import {
+  users,
+  matches,
+  matchParticipants,
+  ratings,
+  savedRooms,
+  type User,
+  type InsertUser,
+  type Match,
+  type InsertMatch,
+  type MatchParticipant,
+  type InsertMatchParticipant,
+  type MatchRecord,
+  type Rating,
+  type InsertRating
+} from "@shared/schema";
+import type { RatingCategory } from "@shared/types";
+import type { SavedRoom } from "./game/GameRoom";
+import { asc, count, desc, eq, inArray } from "drizzle-orm";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import { drizzle as drizzleNodePostgres } from "drizzle-orm/node-postgres";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import { drizzle as drizzlePglite } from "drizzle-orm/pglite";
+import { Pool as NeonPool, neonConfig } from "@neondatabase/serverless";
+import { PGlite } from "@electric-sql/pglite";
+import pg from "pg";
+import ws from "ws";
+import { config, getDatabaseUrl } from "./config";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -7,15 +35,54 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  createMatch(match: InsertMatch, participants: InsertMatchParticipant[]): Promise<MatchRecord>;
+  // Newest first; a limit of zero or less returns no matches
+  getMatches(limit: number): Promise<MatchRecord[]>;
+  getUserMatches(userId: number, limit: number): Promise<MatchRecord[]>;
+  // Every category the user has a rating in
+  getRatings(userId: number): Promise<Rating[]>;
+  // Creates the rating, or replaces the user's rating in that category
+  saveRating(rating: InsertRating): Promise<Rating>;
+  // Best rated first; total counts every rated user in the category
+  getLeaderboard(category: RatingCategory, limit: number, offset: number): Promise<RatingPage>;
+  // Creates the save, or replaces the room's previous one
+  saveRoom(room: SavedRoom): Promise<void>;
+  getSavedRooms(): Promise<SavedRoom[]>;
+  deleteSavedRoom(roomCode: string): Promise<void>;
+}
+
+export interface RatingPage {
+  total: number;
+  entries: Array<Rating & { username: string }>;
+}
+
+/**
+ * Leaderboard order: rating, then experience, then whoever registered first
+ */
+function compareRatings(a: Rating, b: Rating): number {
+  return b.rating - a.rating || b.gamesPlayed - a.gamesPlayed || a.userId - b.userId;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private matches: MatchRecord[];
+  // "userId:category" -> rating
+  private ratings: Map<string, Rating>;
+  private savedRooms: Map<string, SavedRoom>;
   currentId: number;
+  private nextMatchId: number;
+  private nextParticipantId: number;
+  private nextRatingId: number;
 
   constructor() {
     this.users = new Map();
+    this.matches = [];
+    this.ratings = new Map();
+    this.savedRooms = new Map();
     this.currentId = 1;
+    this.nextMatchId = 1;
+    this.nextParticipantId = 1;
+    this.nextRatingId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -34,6 +101,263 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async createMatch(insertMatch: InsertMatch, participants: InsertMatchParticipant[]): Promise<MatchRecord> {
+    const matchId = this.nextMatchId++;
+    const record: MatchRecord = {
+      id: matchId,
+      roomCode: insertMatch.roomCode,
+      seed: insertMatch.seed,
+      duration: insertMatch.duration,
+      winningTeam: insertMatch.winningTeam ?? null,
+      endedAt: insertMatch.endedAt ?? new Date(),
+      participants: participants.map(participant => ({
+        ...participant,
+        id: this.nextParticipantId++,
+        matchId,
+        userId: participant.userId ?? null,
+        isBot: participant.isBot ?? false,
+        team: participant.team ?? null,
+        ratingChange: participant.ratingChange ?? null
+      }))
+    };
+    this.matches.push(record);
+    return record;
+  }
+
+  async getMatches(limit: number): Promise<MatchRecord[]> {
+    return this.newestMatches(this.matches, limit);
+  }
+
+  async getUserMatches(userId: number, limit: number): Promise<MatchRecord[]> {
+    const played = this.matches.filter(match => match.participants.some(participant => participant.userId === userId));
+    return this.newestMatches(played, limit);
+  }
+
+  // slice(-0) would return every match, where a database LIMIT 0 returns none
+  private newestMatches(records: MatchRecord[], limit: number): MatchRecord[] {
+    if (limit <= 0) {
+      return [];
+    }
+    return records.slice(-limit).reverse();
+  }
+
+  async getRatings(userId: number): Promise<Rating[]> {
+    return Array.from(this.ratings.values()).filter(rating => rating.userId === userId);
+  }
+
+  async saveRating(insertRating: InsertRating): Promise<Rating> {
+    const key = `${insertRating.userId}:${insertRating.category}`;
+    const rating: Rating = {
+      id: this.ratings.get(key)?.id ?? this.nextRatingId++,
+      userId: insertRating.userId,
+      category: insertRating.category,
+      rating: insertRating.rating,
+      gamesPlayed: insertRating.gamesPlayed ?? 0,
+      wins: insertRating.wins ?? 0,
+      losses: insertRating.losses ?? 0,
+      draws: insertRating.draws ?? 0,
+      updatedAt: new Date()
+    };
+    this.ratings.set(key, rating);
+    return rating;
+  }
+
+  async getLeaderboard(category: RatingCategory, limit: number, offset: number): Promise<RatingPage> {
+    const rated = Array.from(this.ratings.values())
+      .filter(rating => rating.category === category)
+      .sort(compareRatings);
+    return {
+      total: rated.length,
+      entries: rated.slice(offset, offset + limit).map(rating => ({
+        ...rating,
+        username: this.users.get(rating.userId)?.username ?? ""
+      }))
+    };
+  }
+
+  async saveRoom(room: SavedRoom): Promise<void> {
+    this.savedRooms.set(room.roomCode, room);
+  }
+
+  async getSavedRooms(): Promise<SavedRoom[]> {
+    return Array.from(this.savedRooms.values());
+  }
+
+  async deleteSavedRoom(roomCode: string): Promise<void> {
+    this.savedRooms.delete(roomCode);
+  }
+}
+
+/**
+ * A drizzle database over shared/schema.ts, whichever Postgres driver it runs on
+ */
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+/**
+ * Storage in the Postgres database described by shared/schema.ts; create the tables with `npm run db:push`
+ */
+export class DbStorage implements IStorage {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async createMatch(insertMatch: InsertMatch, participants: InsertMatchParticipant[]): Promise<MatchRecord> {
+    return this.db.transaction(async (tx) => {
+      const [match] = await tx.insert(matches).values(insertMatch).returning();
+      const rows = participants.length > 0
+        ? await tx.insert(matchParticipants)
+          .values(participants.map(participant => ({ ...participant, matchId: match.id })))
+          .returning()
+        : [];
+      return { ...match, participants: rows };
+    });
+  }
+
+  async getMatches(limit: number): Promise<MatchRecord[]> {
+    // Postgres rejects a negative LIMIT
+    if (limit <= 0) {
+      return [];
+    }
+    const rows = await this.db.select().from(matches).orderBy(desc(matches.endedAt), desc(matches.id)).limit(limit);
+    return this.withParticipants(rows);
+  }
+
+  async getUserMatches(userId: number, limit: number): Promise<MatchRecord[]> {
+    if (limit <= 0) {
+      return [];
+    }
+    const played = this.db.select({ matchId: matchParticipants.matchId })
+      .from(matchParticipants)
+      .where(eq(matchParticipants.userId, userId));
+    const rows = await this.db.select().from(matches)
+      .where(inArray(matches.id, played))
+      .orderBy(desc(matches.endedAt), desc(matches.id))
+      .limit(limit);
+    return this.withParticipants(rows);
+  }
+
+  async getRatings(userId: number): Promise<Rating[]> {
+    return this.db.select().from(ratings).where(eq(ratings.userId, userId));
+  }
+
+  async saveRating(insertRating: InsertRating): Promise<Rating> {
+    const [rating] = await this.db.insert(ratings)
+      .values(insertRating)
+      .onConflictDoUpdate({
+        target: [ratings.userId, ratings.category],
+        set: { ...insertRating, updatedAt: new Date() }
+      })
+      .returning();
+    return rating;
+  }
+
+  async getLeaderboard(category: RatingCategory, limit: number, offset: number): Promise<RatingPage> {
+    const [{ total }] = await this.db.select({ total: count() }).from(ratings).where(eq(ratings.category, category));
+    const rows = await this.db.select({ rating: ratings, username: users.username })
+      .from(ratings)
+      .innerJoin(users, eq(ratings.userId, users.id))
+      .where(eq(ratings.category, category))
+      .orderBy(desc(ratings.rating), desc(ratings.gamesPlayed), asc(ratings.userId))
+      .limit(limit)
+      .offset(offset);
+    return {
+      total,
+      entries: rows.map(row => ({ ...row.rating, username: row.username }))
+    };
+  }
+
+  async saveRoom(room: SavedRoom): Promise<void> {
+    await this.db.insert(savedRooms)
+      .values({ roomCode: room.roomCode, data: room })
+      .onConflictDoUpdate({
+        target: savedRooms.roomCode,
+        set: { data: room, updatedAt: new Date() }
+      });
+  }
+
+  async getSavedRooms(): Promise<SavedRoom[]> {
+    const rows = await this.db.select().from(savedRooms);
+    return rows.map(row => row.data as SavedRoom);
+  }
+
+  async deleteSavedRoom(roomCode: string): Promise<void> {
+    await this.db.delete(savedRooms).where(eq(savedRooms.roomCode, roomCode));
+  }
+
+  private async withParticipants(rows: Match[]): Promise<MatchRecord[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const participants: MatchParticipant[] = await this.db.select().from(matchParticipants)
+      .where(inArray(matchParticipants.matchId, rows.map(match => match.id)))
+      .orderBy(matchParticipants.id);
+    return rows.map(match => ({
+      ...match,
+      participants: participants.filter(participant => participant.matchId === match.id)
+    }));
+  }
+}
+
+/**
+ * Connect to Postgres; Neon databases go through Neon's serverless driver, and any other
+ * server, such as a local Postgres for development and testing, through node-postgres
+ */
+function connectDatabase(url: string): Database {
+  if (new URL(url).hostname.endsWith(".neon.tech")) {
+    neonConfig.webSocketConstructor = ws;
+    return drizzleNeon(new NeonPool({ connectionString: url }), { schema });
+  }
+
+  return drizzleNodePostgres(new pg.Pool({ connectionString: url }), { schema });
+}
+
+/**
+ * Postgres running inside the server process, kept in a local directory, for development without a database server
+ * Create its tables with `STORAGE=pglite npm run db:push`
+ */
+function openPglite(dataDir: string): Database {
+  return drizzlePglite(new PGlite(dataDir), { schema });
+}
+
+/**
+ * Use the database server when STORAGE says so, or by default whenever DATABASE_URL is set
+ */
+export function usesDatabaseStorage(): boolean {
+  return config.STORAGE ? config.STORAGE === "database" : Boolean(config.DATABASE_URL);
+}
+
+function createStorage(): IStorage {
+  // Sessions can't reach an in-process database, so they stay in memory with pglite
+  if (config.STORAGE === "pglite") {
+    console.log(`Using in-process database storage in ${config.PGLITE_DATA_DIR}`);
+    return new DbStorage(openPglite(config.PGLITE_DATA_DIR));
+  }
+
+  if (!usesDatabaseStorage()) {
+    return new MemStorage();
+  }
+
+  console.log("Using database storage");
+  return new DbStorage(connectDatabase(getDatabaseUrl()));
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
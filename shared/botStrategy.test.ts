@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { BotBuilding, BotStrategy, BotUnit, BotView } from "./botStrategy";
+import { STARTING_POSITIONS } from "./mapGeneration";
+import { AI_DIFFICULTY_SETTINGS, MAP_SIZE } from "../client/src/game/config";
+import { MapTile } from "../client/src/game/types";
+
+const HOME = STARTING_POSITIONS[0];
+
+function createMap(): MapTile[][] {
+  return Array.from({ length: MAP_SIZE }, (_, y) =>
+    Array.from({ length: MAP_SIZE }, (_, x) => ({ x, y, type: "grass" as const, walkable: true, resource: null }))
+  );
+}
+
+function createWorker(id: string, overrides: Partial<BotUnit> = {}): BotUnit {
+  return {
+    id,
+    type: "worker",
+    x: HOME.x + 1,
+    y: HOME.y + 1,
+    isGathering: false,
+    isMoving: false,
+    isAttacking: false,
+    carryingResource: false,
+    ...overrides
+  };
+}
+
+/**
+ * A two-player view where the bot has only its city center at the first starting position
+ */
+function createView(overrides: Partial<BotView> = {}): BotView {
+  const cityCenter: BotBuilding = { id: "cc", type: "cityCenter", x: HOME.x, y: HOME.y, queueLength: 0 };
+  return {
+    map: createMap(),
+    playerCount: 2,
+    resources: { food: 500, ore: 500 },
+    units: [],
+    buildings: [cityCenter],
+    alliedCityCenters: [cityCenter],
+    enemyUnits: [],
+    enemyBuildings: [],
+    researchableTechs: [],
+    ...overrides
+  };
+}
+
+/**
+ * A strategy whose next advance is a think
+ */
+function createStrategy(): BotStrategy {
+  const strategy = new BotStrategy("Test bot", "normal");
+  strategy.advance(AI_DIFFICULTY_SETTINGS.normal.thinkInterval);
+  return strategy;
+}
+
+describe("BotStrategy", () => {
+  it("only thinks once per think interval", () => {
+    const strategy = new BotStrategy("Test bot", "normal");
+    const { thinkInterval } = AI_DIFFICULTY_SETTINGS.normal;
+
+    expect(strategy.advance(thinkInterval - 1)).toBe(false);
+    expect(strategy.advance(1)).toBe(true);
+    expect(strategy.advance(1)).toBe(false);
+  });
+
+  it("does nothing without a city center", () => {
+    expect(createStrategy().think(createView({ buildings: [] }))).toEqual([]);
+  });
+
+  it("queues a worker at the city center while below the worker target", () => {
+    const orders = createStrategy().think(createView());
+
+    expect(orders).toContainEqual({ type: "train", buildingId: "cc", unitType: "worker" });
+  });
+
+  it("leaves a full production queue alone", () => {
+    const { maxProductionQueue } = AI_DIFFICULTY_SETTINGS.normal;
+    const cityCenter: BotBuilding = { id: "cc", type: "cityCenter", x: HOME.x, y: HOME.y, queueLength: maxProductionQueue };
+
+    const orders = createStrategy().think(createView({ buildings: [cityCenter] }));
+
+    expect(orders.filter(order => order.type === "train")).toEqual([]);
+  });
+
+  it("stops training workers it can't afford", () => {
+    const orders = createStrategy().think(createView({ resources: { food: 0, ore: 0 } }));
+
+    expect(orders.filter(order => order.type === "train")).toEqual([]);
+  });
+
+  it("sends idle workers to the nearest resource, at most two per tile", () => {
+    const map = createMap();
+    map[HOME.y][HOME.x + 3].resource = { type: "food", amount: 100 };
+    map[HOME.y][HOME.x + 6].resource = { type: "food", amount: 100 };
+    const workers = ["w1", "w2", "w3"].map(id => createWorker(id));
+
+    const orders = createStrategy().think(createView({ map, units: workers, resources: { food: 0, ore: 0 } }));
+
+    expect(orders.filter(order => order.type === "gather")).toEqual([
+      { type: "gather", unitId: "w1", x: HOME.x + 3, y: HOME.y },
+      { type: "gather", unitId: "w2", x: HOME.x + 3, y: HOME.y },
+      { type: "gather", unitId: "w3", x: HOME.x + 6, y: HOME.y }
+    ]);
+  });
+
+  it("pulls idle soldiers back to the nearest enemy near the city center", () => {
+    const soldier = { ...createWorker("s1"), type: "melee" };
+    const enemyUnits = [
+      { id: "far", x: HOME.x + 8, y: HOME.y },
+      { id: "near", x: HOME.x + 2, y: HOME.y + 1 }
+    ];
+
+    const orders = createStrategy().think(createView({ units: [soldier], enemyUnits }));
+
+    expect(orders).toContainEqual({ type: "attack", unitIds: ["s1"], targetId: "near" });
+  });
+
+  it("scouts the other starting positions but not allied ones", () => {
+    const soldier = { ...createWorker("s1"), type: "melee" };
+
+    const orders = createStrategy().think(createView({ units: [soldier] }));
+
+    const enemyStart = STARTING_POSITIONS[1];
+    expect(orders).toContainEqual({ type: "move", unitIds: ["s1"], x: enemyStart.x + 2, y: enemyStart.y });
+  });
+});
@@ -0,0 +1,548 @@
+// Computer player decisions shared by the solo AIManager and the server's ServerBot
+import { STARTING_POSITIONS } from "./mapGeneration";
+import { AI_DIFFICULTY_SETTINGS, BUILDING_STATS, MAP_SIZE, UNIT_STATS } from "../client/src/game/config";
+import { AIDifficulty, BuildingType, MapTile, ResourceType, UnitType } from "../client/src/game/types";
+
+// Unit each military building trains
+const BUILDING_UNITS: Partial<Record<string, UnitType>> = {
+  barracks: "melee",
+  archeryRange: "ranged"
+};
+
+// Workers the bot wants before it starts saving for its first military building
+const FIRST_BUILDING_WORKERS = 5;
+
+// Enemy units this close to the city center (in tiles) pull the army back to defend
+const DEFENSE_RADIUS = 10;
+
+// How far from the city center (in tiles) the bot looks for building sites
+const SEARCH_RADIUS = 15;
+
+// Most workers sent to a single resource tile
+const WORKERS_PER_RESOURCE = 2;
+
+// Difference between the food and ore stockpiles at which idle workers go after the scarcer one
+const STOCKPILE_IMBALANCE = 300;
+
+// Starting positions hold a city center, so the bot walks to this offset beside them
+const BASE_APPROACH_OFFSET = 2;
+
+type Position = { x: number; y: number };
+type Resources = { food: number; ore: number };
+
+/**
+ * One of the bot's own units, with its position in tiles
+ */
+export interface BotUnit {
+  id: string;
+  type: string;
+  x: number;
+  y: number;
+  isGathering: boolean;
+  isMoving: boolean;
+  isAttacking: boolean;
+  carryingResource: boolean;
+}
+
+/**
+ * A building the bot knows about, with its position in tiles
+ */
+export interface BotBuilding {
+  id: string;
+  type: string;
+  x: number;
+  y: number;
+  queueLength: number;
+}
+
+/**
+ * What the bot knows about the match when it thinks, gathered by its host
+ */
+export interface BotView {
+  map: MapTile[][];
+  playerCount: number;
+  resources: Resources;
+  units: BotUnit[];
+  buildings: BotBuilding[];
+  alliedCityCenters: Position[];
+  enemyUnits: Array<{ id: string; x: number; y: number }>;
+  // Enemy buildings in sight, or seen before and not since seen destroyed
+  enemyBuildings: BotBuilding[];
+  // Technologies the bot could research now, whatever their cost
+  researchableTechs: Array<{ id: string; cost: Resources }>;
+}
+
+/**
+ * An order the bot's host carries out with its own managers or game events
+ * Positions are in tiles
+ */
+export type BotOrder =
+  | { type: "train"; buildingId: string; unitType: UnitType }
+  | { type: "build"; buildingType: BuildingType; x: number; y: number }
+  | { type: "research"; techId: string }
+  | { type: "gather"; unitId: string; x: number; y: number }
+  | { type: "attack"; unitIds: string[]; targetId: string }
+  | { type: "move"; unitIds: string[]; x: number; y: number }
+  // An attack wave heads for the enemy base if the bot has found one, otherwise for the next unscouted start
+  | { type: "attackWave"; unitIds: string[]; targetId: string | null; x: number; y: number };
+
+/**
+ * Economy, production, research, scouting and attack-wave decisions for a computer player
+ * The strategy keeps its own memory between thinks and only ever returns orders,
+ * so the solo AI and the server bot play the same way through different hosts
+ */
+export class BotStrategy {
+  private name: string;
+  private settings: typeof AI_DIFFICULTY_SETTINGS[AIDifficulty];
+
+  private thinkTimer: number;
+  private elapsed: number;
+  private nextWaveTime: number;
+
+  // Starting positions that might hold an enemy base, in the order the scout visits them
+  private unscoutedPositions: Position[] | null;
+  private enemyBase: BotBuilding | null;
+  private scoutId: string | null;
+
+  // Worker ID -> resource tile it was sent to; hosts only say whether a unit is gathering
+  private gatherAssignments: Map<string, Position>;
+
+  /**
+   * @param name How the bot is named in its log messages
+   */
+  constructor(name: string, difficulty: AIDifficulty) {
+    this.name = name;
+    this.settings = AI_DIFFICULTY_SETTINGS[difficulty];
+    this.thinkTimer = 0;
+    this.elapsed = 0;
+    this.nextWaveTime = this.settings.firstWaveTime;
+    this.unscoutedPositions = null;
+    this.enemyBase = null;
+    this.scoutId = null;
+    this.gatherAssignments = new Map();
+  }
+
+  /**
+   * Advance the bot's clock
+   * @param deltaTime Time since the last update in milliseconds
+   * @returns Whether it is time for the bot to think
+   */
+  advance(deltaTime: number): boolean {
+    this.elapsed += deltaTime;
+    this.thinkTimer += deltaTime;
+
+    if (this.thinkTimer < this.settings.thinkInterval) return false;
+    this.thinkTimer = 0;
+    return true;
+  }
+
+  /**
+   * Decide the bot's next orders
+   */
+  think(view: BotView): BotOrder[] {
+    // Without a city center the bot has been defeated
+    const cityCenter = view.buildings.find(building => building.type === "cityCenter");
+    if (!cityCenter) return [];
+
+    if (!this.unscoutedPositions) {
+      // The bot knows where bases can start, not which one each enemy took; allied bases are always in view
+      this.unscoutedPositions = STARTING_POSITIONS.slice(0, view.playerCount)
+        .filter(position => !view.alliedCityCenters.some(center => center.x === position.x && center.y === position.y));
+    }
+
+    const workers = view.units.filter(unit => unit.type === "worker");
+    const army = view.units.filter(unit => unit.type !== "worker");
+    const resources = { ...view.resources };
+    // Counted as orders are given so the same think doesn't overfill a queue
+    const queueLengths = new Map(view.buildings.map(building => [building.id, building.queueLength]));
+
+    const orders: BotOrder[] = [];
+
+    this.spotEnemyBase(view.enemyBuildings);
+
+    const nextBuilding = getNextBuilding(this.settings, workers.length, view.buildings);
+
+    this.trainWorkers(workers.length, cityCenter, resources, queueLengths, orders);
+    this.assignIdleWorkers(workers, cityCenter, view.map, resources, orders);
+
+    if (nextBuilding) {
+      // Save up for the next building before spending on anything else
+      this.constructBuilding(nextBuilding, cityCenter, view.map, resources, orders);
+    } else {
+      this.trainArmy(view.buildings, resources, queueLengths, orders);
+      this.researchTechnology(view.researchableTechs, resources, orders);
+    }
+
+    const defending = this.defendBase(army, view.enemyUnits, cityCenter, orders);
+    this.scout(army, orders);
+    if (!defending) {
+      this.launchAttackWave(army, orders);
+    }
+
+    return orders;
+  }
+
+  /**
+   * Queue workers at the city center until the difficulty's worker target is reached
+   */
+  private trainWorkers(
+    workerCount: number,
+    cityCenter: BotBuilding,
+    resources: Resources,
+    queueLengths: Map<string, number>,
+    orders: BotOrder[]
+  ) {
+    const queuedWorkers = queueLengths.get(cityCenter.id)!;
+    if (workerCount + queuedWorkers >= this.settings.targetWorkers) return;
+    if (queuedWorkers >= this.settings.maxProductionQueue) return;
+
+    this.queueUnit(cityCenter, "worker", resources, queueLengths, orders);
+  }
+
+  /**
+   * Send idle workers to the nearest resource of whichever type has fewer gatherers
+   * Once the stockpiles drift apart, workers go after the scarcer one instead,
+   * and one gatherer per think is moved over to it
+   */
+  private assignIdleWorkers(
+    workers: BotUnit[],
+    cityCenter: BotBuilding,
+    map: MapTile[][],
+    resources: Resources,
+    orders: BotOrder[]
+  ) {
+    const gatherers: Record<ResourceType, number> = { food: 0, ore: 0 };
+    const workersPerTile = new Map<string, number>();
+
+    workers.forEach(worker => {
+      const tile = this.gatherAssignments.get(worker.id);
+      if (!tile) return;
+
+      // Drop assignments the worker has given up, e.g. when its resource ran out
+      const resource = map[tile.y][tile.x].resource;
+      if (!worker.isGathering || !resource) {
+        this.gatherAssignments.delete(worker.id);
+        return;
+      }
+
+      const tileKey = `${tile.x},${tile.y}`;
+      workersPerTile.set(tileKey, (workersPerTile.get(tileKey) || 0) + 1);
+      gatherers[resource.type]++;
+    });
+
+    // Forget workers that have died
+    const workerIds = new Set(workers.map(worker => worker.id));
+    Array.from(this.gatherAssignments.keys())
+      .filter(workerId => !workerIds.has(workerId))
+      .forEach(workerId => this.gatherAssignments.delete(workerId));
+
+    const shortOf: ResourceType | null = Math.abs(resources.food - resources.ore) < STOCKPILE_IMBALANCE
+      ? null
+      : (resources.food < resources.ore ? "food" : "ore");
+
+    const idleWorkers = workers.filter(worker => !worker.isGathering && !worker.isMoving && !worker.isAttacking);
+
+    idleWorkers.forEach(worker => {
+      const preferred: ResourceType = shortOf || (gatherers.food <= gatherers.ore ? "food" : "ore");
+      const fallback: ResourceType = preferred === "food" ? "ore" : "food";
+
+      const tile = findResourceTile(map, preferred, cityCenter, workersPerTile) ||
+        findResourceTile(map, fallback, cityCenter, workersPerTile);
+      if (!tile) return;
+
+      const tileKey = `${tile.x},${tile.y}`;
+      workersPerTile.set(tileKey, (workersPerTile.get(tileKey) || 0) + 1);
+      gatherers[map[tile.y][tile.x].resource!.type]++;
+      this.gatherAssignments.set(worker.id, tile);
+
+      orders.push({ type: "gather", unitId: worker.id, x: tile.x, y: tile.y });
+    });
+
+    if (!shortOf || idleWorkers.length > 0) return;
+
+    // Retask a worker between trips so its load isn't lost
+    const retasked = workers.find(worker => {
+      const tile = this.gatherAssignments.get(worker.id);
+      return tile && !worker.carryingResource && map[tile.y][tile.x].resource?.type !== shortOf;
+    });
+    const tile = retasked && findResourceTile(map, shortOf, cityCenter, workersPerTile);
+    if (retasked && tile) {
+      this.gatherAssignments.set(retasked.id, tile);
+      orders.push({ type: "gather", unitId: retasked.id, x: tile.x, y: tile.y });
+    }
+  }
+
+  private constructBuilding(
+    type: BuildingType,
+    cityCenter: BotBuilding,
+    map: MapTile[][],
+    resources: Resources,
+    orders: BotOrder[]
+  ) {
+    if (!spend(resources, BUILDING_STATS[type].cost)) return;
+
+    const site = findBuildingSite(map, type, cityCenter);
+    if (!site) {
+      console.warn(`${this.name} could not find a site for ${type}`);
+      return;
+    }
+
+    orders.push({ type: "build", buildingType: type, x: site.x, y: site.y });
+  }
+
+  /**
+   * Keep every military building's production queue filled
+   */
+  private trainArmy(
+    buildings: BotBuilding[],
+    resources: Resources,
+    queueLengths: Map<string, number>,
+    orders: BotOrder[]
+  ) {
+    buildings.forEach(building => {
+      const unitType = BUILDING_UNITS[building.type];
+      if (!unitType || queueLengths.get(building.id)! >= this.settings.maxProductionQueue) return;
+
+      this.queueUnit(building, unitType, resources, queueLengths, orders);
+    });
+  }
+
+  /**
+   * Research the cheapest available technology the bot can afford without stalling production
+   */
+  private researchTechnology(techs: BotView["researchableTechs"], resources: Resources, orders: BotOrder[]) {
+    if (!this.settings.researchTechs) return;
+
+    const reserve = UNIT_STATS.melee.cost;
+    const affordable = techs
+      .filter(tech =>
+        resources.food >= tech.cost.food + reserve.food &&
+        resources.ore >= tech.cost.ore + reserve.ore
+      )
+      .sort((a, b) => (a.cost.food + a.cost.ore) - (b.cost.food + b.cost.ore));
+
+    if (affordable.length > 0) {
+      spend(resources, affordable[0].cost);
+      orders.push({ type: "research", techId: affordable[0].id });
+    }
+  }
+
+  /**
+   * Pull idle soldiers back to fight enemies near the city center
+   * @returns Whether the base is under attack
+   */
+  private defendBase(army: BotUnit[], enemies: BotView["enemyUnits"], cityCenter: BotBuilding, orders: BotOrder[]): boolean {
+    const threats = enemies.filter(unit => tileDistance(unit, cityCenter) <= DEFENSE_RADIUS);
+    if (threats.length === 0) return false;
+
+    army.filter(unit => !unit.isAttacking).forEach(unit => {
+      const nearest = threats.reduce((closest, threat) =>
+        tileDistance(unit, threat) < tileDistance(unit, closest) ? threat : closest
+      );
+      orders.push({ type: "attack", unitIds: [unit.id], targetId: nearest.id });
+    });
+
+    return true;
+  }
+
+  /**
+   * Send one soldier through the possible enemy starting positions until an enemy base is seen
+   */
+  private scout(army: BotUnit[], orders: BotOrder[]) {
+    const positions = this.unscoutedPositions!;
+    if (this.enemyBase || positions.length === 0) {
+      this.scoutId = null;
+      return;
+    }
+
+    const sendScout = (scoutId: string) => {
+      orders.push({ type: "move", unitIds: [scoutId], ...approach(positions[0]) });
+    };
+
+    let scout = army.find(unit => unit.id === this.scoutId);
+    if (!scout) {
+      // A lost scout is replaced by the next idle soldier; its target stays unscouted
+      scout = army.find(unit => !unit.isAttacking && !unit.isMoving);
+      if (!scout) return;
+
+      this.scoutId = scout.id;
+      sendScout(scout.id);
+      return;
+    }
+
+    const arrived = tileDistance(scout, approach(positions[0])) <= 2;
+
+    if (arrived) {
+      positions.shift();
+      if (positions.length > 0) {
+        sendScout(scout.id);
+      }
+    } else if (!scout.isMoving && !scout.isAttacking) {
+      sendScout(scout.id);
+    }
+  }
+
+  /**
+   * Remember an enemy building the bot knows about, preferring a city center
+   */
+  private spotEnemyBase(enemyBuildings: BotBuilding[]) {
+    if (this.enemyBase && enemyBuildings.some(building => building.id === this.enemyBase!.id)) return;
+    this.enemyBase = null;
+
+    const target = enemyBuildings.find(building => building.type === "cityCenter") || enemyBuildings[0];
+    if (target) {
+      this.enemyBase = target;
+      console.log(`${this.name} spotted an enemy base at (${target.x}, ${target.y})`);
+    }
+  }
+
+  /**
+   * Send every idle soldier at the enemy base once the wave is big enough
+   */
+  private launchAttackWave(army: BotUnit[], orders: BotOrder[]) {
+    if (this.elapsed < this.nextWaveTime) return;
+
+    const target = this.enemyBase || this.unscoutedPositions![0];
+    if (!target) return;
+
+    const wave = army.filter(unit => unit.id !== this.scoutId && !unit.isAttacking && !unit.isMoving);
+    if (wave.length < this.settings.waveSize) return;
+
+    orders.push({
+      type: "attackWave",
+      unitIds: wave.map(unit => unit.id),
+      targetId: this.enemyBase ? this.enemyBase.id : null,
+      ...approach(target)
+    });
+    this.nextWaveTime = this.elapsed + this.settings.waveInterval;
+
+    console.log(`${this.name} launched an attack wave of ${wave.length} units`);
+  }
+
+  /**
+   * Pay for a unit out of the bot's budget and queue it at a building
+   */
+  private queueUnit(
+    building: BotBuilding,
+    unitType: UnitType,
+    resources: Resources,
+    queueLengths: Map<string, number>,
+    orders: BotOrder[]
+  ) {
+    if (!spend(resources, UNIT_STATS[unitType].cost)) return;
+
+    queueLengths.set(building.id, queueLengths.get(building.id)! + 1);
+    orders.push({ type: "train", buildingId: building.id, unitType });
+  }
+}
+
+/**
+ * The military building a bot should build next, if it has the economy for one
+ */
+function getNextBuilding(
+  settings: typeof AI_DIFFICULTY_SETTINGS[AIDifficulty],
+  workerCount: number,
+  ownBuildings: Array<{ type: string }>
+): BuildingType | null {
+  if (workerCount < Math.min(FIRST_BUILDING_WORKERS, settings.targetWorkers)) return null;
+
+  const militaryBuildings = ownBuildings.filter(building => building.type !== "cityCenter");
+
+  const buildOrder = settings.militaryBuildings as BuildingType[];
+  return buildOrder[militaryBuildings.length] || null;
+}
+
+/**
+ * Nearest tile with the given resource that isn't already crowded with workers
+ * Some starts have no food or no ore close by, so the search covers the whole map
+ */
+function findResourceTile(
+  map: MapTile[][],
+  type: ResourceType,
+  center: Position,
+  workersPerTile: Map<string, number>
+): Position | null {
+  for (let radius = 1; radius < MAP_SIZE; radius++) {
+    for (const tile of ringTiles(center.x, center.y, radius)) {
+      const resource = map[tile.y][tile.x].resource;
+      if (resource && resource.type === type && resource.amount > 0 &&
+          (workersPerTile.get(`${tile.x},${tile.y}`) || 0) < WORKERS_PER_RESOURCE) {
+        return tile;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Nearest open spot around a center tile with a free tile of margin on every side of the footprint
+ */
+function findBuildingSite(map: MapTile[][], type: BuildingType, center: Position): Position | null {
+  // Buildings cover floor(size / 2) tiles on each side of their position
+  const clearance = Math.floor(BUILDING_STATS[type].size / 2) + 1;
+
+  for (let radius = 4; radius <= SEARCH_RADIUS; radius++) {
+    for (const tile of ringTiles(center.x, center.y, radius)) {
+      if (isAreaOpen(map, tile.x, tile.y, clearance)) {
+        return tile;
+      }
+    }
+  }
+
+  return null;
+}
+
+function isAreaOpen(map: MapTile[][], x: number, y: number, clearance: number): boolean {
+  for (let ty = y - clearance; ty <= y + clearance; ty++) {
+    for (let tx = x - clearance; tx <= x + clearance; tx++) {
+      if (tx < 0 || ty < 0 || tx >= MAP_SIZE || ty >= MAP_SIZE) return false;
+      if (!map[ty][tx].walkable || map[ty][tx].resource) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * In-bounds tiles on the square ring at the given distance from a center tile
+ */
+function ringTiles(centerX: number, centerY: number, radius: number): Position[] {
+  const tiles: Position[] = [];
+
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      if (Math.max(Math.abs(dx), Math.abs(dy)) !== radius) continue;
+
+      const x = centerX + dx;
+      const y = centerY + dy;
+      if (x >= 0 && y >= 0 && x < MAP_SIZE && y < MAP_SIZE) {
+        tiles.push({ x, y });
+      }
+    }
+  }
+
+  return tiles;
+}
+
+/**
+ * The spot beside a base position that the bot's units walk to
+ */
+function approach(base: Position): Position {
+  return { x: base.x + BASE_APPROACH_OFFSET, y: base.y };
+}
+
+/**
+ * Take a cost out of the budget for this think, if it covers it
+ * Hosts charge the real cost, including any research discounts, when they carry out the order
+ */
+function spend(resources: Resources, cost: Resources): boolean {
+  if (resources.food < cost.food || resources.ore < cost.ore) return false;
+
+  resources.food -= cost.food;
+  resources.ore -= cost.ore;
+  return true;
+}
+
+function tileDistance(a: Position, b: Position): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
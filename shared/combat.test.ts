@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { resolveAttack, isCounterUnit, isWeakToUnit } from "./combat";
+import { SeededRandom } from "./random";
+import { GameState } from "./gameState";
+import { Player } from "./player";
+import { UNIT_STATS } from "../client/src/game/config";
+
+const UNIT_TYPES = Object.keys(UNIT_STATS) as Array<keyof typeof UNIT_STATS>;
+const SEEDS = [1, 42, 1234567, 4294967295];
+
+const PAIRINGS = UNIT_TYPES.flatMap(attackerType => UNIT_TYPES.map(defenderType => [attackerType, defenderType] as const));
+
+/**
+ * A two-player match holding only an attacker next to an enemy defender, with base stats
+ */
+function createDuel(seed: number, attackerType: string, defenderType: string): GameState {
+  const roster = new Map<string, Player>();
+  ["attacker", "defender"].forEach(playerId => {
+    const player = new Player(playerId, playerId);
+    player.setFaction("Nephites");
+    roster.set(playerId, player);
+  });
+
+  const saved = new GameState(roster, seed).serialize();
+  const template = saved.units[0];
+  const createUnit = (id: string, playerId: string, type: string, x: number) => {
+    const stats = UNIT_STATS[type as keyof typeof UNIT_STATS];
+    return {
+      ...template,
+      id,
+      playerId,
+      type,
+      health: stats.health,
+      maxHealth: stats.health,
+      attack: stats.attack,
+      defense: stats.defense,
+      range: stats.range,
+      speed: stats.speed,
+      x,
+      y: 20
+    };
+  };
+  saved.units = [createUnit("a", "attacker", attackerType, 20), createUnit("d", "defender", defenderType, 21)];
+
+  return GameState.deserialize(saved);
+}
+
+describe("resolveAttack", () => {
+  it.each(PAIRINGS)("gives the same result from the same seed for %s against %s", (attackerType, defenderType) => {
+    const { attack } = UNIT_STATS[attackerType];
+    const { defense } = UNIT_STATS[defenderType];
+
+    SEEDS.forEach(seed => {
+      const clientRng = new SeededRandom(seed);
+      const serverRng = new SeededRandom(seed);
+      for (let i = 0; i < 20; i++) {
+        const input = { attackerType, attack, defenderType, defense };
+        expect(resolveAttack(input, clientRng)).toEqual(resolveAttack(input, serverRng));
+      }
+    });
+  });
+
+  it.each(PAIRINGS)("reports counter and weakness hits for %s against %s", (attackerType, defenderType) => {
+    const result = resolveAttack(
+      { attackerType, attack: UNIT_STATS[attackerType].attack, defenderType, defense: UNIT_STATS[defenderType].defense },
+      new SeededRandom(1)
+    );
+
+    if (isWeakToUnit(attackerType, defenderType)) {
+      expect(result.hitType).toBe("weak");
+    } else if (isCounterUnit(attackerType, defenderType)) {
+      expect(result.hitType).toBe("counter");
+    } else {
+      expect(["normal", "critical"]).toContain(result.hitType);
+    }
+    expect(result.damage).toBeGreaterThanOrEqual(1);
+  });
+
+  it("always rolls twice, whatever the hit type", () => {
+    PAIRINGS.forEach(([attackerType, defenderType]) => {
+      const rng = new SeededRandom(99);
+      resolveAttack({ attackerType, attack: 10, defenderType, defense: 2 }, rng);
+
+      const expected = new SeededRandom(99);
+      expected.next();
+      expected.next();
+      expect(rng.getState()).toBe(expected.getState());
+    });
+  });
+});
+
+describe("server combat", () => {
+  it.each(PAIRINGS)("matches the client's roll from the match seed for %s against %s", (attackerType, defenderType) => {
+    SEEDS.forEach(seed => {
+      const gameState = createDuel(seed, attackerType, defenderType);
+      const defender = gameState.getUnits().get("d")!;
+      const healthBefore = defender.health;
+
+      expect(gameState.processEvent({ playerId: "attacker", type: "attack", attackerIds: ["a"], targetId: "d" })).toBe(true);
+      gameState.update(50);
+
+      // The client's CombatManager rolls from a generator seeded with the same match seed
+      const clientResult = resolveAttack({
+        attackerType,
+        attack: UNIT_STATS[attackerType].attack,
+        defenderType,
+        defense: UNIT_STATS[defenderType].defense
+      }, new SeededRandom(seed));
+      const damageTaken = gameState.getUnits().has("d") ? healthBefore - defender.health : healthBefore;
+
+      expect(damageTaken).toBe(Math.min(clientResult.damage, healthBefore));
+    });
+  });
+});
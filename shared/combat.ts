@@ -0,0 +1,93 @@
+// Combat rules shared by the client CombatManager and the server GameState
+import {
+  UNIT_STATS,
+  COUNTER_DAMAGE_MULTIPLIER,
+  WEAKNESS_DAMAGE_MULTIPLIER
+} from "../client/src/game/config";
+import { UnitStats, UnitType } from "../client/src/game/types";
+import { SeededRandom } from "./random";
+
+export type HitType = 'normal' | 'critical' | 'counter' | 'weak';
+
+export const CRITICAL_HIT_CHANCE = 0.1;
+export const HERO_CRITICAL_HIT_CHANCE = 0.15;
+export const CRITICAL_DAMAGE_MULTIPLIER = 1.5;
+
+// Damage varies by ±15% around the computed value
+export const DAMAGE_VARIANCE = 0.3;
+
+export interface AttackInput {
+  attackerType: string;
+  attack: number;
+  // Undefined when the defender is a building, which has no counter relationships
+  defenderType?: string;
+  defense: number;
+}
+
+export interface AttackResult {
+  damage: number;
+  hitType: HitType;
+}
+
+function getUnitStats(unitType: string): UnitStats | undefined {
+  return UNIT_STATS[unitType as UnitType] as UnitStats | undefined;
+}
+
+/**
+ * Determines if unitType has a counter advantage against targetType
+ */
+export function isCounterUnit(unitType: string, targetType: string): boolean {
+  const stats = getUnitStats(unitType);
+  return !!(stats?.counters && stats.counters.includes(targetType as UnitType));
+}
+
+/**
+ * Determines if unitType is weak against targetType
+ */
+export function isWeakToUnit(unitType: string, targetType: string): boolean {
+  const stats = getUnitStats(unitType);
+  return !!(stats?.weakTo && stats.weakTo.includes(targetType as UnitType));
+}
+
+/**
+ * Resolve a single attack
+ * Rolls exactly two numbers from rng (critical check, then variance), so two
+ * generators with the same state always produce the same outcome
+ */
+export function resolveAttack(input: AttackInput, rng: SeededRandom): AttackResult {
+  const { attackerType, defenderType } = input;
+  let damageMultiplier = 1.0;
+  let defense = input.defense;
+  let hitType: HitType = 'normal';
+
+  if (defenderType) {
+    // Counter bonus: this unit type is strong against the defender
+    if (isCounterUnit(attackerType, defenderType)) {
+      damageMultiplier *= COUNTER_DAMAGE_MULTIPLIER;
+      hitType = 'counter';
+    }
+
+    // Weakness penalty: the defender's armour counts for more
+    if (isWeakToUnit(attackerType, defenderType)) {
+      defense *= WEAKNESS_DAMAGE_MULTIPLIER;
+      hitType = 'weak';
+    }
+  }
+
+  // Critical hits only on otherwise normal hits
+  const critChance = attackerType === 'hero' ? HERO_CRITICAL_HIT_CHANCE : CRITICAL_HIT_CHANCE;
+  const critRoll = rng.next();
+  if (critRoll < critChance && hitType === 'normal') {
+    damageMultiplier *= CRITICAL_DAMAGE_MULTIPLIER;
+    hitType = 'critical';
+  }
+
+  // Reduce by half the defense (but ensure minimum damage of 1)
+  let damage = Math.max(1, input.attack * damageMultiplier - defense / 2);
+
+  // Apply variance
+  const varianceRoll = rng.next();
+  damage = Math.floor(damage * (1 - DAMAGE_VARIANCE / 2 + varianceRoll * DAMAGE_VARIANCE));
+
+  return { damage: Math.max(1, damage), hitType };
+}
@@ -0,0 +1,435 @@
+import { describe, expect, it } from "vitest";
+import { GameState, SAVED_GAME_VERSION } from "./gameState";
+import { Player } from "./player";
+import { UNIT_STATS } from "../client/src/game/config";
+import { getProductionTime } from "./production";
+import { TECH_DEFINITIONS } from "./techTree";
+
+interface UnitSpec {
+  id: string;
+  playerId: string;
+  type: keyof typeof UNIT_STATS;
+  x: number;
+  y: number;
+  health?: number;
+}
+
+const SEED = 1234;
+
+/**
+ * A two-player match where only the given units are on the map, fighting over open ground in
+ * the middle; both city centers stay so nobody is eliminated
+ * @param teams Team for each of "red" and "blue", to make them allies
+ */
+function createMatch(units: UnitSpec[], teams: [number | null, number | null] = [null, null]): GameState {
+  const roster = new Map<string, Player>();
+  ["red", "blue"].forEach((playerId, index) => {
+    const player = new Player(playerId, playerId);
+    player.setFaction("Nephites");
+    player.setTeam(teams[index]);
+    roster.set(playerId, player);
+  });
+
+  const saved = new GameState(roster, SEED).serialize();
+  const template = saved.units[0];
+  saved.units = units.map(({ id, playerId, type, x, y, health }) => {
+    const stats = UNIT_STATS[type];
+    return {
+      ...template,
+      id,
+      playerId,
+      type,
+      health: health ?? stats.health,
+      maxHealth: stats.health,
+      attack: stats.attack,
+      defense: stats.defense,
+      range: stats.range,
+      speed: stats.speed,
+      x,
+      y
+    };
+  });
+
+  for (let y = 15; y < 35; y++) {
+    for (let x = 15; x < 35; x++) {
+      saved.map[y][x] = { ...saved.map[y][x], type: "grass", walkable: true, resource: null };
+    }
+  }
+
+  return GameState.deserialize(saved);
+}
+
+/**
+ * Advance the match in fixed 50ms steps
+ */
+function run(gameState: GameState, milliseconds: number): void {
+  for (let elapsed = 0; elapsed < milliseconds; elapsed += 50) {
+    gameState.update(50);
+  }
+}
+
+describe("attack orders", () => {
+  it("damages an enemy unit in range", () => {
+    const gameState = createMatch([
+      { id: "a", playerId: "red", type: "melee", x: 20, y: 20 },
+      { id: "d", playerId: "blue", type: "melee", x: 21, y: 20 }
+    ]);
+
+    expect(gameState.processEvent({ playerId: "red", type: "attack", attackerIds: ["a"], targetId: "d" })).toBe(true);
+    gameState.update(50);
+
+    const defender = gameState.getUnits().get("d")!;
+    expect(defender.health).toBeLessThan(defender.maxHealth);
+    expect(gameState.getUnits().get("a")!.isAttacking).toBe(true);
+  });
+
+  it("waits out the cooldown between hits", () => {
+    const gameState = createMatch([
+      { id: "a", playerId: "red", type: "melee", x: 20, y: 20 },
+      { id: "d", playerId: "blue", type: "hero", x: 21, y: 20 }
+    ]);
+    const defender = gameState.getUnits().get("d")!;
+
+    gameState.processEvent({ playerId: "red", type: "attack", attackerIds: ["a"], targetId: "d" });
+    gameState.update(50);
+    const healthAfterFirstHit = defender.health;
+
+    run(gameState, 900);
+    expect(defender.health).toBe(healthAfterFirstHit);
+
+    run(gameState, 100);
+    expect(defender.health).toBeLessThan(healthAfterFirstHit);
+  });
+
+  it("closes in on a target out of range before striking", () => {
+    const gameState = createMatch([
+      { id: "a", playerId: "red", type: "melee", x: 20, y: 20 },
+      { id: "d", playerId: "blue", type: "hero", x: 26, y: 20 }
+    ]);
+    const attacker = gameState.getUnits().get("a")!;
+    const defender = gameState.getUnits().get("d")!;
+
+    gameState.processEvent({ playerId: "red", type: "attack", attackerIds: ["a"], targetId: "d" });
+    gameState.update(50);
+    expect(attacker.isMoving).toBe(true);
+    expect(defender.health).toBe(defender.maxHealth);
+
+    run(gameState, 10000);
+    expect(Math.hypot(defender.x - attacker.x, defender.y - attacker.y)).toBeLessThanOrEqual(attacker.range);
+    expect(defender.health).toBeLessThan(defender.maxHealth);
+  });
+
+  it("rejects attacks on the player's own units", () => {
+    const gameState = createMatch([
+      { id: "a", playerId: "red", type: "melee", x: 20, y: 20 },
+      { id: "b", playerId: "red", type: "melee", x: 21, y: 20 }
+    ]);
+
+    expect(gameState.processEvent({ playerId: "red", type: "attack", attackerIds: ["a"], targetId: "b" })).toBe(false);
+    expect(gameState.getUnits().get("a")!.isAttacking).toBe(false);
+  });
+
+  it("rejects attacks on an ally's units", () => {
+    const gameState = createMatch([
+      { id: "a", playerId: "red", type: "melee", x: 20, y: 20 },
+      { id: "d", playerId: "blue", type: "melee", x: 21, y: 20 }
+    ], [1, 1]);
+
+    expect(gameState.processEvent({ playerId: "red", type: "attack", attackerIds: ["a"], targetId: "d" })).toBe(false);
+  });
+
+  it("ignores attackers the player does not own", () => {
+    const gameState = createMatch([
+      { id: "a", playerId: "red", type: "melee", x: 20, y: 20 },
+      { id: "b", playerId: "red", type: "melee", x: 21, y: 20 }
+    ]);
+
+    expect(gameState.processEvent({ playerId: "blue", type: "attack", attackerIds: ["a"], targetId: "b" })).toBe(false);
+    expect(gameState.getUnits().get("a")!.isAttacking).toBe(false);
+  });
+
+  it("rejects an attack on a target that does not exist", () => {
+    const gameState = createMatch([{ id: "a", playerId: "red", type: "melee", x: 20, y: 20 }]);
+
+    expect(gameState.processEvent({ playerId: "red", type: "attack", attackerIds: ["a"], targetId: "missing" })).toBe(false);
+  });
+});
+
+describe("kills", () => {
+  it("removes a unit brought to zero health and credits the killer", () => {
+    const gameState = createMatch([
+      { id: "a", playerId: "red", type: "melee", x: 20, y: 20 },
+      { id: "d", playerId: "blue", type: "worker", x: 21, y: 20, health: 1 }
+    ]);
+
+    gameState.processEvent({ playerId: "red", type: "attack", attackerIds: ["a"], targetId: "d" });
+    gameState.update(50);
+
+    expect(gameState.getUnits().has("d")).toBe(false);
+    expect(gameState.drainKills()).toEqual([{
+      entityId: "d",
+      entityType: "unit",
+      ownerId: "blue",
+      killerId: "a",
+      killerPlayerId: "red"
+    }]);
+    expect(gameState.drainKills()).toEqual([]);
+
+    const stats = gameState.getPlayerStats();
+    expect(stats.red.unitsKilled).toBe(1);
+    expect(stats.blue.unitsLost).toBe(1);
+  });
+
+  it("ends the attack order once the target is dead", () => {
+    const gameState = createMatch([
+      { id: "a", playerId: "red", type: "melee", x: 20, y: 20 },
+      { id: "d", playerId: "blue", type: "worker", x: 21, y: 20, health: 1 }
+    ]);
+
+    gameState.processEvent({ playerId: "red", type: "attack", attackerIds: ["a"], targetId: "d" });
+    gameState.update(50);
+
+    const attacker = gameState.getUnits().get("a")!;
+    expect(attacker.isAttacking).toBe(false);
+    expect(attacker.targetUnitId).toBeNull();
+  });
+
+  it("ends the attack order when the target is killed by someone else", () => {
+    const gameState = createMatch([
+      // The melee unit strikes first in the tick, leaving the archer without a target
+      { id: "b", playerId: "red", type: "melee", x: 22, y: 21 },
+      { id: "a", playerId: "red", type: "ranged", x: 20, y: 20 },
+      { id: "d", playerId: "blue", type: "worker", x: 22, y: 20, health: 1 }
+    ]);
+
+    gameState.processEvent({ playerId: "red", type: "attack", attackerIds: ["b"], targetId: "d" });
+    gameState.processEvent({ playerId: "red", type: "attack", attackerIds: ["a"], targetId: "d" });
+    run(gameState, 100);
+
+    expect(gameState.getUnits().has("d")).toBe(false);
+    const attacker = gameState.getUnits().get("a")!;
+    expect(attacker.isAttacking).toBe(false);
+    expect(attacker.targetUnitId).toBeNull();
+  });
+
+  it("frees a destroyed building's tiles", () => {
+    const gameState = createMatch([{ id: "a", playerId: "red", type: "melee", x: 20, y: 20 }]);
+    const cityCenter = Array.from(gameState.getBuildings().values()).find(building => building.playerId === "blue")!;
+    cityCenter.health = 1;
+    expect(gameState.getMap()[cityCenter.y][cityCenter.x].walkable).toBe(false);
+
+    gameState.processEvent({ playerId: "red", type: "attack", attackerIds: ["a"], targetId: cityCenter.id });
+    run(gameState, 30000);
+
+    expect(gameState.getBuildings().has(cityCenter.id)).toBe(false);
+    expect(gameState.getMap()[cityCenter.y][cityCenter.x].walkable).toBe(true);
+    expect(gameState.getPlayerStats().red.buildingsDestroyed).toBe(1);
+  });
+});
+
+describe("move orders", () => {
+  it("cancel the unit's attack order", () => {
+    const gameState = createMatch([
+      { id: "a", playerId: "red", type: "melee", x: 20, y: 20 },
+      { id: "d", playerId: "blue", type: "hero", x: 21, y: 20 }
+    ]);
+    const defender = gameState.getUnits().get("d")!;
+
+    gameState.processEvent({ playerId: "red", type: "attack", attackerIds: ["a"], targetId: "d" });
+    gameState.update(50);
+    expect(gameState.processEvent({ playerId: "red", type: "unitMove", unitIds: ["a"], targetX: 20, targetY: 30 })).toBe(true);
+
+    const attacker = gameState.getUnits().get("a")!;
+    expect(attacker.isAttacking).toBe(false);
+    expect(attacker.targetUnitId).toBeNull();
+    expect(attacker.targetBuildingId).toBeNull();
+
+    // No more hits land, and the unit walks away instead of chasing
+    const healthAfterMove = defender.health;
+    run(gameState, 3000);
+    expect(defender.health).toBe(healthAfterMove);
+    expect(attacker.y).toBeGreaterThan(21);
+  });
+});
+
+describe("production queue", () => {
+  const getCityCenter = (gameState: GameState, playerId: string) =>
+    Array.from(gameState.getBuildings().values()).find(building => building.playerId === playerId && building.type === "cityCenter")!;
+  const countUnits = (gameState: GameState, playerId: string, type: string) =>
+    Array.from(gameState.getUnits().values()).filter(unit => unit.playerId === playerId && unit.type === type).length;
+  const queueWorker = (gameState: GameState, buildingId: string, playerId = "red") =>
+    gameState.processEvent({ playerId, type: "queueProduction", buildingId, unitType: "worker" });
+
+  it("charges the unit's cost when it is queued", () => {
+    const gameState = createMatch([]);
+    const player = gameState.getPlayer("red")!;
+    const before = player.getResources();
+
+    expect(queueWorker(gameState, getCityCenter(gameState, "red").id)).toBe(true);
+
+    const { cost } = UNIT_STATS.worker;
+    expect(player.getResources()).toEqual({ food: before.food - cost.food, ore: before.ore - cost.ore });
+  });
+
+  it("rejects a unit the player cannot afford, without charging anything", () => {
+    const gameState = createMatch([]);
+    const player = gameState.getPlayer("red")!;
+    player.setResources({ food: UNIT_STATS.worker.cost.food - 1, ore: 1000 }, "startingResources", 0);
+    const cityCenter = getCityCenter(gameState, "red");
+
+    expect(queueWorker(gameState, cityCenter.id)).toBe(false);
+    expect(player.getResources()).toEqual({ food: UNIT_STATS.worker.cost.food - 1, ore: 1000 });
+    expect(cityCenter.productionQueue).toEqual([]);
+  });
+
+  it("rejects units the building cannot train", () => {
+    const gameState = createMatch([]);
+    const cityCenter = getCityCenter(gameState, "red");
+
+    expect(gameState.processEvent({ playerId: "red", type: "queueProduction", buildingId: cityCenter.id, unitType: "melee" })).toBe(false);
+    expect(cityCenter.productionQueue).toEqual([]);
+  });
+
+  it("rejects queueing in another player's building", () => {
+    const gameState = createMatch([]);
+
+    expect(queueWorker(gameState, getCityCenter(gameState, "blue").id)).toBe(false);
+  });
+
+  it("produces the unit once its build time has passed", () => {
+    const gameState = createMatch([]);
+    queueWorker(gameState, getCityCenter(gameState, "red").id);
+    const buildTime = getProductionTime("cityCenter", "Nephites", "worker");
+
+    run(gameState, buildTime - 50);
+    expect(countUnits(gameState, "red", "worker")).toBe(0);
+
+    run(gameState, 50);
+    expect(countUnits(gameState, "red", "worker")).toBe(1);
+  });
+
+  it("trains queued units one after another", () => {
+    const gameState = createMatch([]);
+    const cityCenter = getCityCenter(gameState, "red");
+    queueWorker(gameState, cityCenter.id);
+    queueWorker(gameState, cityCenter.id);
+    const buildTime = getProductionTime("cityCenter", "Nephites", "worker");
+
+    run(gameState, buildTime);
+    expect(countUnits(gameState, "red", "worker")).toBe(1);
+    expect(cityCenter.productionQueue).toHaveLength(1);
+
+    run(gameState, buildTime);
+    expect(countUnits(gameState, "red", "worker")).toBe(2);
+    expect(cityCenter.productionQueue).toEqual([]);
+  });
+
+  it("refunds the full cost of a cancelled unit", () => {
+    const gameState = createMatch([]);
+    const player = gameState.getPlayer("red")!;
+    const cityCenter = getCityCenter(gameState, "red");
+    const before = player.getResources();
+    queueWorker(gameState, cityCenter.id);
+    run(gameState, 1000);
+
+    expect(gameState.processEvent({ playerId: "red", type: "cancelProduction", buildingId: cityCenter.id, index: 0 })).toBe(true);
+    expect(player.getResources()).toEqual(before);
+    expect(cityCenter.productionQueue).toEqual([]);
+
+    run(gameState, getProductionTime("cityCenter", "Nephites", "worker"));
+    expect(countUnits(gameState, "red", "worker")).toBe(0);
+  });
+
+  it("cancels only the chosen entry of the queue", () => {
+    const gameState = createMatch([]);
+    const cityCenter = getCityCenter(gameState, "red");
+    queueWorker(gameState, cityCenter.id);
+    queueWorker(gameState, cityCenter.id);
+    run(gameState, 1000);
+    const [first] = cityCenter.productionQueue;
+
+    gameState.processEvent({ playerId: "red", type: "cancelProduction", buildingId: cityCenter.id, index: 1 });
+    expect(cityCenter.productionQueue).toEqual([first]);
+  });
+
+  it("rejects cancelling an entry that is not in the queue, or in another player's building", () => {
+    const gameState = createMatch([]);
+    const player = gameState.getPlayer("red")!;
+    const cityCenter = getCityCenter(gameState, "red");
+    queueWorker(gameState, cityCenter.id);
+    const afterQueueing = player.getResources();
+
+    expect(gameState.processEvent({ playerId: "red", type: "cancelProduction", buildingId: cityCenter.id, index: 1 })).toBe(false);
+    expect(gameState.processEvent({ playerId: "blue", type: "cancelProduction", buildingId: cityCenter.id, index: 0 })).toBe(false);
+    expect(cityCenter.productionQueue).toHaveLength(1);
+    expect(player.getResources()).toEqual(afterQueueing);
+  });
+});
+
+describe("save and restore", () => {
+  /**
+   * A match with something of everything in flight: a fight, a unit on the move, a worker
+   * gathering, a production queue and a researched tech
+   */
+  function createBusyMatch(): GameState {
+    const gameState = createMatch([
+      { id: "a", playerId: "red", type: "melee", x: 20, y: 20 },
+      { id: "d", playerId: "blue", type: "hero", x: 21, y: 20 },
+      { id: "walker", playerId: "red", type: "melee", x: 16, y: 16 },
+      { id: "worker", playerId: "blue", type: "worker", x: 30, y: 30 }
+    ]);
+    gameState.getMap()[30][33].resource = { type: "food", amount: 500 };
+    const cityCenter = Array.from(gameState.getBuildings().values())
+      .find(building => building.playerId === "red" && building.type === "cityCenter")!;
+    const tech = TECH_DEFINITIONS.find(definition => !gameState.getResearchError("red", definition.id))!;
+
+    expect(gameState.processEvent({ playerId: "red", type: "attack", attackerIds: ["a"], targetId: "d" })).toBe(true);
+    expect(gameState.processEvent({ playerId: "red", type: "unitMove", unitIds: ["walker"], targetX: 34, targetY: 16 })).toBe(true);
+    expect(gameState.processEvent({ playerId: "blue", type: "gatherResource", unitIds: ["worker"], resourceX: 33, resourceY: 30 })).toBe(true);
+    expect(gameState.processEvent({ playerId: "red", type: "queueProduction", buildingId: cityCenter.id, unitType: "worker" })).toBe(true);
+    expect(gameState.processEvent({ playerId: "red", type: "researchTech", techId: tech.id })).toBe(true);
+    run(gameState, 1000);
+
+    return gameState;
+  }
+
+  it("restores a match that saves the same as the original", () => {
+    const gameState = createBusyMatch();
+    const saved = gameState.serialize();
+
+    const restored = GameState.deserialize(saved);
+
+    expect(restored.serialize()).toEqual(saved);
+    expect(restored.getGameState()).toEqual(gameState.getGameState());
+    expect(restored.getUnits().get("walker")!.path.length).toBeGreaterThan(0);
+    expect(restored.getUnits().get("worker")!.isGathering).toBe(true);
+    expect(restored.getPlayer("red")!.getResearchedTechs()).toHaveLength(1);
+  });
+
+  it("plays on exactly like the original, combat rolls included", () => {
+    const gameState = createBusyMatch();
+    const restored = GameState.deserialize(gameState.serialize());
+
+    run(gameState, 10000);
+    run(restored, 10000);
+
+    expect(restored.serialize()).toEqual(gameState.serialize());
+  });
+
+  it("does not share state with the save it came from", () => {
+    const gameState = createBusyMatch();
+    const saved = gameState.serialize();
+    const restored = GameState.deserialize(saved);
+
+    run(restored, 1000);
+
+    expect(saved).toEqual(gameState.serialize());
+  });
+
+  it("refuses saves from another version", () => {
+    const saved = createBusyMatch().serialize();
+
+    expect(() => GameState.deserialize({ ...saved, version: SAVED_GAME_VERSION - 1 }))
+      .toThrow(`Unsupported saved game version ${SAVED_GAME_VERSION - 1}`);
+  });
+});
@@ -0,0 +1,1685 @@
+// Match simulation run by the server GameRoom, and re-run by the client to play back replays
+import { Player, SavedPlayer } from "./player";
+import { GameEvent, GameEventType } from "./types";
+import { findPath, PathPoint } from "./pathfinding";
+import { resolveAttack } from "./combat";
+import { SeededRandom, createSeed } from "./random";
+import { getResearchBlocker, getTechDefinition, TechDefinition } from "./techTree";
+import { canBuildingProduceUnit, getProductionTime } from "./production";
+import { generateMap, assignStartingPositions, STARTING_POSITIONS } from "./mapGeneration";
+import {
+  computeVisibleTiles,
+  getBuildingSight,
+  getUnitSight,
+  isStealthed,
+  revealsStealth,
+  tileKey,
+  STEALTH_REVEAL_RADIUS,
+  VisionSource
+} from "./vision";
+import { MAP_SIZE, TILE_SIZE, BUILDING_STATS, FACTION_BONUSES, UNIT_STATS, STARTING_RESOURCES } from "../client/src/game/config";
+import { MapTile } from "../client/src/game/types";
+
+/**
+ * A unit or building destroyed during the simulation, reported to clients with the next state update
+ */
+export interface KillRecord {
+  entityId: string;
+  entityType: "unit" | "building";
+  ownerId: string;
+  killerId: string;
+  killerPlayerId: string;
+}
+
+/**
+ * Which losses eliminate a player; a player is defeated as soon as any enabled condition holds
+ */
+export interface VictoryConditions {
+  loseWithoutCityCenter: boolean;
+  loseWithoutUnits: boolean;
+}
+
+export const DEFAULT_VICTORY_CONDITIONS: VictoryConditions = {
+  loseWithoutCityCenter: true,
+  loseWithoutUnits: false
+};
+
+/**
+ * Food and ore every player starts with, before faction bonuses
+ */
+export interface StartingResources {
+  food: number;
+  ore: number;
+}
+
+/**
+ * End-of-match statistics for one player
+ */
+export interface PlayerStats {
+  // Units trained during the match, not counting the starting workers
+  unitsProduced: number;
+  unitsKilled: number;
+  unitsLost: number;
+  buildingsDestroyed: number;
+  buildingsLost: number;
+  resourcesGathered: { food: number; ore: number };
+  techsResearched: number;
+}
+
+/**
+ * Outcome of a finished match
+ */
+export interface GameResult {
+  // Every player on the winning side, eliminated teammates included; empty when the last players
+  // were eliminated together
+  winnerIds: string[];
+  // The winners' team, or null when the winner played without one
+  winningTeam: number | null;
+  // Player IDs in the order they were eliminated
+  defeatedPlayerIds: string[];
+  // Game time in milliseconds
+  duration: number;
+  stats: { [playerId: string]: PlayerStats };
+}
+
+// Bumped whenever SavedGameState changes shape, so older saves are refused rather than misread
+export const SAVED_GAME_VERSION = 2;
+
+/**
+ * A match in progress as plain JSON, from GameState.serialize
+ * Units and buildings are saved whole, with their paths, gather and combat targets and
+ * production queues, so a restored match continues exactly where it stopped
+ * Only server matches are saved: solo games run in the client's scene managers rather than a
+ * GameState, so they can't be saved or resumed
+ */
+export interface SavedGameState {
+  version: number;
+  seed: number;
+  victoryConditions: VictoryConditions;
+  startingResources: StartingResources;
+  // The match's roster, in starting order
+  players: SavedPlayer[];
+  units: any[];
+  buildings: any[];
+  // The map as it is now, with building footprints marked unwalkable
+  map: MapTile[][];
+  nextUnitId: number;
+  nextBuildingId: number;
+  combatRngState: number;
+  pendingKills: KillRecord[];
+  // Player ID -> building ID -> last known state
+  exploredBuildings: { [playerId: string]: { [buildingId: string]: any } };
+  defeatedPlayerIds: string[];
+  pendingDefeats: string[];
+  killCounts: { [playerId: string]: { unitsKilled: number; unitsLost: number; buildingsDestroyed: number; buildingsLost: number } };
+  unitsProduced: { [playerId: string]: number };
+  resourcesGathered: { [playerId: string]: { food: number; ore: number } };
+  elapsedTime: number;
+  result: GameResult | null;
+}
+
+export class GameState {
+  private players: Map<string, Player>;
+  private units: Map<string, any>;
+  private buildings: Map<string, any>;
+  private map: MapTile[][];
+  private nextUnitId: number;
+  private nextBuildingId: number;
+  private pendingKills: KillRecord[];
+  private combatRng: SeededRandom;
+  private seed: number;
+  // Per player: last known state of enemy buildings they have seen
+  private exploredBuildings: Map<string, Map<string, any>>;
+  private victoryConditions: VictoryConditions;
+  private startingResources: StartingResources;
+  private defeatedPlayerIds: string[];
+  private pendingDefeats: string[];
+  private killCounts: Map<string, { unitsKilled: number; unitsLost: number; buildingsDestroyed: number; buildingsLost: number }>;
+  private unitsProduced: Map<string, number>;
+  private resourcesGathered: Map<string, { food: number; ore: number }>;
+  private elapsedTime: number;
+  private result: GameResult | null;
+  
+  /**
+   * @param seed Match seed for map generation and combat rolls; reuse it to replay the same map
+   * @param victoryConditions Losses that eliminate a player
+   * @param startingResources Resources each player starts with, before faction bonuses
+   */
+  constructor(
+    players: Map<string, Player>,
+    seed: number = createSeed(),
+    victoryConditions: VictoryConditions = DEFAULT_VICTORY_CONDITIONS,
+    startingResources: StartingResources = STARTING_RESOURCES.standard
+  ) {
+    this.players = new Map(players);
+    this.units = new Map();
+    this.buildings = new Map();
+    this.nextUnitId = 1;
+    this.nextBuildingId = 1;
+    this.pendingKills = [];
+    this.seed = seed;
+    this.exploredBuildings = new Map();
+    this.victoryConditions = { ...victoryConditions };
+    this.startingResources = { ...startingResources };
+    this.defeatedPlayerIds = [];
+    this.pendingDefeats = [];
+    this.killCounts = new Map();
+    this.unitsProduced = new Map();
+    this.resourcesGathered = new Map();
+    this.elapsedTime = 0;
+    this.result = null;
+    this.combatRng = new SeededRandom(seed);
+    
+    // Generate map
+    this.map = generateMap(seed, this.players.size);
+    
+    // Initialize starting resources based on faction
+    this.initializePlayerResources();
+    
+    // Create starting units and buildings
+    this.setupStartingEntities();
+  }
+  
+  processEvent(event: GameEvent): boolean {
+    const { playerId, type } = event;
+    
+    // Check if player exists
+    if (!this.players.has(playerId)) {
+      console.warn(`Unknown player: ${playerId}`);
+      return false;
+    }
+    
+    // Eliminated players can no longer give orders
+    if (this.defeatedPlayerIds.includes(playerId)) {
+      return false;
+    }
+    
+    // Process event based on type
+    switch (type as GameEventType) {
+      case "unitMove":
+        return this.handleUnitMove(event);
+      
+      case "gatherResource":
+        return this.handleGatherResource(event);
+      
+      case "buildingCreate":
+        return this.handleBuildingCreate(event);
+      
+      case "researchTech":
+        return this.handleResearchTech(event);
+      
+      case "attack":
+        return this.handleAttack(event);
+      
+      case "queueProduction":
+        return this.handleQueueProduction(event);
+      
+      case "cancelProduction":
+        return this.handleCancelProduction(event);
+      
+      case "forfeit":
+        return this.handleForfeit(event);
+      
+      default:
+        console.warn(`Unknown event type: ${type}`);
+        return false;
+    }
+  }
+  
+  private handleUnitMove(event: GameEvent): boolean {
+    const { unitIds, targetX, targetY, actionId, timestamp } = event;
+    
+    // Validate target position
+    if (
+      !this.isValidPosition(targetX, targetY) ||
+      !this.isWalkable(targetX, targetY)
+    ) {
+      console.warn(`Invalid movement target: (${targetX}, ${targetY})`);
+      return false;
+    }
+    
+    // Validate units exist
+    if (!unitIds || !Array.isArray(unitIds) || unitIds.length === 0) {
+      console.warn('No valid unit IDs provided for movement');
+      return false;
+    }
+    
+    // Update unit paths
+    let allUnitsValid = true;
+    for (const unitId of unitIds) {
+      const unit = this.units.get(unitId);
+      if (!unit) {
+        allUnitsValid = false;
+        console.warn(`Unit ${unitId} not found`);
+        continue;
+      }
+      
+      // A move order replaces any gathering or attack order
+      unit.isGathering = false;
+      unit.targetResourceX = null;
+      unit.targetResourceY = null;
+      this.stopAttacking(unit);
+      
+      // Calculate an A* path over the server's own map
+      const path = this.findUnitPath(unit, targetX, targetY);
+      unit.targetX = targetX;
+      unit.targetY = targetY;
+      unit.path = path;
+      unit.isMoving = path.length > 0;
+      
+      // Store prediction information for reconciliation if provided
+      if (actionId) {
+        unit.lastMoveAction = {
+          actionId,
+          timestamp: timestamp || Date.now(),
+          targetX,
+          targetY
+        };
+      }
+    }
+    
+    return allUnitsValid;
+  }
+  
+  /**
+   * Send workers to gather from a resource tile; they shuttle between it and the nearest city center
+   */
+  private handleGatherResource(event: GameEvent): boolean {
+    const { playerId, unitIds, resourceX, resourceY } = event;
+    
+    if (!this.isValidPosition(resourceX, resourceY) || !this.map[resourceY][resourceX].resource) {
+      console.warn(`No resource to gather at (${resourceX}, ${resourceY})`);
+      return false;
+    }
+    
+    if (!unitIds || !Array.isArray(unitIds) || unitIds.length === 0) {
+      console.warn('No valid unit IDs provided for gathering');
+      return false;
+    }
+    
+    let anyWorkerAssigned = false;
+    for (const unitId of unitIds) {
+      const unit = this.units.get(unitId);
+      if (!unit || unit.playerId !== playerId || unit.type !== "worker") {
+        console.warn(`Worker ${unitId} not found or not owned by ${playerId}`);
+        continue;
+      }
+      
+      // Gathering replaces any attack order; the gathering update walks the worker over
+      this.stopAttacking(unit);
+      unit.isGathering = true;
+      unit.targetResourceX = resourceX;
+      unit.targetResourceY = resourceY;
+      unit.gatherProgress = 0;
+      unit.path = [];
+      unit.isMoving = false;
+      anyWorkerAssigned = true;
+    }
+    
+    return anyWorkerAssigned;
+  }
+  
+  private handleBuildingCreate(event: GameEvent): boolean {
+    const { playerId, buildingType, x, y } = event;
+    
+    // Validate position
+    if (!this.isValidPosition(x, y)) {
+      return false;
+    }
+    
+    // Get building size
+    const buildingSize = BUILDING_STATS[buildingType as keyof typeof BUILDING_STATS]?.size || 2;
+    
+    // Check if area is clear
+    for (let dx = -Math.floor(buildingSize/2); dx <= Math.floor(buildingSize/2); dx++) {
+      for (let dy = -Math.floor(buildingSize/2); dy <= Math.floor(buildingSize/2); dy++) {
+        const checkX = x + dx;
+        const checkY = y + dy;
+        
+        if (!this.isValidPosition(checkX, checkY) || !this.isWalkable(checkX, checkY)) {
+          return false;
+        }
+      }
+    }
+    
+    // Check if player has enough resources
+    const player = this.players.get(playerId);
+    if (!player) return false;
+    
+    const baseCost = BUILDING_STATS[buildingType as keyof typeof BUILDING_STATS]?.cost;
+    if (!baseCost) return false;
+    
+    const buildingCost = this.applyCostReduction(baseCost, this.getTechMultiplier(playerId, "buildingCostReduction"));
+    if (!player.hasEnoughResources(buildingCost.food, buildingCost.ore)) {
+      return false;
+    }
+    
+    // Deduct resources
+    player.deductResources(buildingCost.food, buildingCost.ore, "buildingCreate", this.elapsedTime);
+    
+    // Create building
+    const buildingId = `building_${playerId}_${this.nextBuildingId++}`;
+    const buildingHealth = Math.floor(
+      BUILDING_STATS[buildingType as keyof typeof BUILDING_STATS].health * this.getTechMultiplier(playerId, "buildingHealth")
+    );
+    this.buildings.set(buildingId, {
+      id: buildingId,
+      type: buildingType,
+      playerId,
+      x,
+      y,
+      health: buildingHealth,
+      maxHealth: buildingHealth,
+      productionQueue: []
+    });
+    
+    // Mark tiles as occupied
+    for (let dx = -Math.floor(buildingSize/2); dx <= Math.floor(buildingSize/2); dx++) {
+      for (let dy = -Math.floor(buildingSize/2); dy <= Math.floor(buildingSize/2); dy++) {
+        const tileX = x + dx;
+        const tileY = y + dy;
+        
+        if (this.isValidPosition(tileX, tileY)) {
+          this.map[tileY][tileX].walkable = false;
+        }
+      }
+    }
+    
+    return true;
+  }
+  
+  private handleResearchTech(event: GameEvent): boolean {
+    const { playerId, techId } = event;
+    
+    if (this.getResearchError(playerId, techId)) {
+      return false;
+    }
+    
+    const player = this.players.get(playerId)!;
+    const tech = getTechDefinition(techId)!;
+    
+    // Deduct resources
+    const cost = this.getTechCost(playerId, tech);
+    player.deductResources(cost.food, cost.ore, "research", this.elapsedTime);
+    
+    // Apply effects to what the player already owns; new units and buildings
+    // pick up researched bonuses when they are created
+    player.addResearchedTech(techId);
+    this.units.forEach(unit => {
+      if (unit.playerId === playerId) {
+        this.applyTechToUnit(unit, tech);
+      }
+    });
+    
+    if (tech.effects.buildingHealth) {
+      this.buildings.forEach(building => {
+        if (building.playerId === playerId) {
+          building.maxHealth = Math.floor(building.maxHealth * tech.effects.buildingHealth);
+          building.health = Math.floor(building.health * tech.effects.buildingHealth);
+        }
+      });
+    }
+    
+    return true;
+  }
+  
+  private handleQueueProduction(event: GameEvent): boolean {
+    const { playerId, buildingId, unitType } = event;
+    
+    const building = this.buildings.get(buildingId);
+    if (!building || building.playerId !== playerId) {
+      return false;
+    }
+    
+    if (!canBuildingProduceUnit(building.type, unitType)) {
+      return false;
+    }
+    
+    const player = this.players.get(playerId);
+    if (!player) return false;
+    
+    const baseCost = UNIT_STATS[unitType as keyof typeof UNIT_STATS]?.cost;
+    if (!baseCost) return false;
+    
+    const cost = this.applyCostReduction(baseCost, this.getTechMultiplier(playerId, "unitProductionCost"));
+    if (!player.deductResources(cost.food, cost.ore, "production", this.elapsedTime)) {
+      return false;
+    }
+    
+    // Build time is fixed when queued, so later research doesn't speed up units already in training
+    const productionTime = getProductionTime(building.type, player.getFaction(), unitType) /
+      this.getTechMultiplier(playerId, "unitProductionSpeed");
+    
+    building.productionQueue.push({
+      type: unitType,
+      remainingTime: productionTime,
+      cost
+    });
+    
+    return true;
+  }
+  
+  private handleCancelProduction(event: GameEvent): boolean {
+    const { playerId, buildingId, index } = event;
+    
+    const building = this.buildings.get(buildingId);
+    if (!building || building.playerId !== playerId) {
+      return false;
+    }
+    
+    if (index < 0 || index >= building.productionQueue.length) {
+      return false;
+    }
+    
+    // Refund the full cost paid when the unit was queued
+    const [cancelled] = building.productionQueue.splice(index, 1);
+    this.players.get(playerId)?.addResources(cancelled.cost.food, cancelled.cost.ore, "productionRefund", this.elapsedTime);
+    
+    return true;
+  }
+  
+  /**
+   * Eliminate a player who has left the match; their units and buildings stay on the map
+   */
+  private handleForfeit(event: GameEvent): boolean {
+    this.defeatedPlayerIds.push(event.playerId);
+    this.pendingDefeats.push(event.playerId);
+    return true;
+  }
+  
+  /**
+   * Check whether a player may research a technology right now
+   * @returns A reason the research would be rejected, or null if it is allowed
+   */
+  getResearchError(playerId: string, techId: string): string | null {
+    const player = this.players.get(playerId);
+    if (!player) return "Unknown player";
+    
+    const blocker = getResearchBlocker(techId, player.getFaction(), player.getResearchedTechs());
+    if (blocker) return blocker;
+    
+    const tech = getTechDefinition(techId)!;
+    const cost = this.getTechCost(playerId, tech);
+    if (!player.hasEnoughResources(cost.food, cost.ore)) {
+      return `Not enough resources to research ${tech.name}`;
+    }
+    
+    return null;
+  }
+  
+  private getTechCost(playerId: string, tech: TechDefinition): { food: number; ore: number } {
+    return this.applyCostReduction(tech.cost, this.getTechMultiplier(playerId, "techCostReduction"));
+  }
+  
+  private applyCostReduction(cost: { food: number; ore: number }, multiplier: number): { food: number; ore: number } {
+    return {
+      food: Math.floor(cost.food * multiplier),
+      ore: Math.floor(cost.ore * multiplier)
+    };
+  }
+  
+  /**
+   * Sum an additive effect (e.g. attack, buildingDefense) over a player's researched techs
+   */
+  private getTechBonus(playerId: string, effect: string): number {
+    return this.getPlayerTechs(playerId).reduce((total, tech) => total + (tech.effects[effect] || 0), 0);
+  }
+  
+  /**
+   * Multiply a scaling effect (e.g. speed, foodGatherRate) over a player's researched techs
+   */
+  private getTechMultiplier(playerId: string, effect: string): number {
+    return this.getPlayerTechs(playerId).reduce((total, tech) => total * (tech.effects[effect] || 1), 1);
+  }
+  
+  private getPlayerTechs(playerId: string): TechDefinition[] {
+    const player = this.players.get(playerId);
+    if (!player) return [];
+    
+    return player.getResearchedTechs()
+      .map(techId => getTechDefinition(techId))
+      .filter((tech): tech is TechDefinition => !!tech);
+  }
+  
+  /**
+   * Apply a tech's unit stat effects to a single unit
+   */
+  private applyTechToUnit(unit: any, tech: TechDefinition): void {
+    const { effects } = tech;
+    
+    if (effects.attack) unit.attack += effects.attack;
+    if (effects.defense) unit.defense += effects.defense;
+    if (effects.speed) unit.speed *= effects.speed;
+    if (effects.unitHealth) {
+      unit.maxHealth = Math.floor(unit.maxHealth * effects.unitHealth);
+      unit.health = Math.floor(unit.health * effects.unitHealth);
+    }
+    
+    if (unit.type === "ranged") {
+      if (effects.rangedAttack) unit.attack += effects.rangedAttack;
+      if (effects.rangedRange) unit.range += effects.rangedRange;
+    }
+    if (unit.type === "melee" && effects.meleeAttack) {
+      unit.attack += effects.meleeAttack;
+    }
+  }
+  
+  private handleAttack(event: GameEvent): boolean {
+    const { playerId, attackerIds, targetId } = event;
+    
+    if (!attackerIds || !Array.isArray(attackerIds) || attackerIds.length === 0) {
+      console.warn('No valid attacker IDs provided for attack');
+      return false;
+    }
+    
+    // Target may be a unit or a building, but never one of the attacker's own or an ally's
+    const targetUnit = this.units.get(targetId);
+    const targetBuilding = targetUnit ? undefined : this.buildings.get(targetId);
+    const target = targetUnit || targetBuilding;
+    
+    if (!target) {
+      console.warn(`Attack target ${targetId} not found`);
+      return false;
+    }
+    
+    if (this.areAllies(playerId, target.playerId)) {
+      console.warn(`Player ${playerId} cannot attack their own or an ally's entity ${targetId}`);
+      return false;
+    }
+    
+    let anyAttackerAssigned = false;
+    for (const attackerId of attackerIds) {
+      const unit = this.units.get(attackerId);
+      if (!unit || unit.playerId !== playerId) {
+        console.warn(`Attacker ${attackerId} not found or not owned by ${playerId}`);
+        continue;
+      }
+      
+      // Attacking replaces any gathering order
+      unit.isGathering = false;
+      unit.isAttacking = true;
+      unit.targetUnitId = targetUnit ? targetId : null;
+      unit.targetBuildingId = targetBuilding ? targetId : null;
+      unit.attackCooldown = 0;
+      anyAttackerAssigned = true;
+    }
+    
+    return anyAttackerAssigned;
+  }
+  
+  private isValidPosition(x: number, y: number): boolean {
+    return x >= 0 && x < MAP_SIZE && y >= 0 && y < MAP_SIZE;
+  }
+  
+  private isWalkable(x: number, y: number): boolean {
+    if (!this.isValidPosition(x, y)) {
+      return false;
+    }
+    
+    return this.map[y][x].walkable;
+  }
+  
+  private initializePlayerResources(): void {
+    this.players.forEach(player => {
+      const faction = player.getFaction();
+      
+      // Set starting resources based on faction
+      const factionBonus = faction ? (FACTION_BONUSES[faction] as any).startingResources : undefined;
+      const startingFood = this.startingResources.food + (factionBonus?.food || 0);
+      const startingOre = this.startingResources.ore + (factionBonus?.ore || 0);
+      
+      player.setResources({ food: startingFood, ore: startingOre }, "startingResources", this.elapsedTime);
+    });
+  }
+  
+  private setupStartingEntities(): void {
+    // The map generator has already cleared each starting area
+    const players = Array.from(this.players.values());
+    const positions = assignStartingPositions(players.map(player => player.getTeam()));
+    
+    players.forEach((player, playerIndex) => {
+      const startPos = STARTING_POSITIONS[positions[playerIndex]];
+      
+      // Create city center
+      const cityCenterId = `building_${player.id}_${this.nextBuildingId++}`;
+      this.buildings.set(cityCenterId, {
+        id: cityCenterId,
+        type: "cityCenter",
+        playerId: player.id,
+        x: startPos.x,
+        y: startPos.y,
+        health: 1000,
+        maxHealth: 1000,
+        productionQueue: []
+      });
+      
+      // Mark tiles as occupied by the city center (3x3)
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const tileX = startPos.x + dx;
+          const tileY = startPos.y + dy;
+          
+          if (this.isValidPosition(tileX, tileY)) {
+            this.map[tileY][tileX].walkable = false;
+          }
+        }
+      }
+      
+      // Create initial workers
+      for (let w = 0; w < 3; w++) {
+        const workerX = startPos.x + Math.cos(w * 2.1) * 2;
+        const workerY = startPos.y + Math.sin(w * 2.1) * 2;
+        
+        // Round to valid tile position
+        const tileX = Math.floor(workerX);
+        const tileY = Math.floor(workerY);
+        
+        if (this.isValidPosition(tileX, tileY) && this.isWalkable(tileX, tileY)) {
+          const workerId = `unit_${player.id}_${this.nextUnitId++}`;
+          this.units.set(workerId, this.buildUnit(workerId, player.id, "worker", tileX, tileY));
+        }
+      }
+    });
+  }
+  
+  /**
+   * Update the game state based on time elapsed
+   * This handles continuous processes like:
+   * - Resource gathering
+   * - Unit movement
+   * - Building production
+   * - Combat
+   * 
+   * @param deltaTime Time since last update in milliseconds
+   */
+  update(deltaTime: number): void {
+    // Calculate real seconds for game time scaling (speed up or slow down game)
+    const seconds = deltaTime / 1000;
+    
+    // Update all units
+    this.updateUnits(seconds);
+    
+    // Update all buildings
+    this.updateBuildings(seconds);
+    
+    this.elapsedTime += deltaTime;
+    
+    // Check for eliminations and the end of the match
+    this.updateVictoryConditions();
+  }
+  
+  /**
+   * Eliminate players who meet a defeat condition and end the match when one player or team is left
+   */
+  private updateVictoryConditions(): void {
+    if (this.result) return;
+    
+    this.players.forEach((player, playerId) => {
+      if (this.defeatedPlayerIds.includes(playerId)) return;
+      
+      if (this.isEliminated(playerId)) {
+        this.defeatedPlayerIds.push(playerId);
+        this.pendingDefeats.push(playerId);
+      }
+    });
+    
+    const remaining = Array.from(this.players.keys()).filter(id => !this.defeatedPlayerIds.includes(id));
+    if (remaining.every(id => this.areAllies(id, remaining[0]))) {
+      // The whole team shares the win, including allies eliminated along the way
+      const winnerIds = remaining.length > 0
+        ? Array.from(this.players.keys()).filter(id => this.areAllies(id, remaining[0]))
+        : [];
+      
+      this.result = {
+        winnerIds,
+        winningTeam: remaining.length > 0 ? this.players.get(remaining[0])!.getTeam() : null,
+        defeatedPlayerIds: [...this.defeatedPlayerIds],
+        duration: this.elapsedTime,
+        stats: this.getPlayerStats()
+      };
+    }
+  }
+  
+  /**
+   * Whether two players fight on the same side; every player is their own ally
+   */
+  areAllies(playerId: string, otherPlayerId: string): boolean {
+    if (playerId === otherPlayerId) return true;
+    
+    const team = this.players.get(playerId)?.getTeam();
+    return team !== null && team !== undefined && team === this.players.get(otherPlayerId)?.getTeam();
+  }
+  
+  private isEliminated(playerId: string): boolean {
+    const { loseWithoutCityCenter, loseWithoutUnits } = this.victoryConditions;
+    
+    if (loseWithoutCityCenter && !this.hasEntity(this.buildings, playerId, b => b.type === "cityCenter")) {
+      return true;
+    }
+    
+    if (loseWithoutUnits && !this.hasEntity(this.units, playerId, () => true)) {
+      return true;
+    }
+    
+    return false;
+  }
+  
+  private hasEntity(entities: Map<string, any>, playerId: string, predicate: (entity: any) => boolean): boolean {
+    for (const entity of entities.values()) {
+      if (entity.playerId === playerId && predicate(entity)) {
+        return true;
+      }
+    }
+    return false;
+  }
+  
+  /**
+   * Statistics for every player in the match so far
+   */
+  getPlayerStats(): { [playerId: string]: PlayerStats } {
+    const stats: { [playerId: string]: PlayerStats } = {};
+    
+    this.players.forEach((player, playerId) => {
+      stats[playerId] = {
+        unitsProduced: this.unitsProduced.get(playerId) || 0,
+        ...this.getKillCounts(playerId),
+        resourcesGathered: { ...this.getResourcesGathered(playerId) },
+        techsResearched: player.getResearchedTechs().length
+      };
+    });
+    
+    return stats;
+  }
+  
+  getPlayer(playerId: string): Player | undefined {
+    return this.players.get(playerId);
+  }
+  
+  /**
+   * Everyone the match started with, in join order, including players who have since left
+   */
+  getPlayers(): Player[] {
+    return Array.from(this.players.values());
+  }
+  
+  isDefeated(playerId: string): boolean {
+    return this.defeatedPlayerIds.includes(playerId);
+  }
+  
+  /**
+   * Take the players eliminated since the last call, clearing the list
+   */
+  drainDefeats(): string[] {
+    const defeats = this.pendingDefeats;
+    this.pendingDefeats = [];
+    return defeats;
+  }
+  
+  /**
+   * The match outcome, or null while the game is still running
+   */
+  getResult(): GameResult | null {
+    return this.result;
+  }
+  
+  /**
+   * Update all units in the game (movement, gathering, combat)
+   */
+  private updateUnits(deltaSeconds: number): void {
+    this.units.forEach((unit) => {
+      // Process unit movement
+      if (unit.isMoving && unit.path && unit.path.length > 0) {
+        this.updateUnitMovement(unit, deltaSeconds);
+      }
+      
+      // Process resource gathering
+      if (unit.isGathering && unit.targetResourceX !== null && unit.targetResourceY !== null) {
+        this.updateResourceGathering(unit, deltaSeconds);
+      }
+      
+      // Handle automatic combat (units attacking when in range)
+      if (unit.isAttacking && (unit.targetUnitId || unit.targetBuildingId)) {
+        this.updateCombat(unit, deltaSeconds);
+      }
+    });
+  }
+  
+  /**
+   * Update unit position based on its current path
+   */
+  private updateUnitMovement(unit: any, deltaSeconds: number): void {
+    if (!unit.path || unit.path.length === 0) {
+      unit.isMoving = false;
+      return;
+    }
+    
+    // Get next waypoint
+    const nextWaypoint = unit.path[0];
+    
+    // Calculate distance to waypoint
+    const dx = nextWaypoint.x - unit.x;
+    const dy = nextWaypoint.y - unit.y;
+    const distanceToWaypoint = Math.sqrt(dx * dx + dy * dy);
+    
+    // Calculate how far unit can move this frame (speed is in pixels per second)
+    const moveDistance = (unit.speed / TILE_SIZE) * deltaSeconds;
+    
+    if (distanceToWaypoint <= moveDistance) {
+      // Reached waypoint
+      unit.x = nextWaypoint.x;
+      unit.y = nextWaypoint.y;
+      unit.path.shift();
+      
+      // If no more waypoints, stop moving
+      if (unit.path.length === 0) {
+        unit.isMoving = false;
+      }
+    } else {
+      // Move toward waypoint
+      const ratio = moveDistance / distanceToWaypoint;
+      unit.x += dx * ratio;
+      unit.y += dy * ratio;
+    }
+  }
+  
+  /**
+   * Update resource gathering for workers
+   */
+  private updateResourceGathering(unit: any, deltaSeconds: number): void {
+    // Only worker units can gather resources
+    if (unit.type !== "worker") return;
+    
+    // Check if the resource exists
+    const tileX = Math.floor(unit.targetResourceX);
+    const tileY = Math.floor(unit.targetResourceY);
+    
+    if (!this.isValidPosition(tileX, tileY) || !this.map[tileY][tileX].resource) {
+      unit.isGathering = false;
+      unit.targetResourceX = null;
+      unit.targetResourceY = null;
+      return;
+    }
+    
+    const resource = this.map[tileY][tileX].resource;
+    
+    // Walking between the resource and the drop-off
+    if (unit.isMoving) return;
+    
+    // Calculate how much to gather this update
+    // Based on gather rate and faction bonuses
+    const player = this.players.get(unit.playerId);
+    if (!player) return;
+    
+    // If not carrying any resources, gather from node
+    if (!unit.carryingResource) {
+      // Walk to the resource before gathering from it
+      if (Math.hypot(tileX - unit.x, tileY - unit.y) > 1) {
+        unit.path = this.findUnitPath(unit, tileX, tileY);
+        unit.isMoving = unit.path.length > 0;
+        if (!unit.isMoving) {
+          // The resource can't be reached
+          unit.isGathering = false;
+        }
+        return;
+      }
+      
+      // Increase gather progress
+      unit.gatherProgress = (unit.gatherProgress || 0) + deltaSeconds;
+      
+      // Complete a gathering cycle
+      if (unit.gatherProgress >= 3) { // 3 seconds to gather
+        unit.gatherProgress = 0;
+        
+        // Start carrying resource
+        const gatherRate = this.getTechMultiplier(
+          unit.playerId,
+          resource.type === "food" ? "foodGatherRate" : "oreGatherRate"
+        );
+        const amountToGather = Math.min(resource.amount, Math.floor(10 * gatherRate));
+        
+        if (amountToGather <= 0) {
+          // Resource depleted
+          this.map[tileY][tileX].resource = null;
+          unit.isGathering = false;
+          return;
+        }
+        
+        // Player now carrying resource
+        unit.carryingResource = {
+          type: resource.type,
+          amount: amountToGather
+        };
+        
+        // Reduce resource node amount
+        resource.amount -= amountToGather;
+      }
+    } else {
+      // If already carrying resource, find dropoff point
+      // Find nearest city center
+      let nearestBuilding: any = null;
+      let nearestDistance = Infinity;
+      
+      this.buildings.forEach((building) => {
+        if (building.playerId === unit.playerId && building.type === "cityCenter") {
+          const dist = Math.hypot(building.x - unit.x, building.y - unit.y);
+          if (dist < nearestDistance) {
+            nearestDistance = dist;
+            nearestBuilding = building;
+          }
+        }
+      });
+      
+      // If close enough to dropoff, deposit resources
+      if (nearestBuilding && nearestDistance < 3) {
+        // Add resources to player
+        const resourceAmount = unit.carryingResource.amount;
+        const gathered = this.getResourcesGathered(player.id);
+        if (unit.carryingResource.type === "food") {
+          player.addResources(resourceAmount, 0, "gathering", this.elapsedTime);
+          gathered.food += resourceAmount;
+        } else {
+          player.addResources(0, resourceAmount, "gathering", this.elapsedTime);
+          gathered.ore += resourceAmount;
+        }
+        
+        // Clear carried resources; the next update walks the worker back to the resource
+        unit.carryingResource = null;
+      } else if (nearestBuilding) {
+        // Move toward dropoff point, still gathering
+        unit.path = this.findUnitPath(unit, nearestBuilding.x, nearestBuilding.y);
+        unit.isMoving = unit.path.length > 0;
+        if (!unit.isMoving) {
+          // The drop-off can't be reached
+          unit.isGathering = false;
+        }
+      } else {
+        // No dropoff found, cancel gathering
+        unit.isGathering = false;
+        unit.carryingResource = null;
+      }
+    }
+  }
+  
+  /**
+   * Update combat between a unit and its unit or building target
+   */
+  private updateCombat(unit: any, deltaSeconds: number): void {
+    // Attackers removed earlier in this tick no longer fight
+    if (!this.units.has(unit.id)) return;
+    
+    const targetUnit = unit.targetUnitId ? this.units.get(unit.targetUnitId) : undefined;
+    const targetBuilding = unit.targetBuildingId ? this.buildings.get(unit.targetBuildingId) : undefined;
+    const target = targetUnit || targetBuilding;
+    
+    // If target doesn't exist anymore, stop attacking
+    if (!target) {
+      this.stopAttacking(unit);
+      return;
+    }
+    
+    // Check if in range (buildings can be hit from anywhere along their footprint)
+    const halfExtent = targetBuilding ? this.getBuildingSize(targetBuilding.type) / 2 : 0;
+    const distance = Math.hypot(
+      Math.max(0, Math.abs(target.x - unit.x) - halfExtent),
+      Math.max(0, Math.abs(target.y - unit.y) - halfExtent)
+    );
+    const inRange = distance <= unit.range;
+    
+    if (!inRange) {
+      // Re-path toward the target when idle or once the target has left the planned destination
+      const targetTileX = Math.round(target.x);
+      const targetTileY = Math.round(target.y);
+      if (!unit.isMoving || unit.targetX !== targetTileX || unit.targetY !== targetTileY) {
+        unit.targetX = targetTileX;
+        unit.targetY = targetTileY;
+        unit.path = this.findUnitPath(unit, targetTileX, targetTileY);
+        unit.isMoving = unit.path.length > 0;
+      }
+      return;
+    }
+    
+    // Stop and fight once the target is in range
+    if (unit.isMoving) {
+      unit.isMoving = false;
+      unit.path = [];
+    }
+    
+    // Attack cooldown
+    unit.attackCooldown = (unit.attackCooldown || 0) - deltaSeconds;
+    if (unit.attackCooldown > 0) return;
+    
+    // Reset cooldown
+    unit.attackCooldown = 1; // 1 second between attacks
+    
+    // Calculate damage with the shared combat rules
+    const { damage } = resolveAttack({
+      attackerType: unit.type,
+      attack: unit.attack,
+      defenderType: targetUnit ? targetUnit.type : undefined,
+      defense: targetUnit
+        ? targetUnit.defense
+        : (BUILDING_STATS[targetBuilding.type as keyof typeof BUILDING_STATS]?.defense || 0) +
+          this.getTechBonus(targetBuilding.playerId, "buildingDefense") +
+          this.getFactionBonus(targetBuilding.playerId, "buildingDefense")
+    }, this.combatRng);
+    
+    // Apply damage to target
+    target.health -= damage;
+    
+    // Check if target is dead
+    if (target.health <= 0) {
+      if (targetUnit) {
+        this.removeUnit(targetUnit.id, unit);
+      } else {
+        this.removeBuilding(targetBuilding.id, unit);
+      }
+      this.stopAttacking(unit);
+    }
+  }
+  
+  private stopAttacking(unit: any): void {
+    unit.isAttacking = false;
+    unit.targetUnitId = null;
+    unit.targetBuildingId = null;
+  }
+  
+  /**
+   * Remove a destroyed unit and record the kill for the next state update
+   */
+  private removeUnit(unitId: string, killer: any): void {
+    const unit = this.units.get(unitId);
+    if (!unit) return;
+    
+    this.units.delete(unitId);
+    this.recordKill({
+      entityId: unitId,
+      entityType: "unit",
+      ownerId: unit.playerId,
+      killerId: killer.id,
+      killerPlayerId: killer.playerId
+    });
+  }
+  
+  /**
+   * Remove a destroyed building, free its tiles and record the kill for the next state update
+   */
+  private removeBuilding(buildingId: string, killer: any): void {
+    const building = this.buildings.get(buildingId);
+    if (!building) return;
+    
+    this.buildings.delete(buildingId);
+    
+    // Free the footprint so units can path through the rubble
+    const halfSize = Math.floor(this.getBuildingSize(building.type) / 2);
+    for (let dy = -halfSize; dy <= halfSize; dy++) {
+      for (let dx = -halfSize; dx <= halfSize; dx++) {
+        const tileX = building.x + dx;
+        const tileY = building.y + dy;
+        
+        if (this.isValidPosition(tileX, tileY) && this.map[tileY][tileX].type !== 'water') {
+          this.map[tileY][tileX].walkable = true;
+        }
+      }
+    }
+    
+    this.recordKill({
+      entityId: buildingId,
+      entityType: "building",
+      ownerId: building.playerId,
+      killerId: killer.id,
+      killerPlayerId: killer.playerId
+    });
+  }
+  
+  private recordKill(kill: KillRecord): void {
+    this.pendingKills.push(kill);
+    
+    const killer = this.getKillCounts(kill.killerPlayerId);
+    const owner = this.getKillCounts(kill.ownerId);
+    if (kill.entityType === "unit") {
+      killer.unitsKilled++;
+      owner.unitsLost++;
+    } else {
+      killer.buildingsDestroyed++;
+      owner.buildingsLost++;
+    }
+  }
+  
+  private countProducedUnit(playerId: string): void {
+    this.unitsProduced.set(playerId, (this.unitsProduced.get(playerId) || 0) + 1);
+  }
+  
+  private getResourcesGathered(playerId: string) {
+    if (!this.resourcesGathered.has(playerId)) {
+      this.resourcesGathered.set(playerId, { food: 0, ore: 0 });
+    }
+    return this.resourcesGathered.get(playerId)!;
+  }
+  
+  private getKillCounts(playerId: string) {
+    if (!this.killCounts.has(playerId)) {
+      this.killCounts.set(playerId, { unitsKilled: 0, unitsLost: 0, buildingsDestroyed: 0, buildingsLost: 0 });
+    }
+    return this.killCounts.get(playerId)!;
+  }
+  
+  private getBuildingSize(buildingType: string): number {
+    return BUILDING_STATS[buildingType as keyof typeof BUILDING_STATS]?.size || 2;
+  }
+  
+  /**
+   * Update building production and capabilities
+   */
+  private updateBuildings(deltaSeconds: number): void {
+    this.buildings.forEach((building) => {
+      // Handle production queue
+      if (building.productionQueue && building.productionQueue.length > 0) {
+        const currentProduction = building.productionQueue[0];
+        
+        // Progress production
+        currentProduction.remainingTime -= deltaSeconds * 1000; // Convert to ms
+        
+        // If production complete
+        if (currentProduction.remainingTime <= 0) {
+          // Remove from queue
+          building.productionQueue.shift();
+          
+          // Create the produced unit
+          if (currentProduction.type === "worker" || 
+              currentProduction.type === "melee" || 
+              currentProduction.type === "ranged" || 
+              currentProduction.type === "cavalry" || 
+              currentProduction.type === "hero") {
+            
+            // Create unit near building
+            this.createUnitNearBuilding(building, currentProduction.type);
+          }
+        }
+      }
+    });
+  }
+  
+  /**
+   * Create a new unit near a building
+   */
+  private createUnitNearBuilding(building: any, unitType: string): string {
+    // Find a valid position near the building
+    const positions = [
+      { x: building.x + 2, y: building.y },
+      { x: building.x - 2, y: building.y },
+      { x: building.x, y: building.y + 2 },
+      { x: building.x, y: building.y - 2 },
+      { x: building.x + 1, y: building.y + 1 },
+      { x: building.x - 1, y: building.y - 1 },
+      { x: building.x + 1, y: building.y - 1 },
+      { x: building.x - 1, y: building.y + 1 }
+    ];
+    
+    let validPosition = null;
+    
+    for (const pos of positions) {
+      if (this.isValidAndWalkablePosition(pos.x, pos.y)) {
+        validPosition = pos;
+        break;
+      }
+    }
+    
+    // If no valid position found, try to find one nearby
+    if (!validPosition) {
+      for (let xOffset = -3; xOffset <= 3; xOffset++) {
+        for (let yOffset = -3; yOffset <= 3; yOffset++) {
+          const x = building.x + xOffset;
+          const y = building.y + yOffset;
+          
+          if (this.isValidAndWalkablePosition(x, y)) {
+            validPosition = { x, y };
+            break;
+          }
+        }
+        if (validPosition) break;
+      }
+    }
+    
+    // If still no valid position, return empty string (failed to create)
+    if (!validPosition) {
+      return "";
+    }
+    
+    // Create the unit
+    const unitId = `unit_${building.playerId}_${this.nextUnitId++}`;
+    if (!this.players.has(building.playerId)) return "";
+    
+    const unit = this.buildUnit(unitId, building.playerId, unitType, validPosition.x, validPosition.y);
+    
+    // Add to units map
+    this.units.set(unitId, unit);
+    this.countProducedUnit(building.playerId);
+    
+    return unitId;
+  }
+  
+  /**
+   * Build a unit record with base stats for its type plus the owner's researched bonuses
+   */
+  private buildUnit(unitId: string, playerId: string, unitType: string, x: number, y: number): any {
+    const player = this.players.get(playerId);
+    const faction = player?.getFaction() || "Nephites"; // Default to Nephites if not set
+    
+    // Get base stats for this unit type
+    const stats = UNIT_STATS[unitType as keyof typeof UNIT_STATS] || {
+      health: 100, attack: 10, defense: 5, range: 1, speed: 80
+    };
+    
+    const unit: any = {
+      id: unitId,
+      playerId,
+      type: unitType,
+      faction,
+      health: stats.health,
+      maxHealth: stats.health,
+      attack: stats.attack,
+      defense: stats.defense,
+      range: stats.range,
+      speed: stats.speed,
+      x,
+      y,
+      targetX: null,
+      targetY: null,
+      isMoving: false,
+      isGathering: false,
+      isAttacking: false,
+      path: [],
+      targetResourceX: null,
+      targetResourceY: null,
+      targetUnitId: null,
+      carryingResource: null
+    };
+    
+    // Passive faction bonuses
+    unit.attack += this.getFactionBonus(playerId, "attack");
+    unit.defense += this.getFactionBonus(playerId, "defense");
+    if (unitType === "melee") {
+      unit.attack += this.getFactionBonus(playerId, "meleeAttackBonus");
+    }
+    
+    this.getPlayerTechs(playerId).forEach(tech => this.applyTechToUnit(unit, tech));
+    
+    return unit;
+  }
+  
+  /**
+   * A numeric passive bonus from the player's faction in FACTION_BONUSES, or 0 if it has none
+   */
+  private getFactionBonus(playerId: string, bonus: string): number {
+    const faction = this.players.get(playerId)?.getFaction();
+    if (!faction) return 0;
+    
+    const value = (FACTION_BONUSES[faction] as any)[bonus];
+    return typeof value === "number" ? value : 0;
+  }
+  
+  /**
+   * Compute an A* path from a unit's current tile to a target tile
+   */
+  private findUnitPath(unit: any, targetX: number, targetY: number): PathPoint[] {
+    const startX = Math.round(unit.x);
+    const startY = Math.round(unit.y);
+    
+    return findPath(this.map, startX, startY, Math.round(targetX), Math.round(targetY));
+  }
+  
+  /**
+   * Check if position is valid and walkable
+   */
+  private isValidAndWalkablePosition(x: number, y: number): boolean {
+    return this.isValidPosition(x, y) && this.isWalkable(x, y);
+  }
+  
+  /**
+   * Take the kills recorded since the last call, clearing the list
+   */
+  drainKills(): KillRecord[] {
+    const kills = this.pendingKills;
+    this.pendingKills = [];
+    return kills;
+  }
+  
+  /**
+   * Get all units for validation
+   * @returns Map of all units
+   */
+  getUnits(): Map<string, any> {
+    return this.units;
+  }
+  
+  /**
+   * Get all buildings for validation
+   * @returns Map of all buildings
+   */
+  getBuildings(): Map<string, any> {
+    return this.buildings;
+  }
+  
+  /**
+   * Get the terrain, resources and occupied tiles the simulation paths over
+   * @returns The live map; callers must not modify it
+   */
+  getMap(): MapTile[][] {
+    return this.map;
+  }
+  
+  /**
+   * Get unit cost data for validation
+   * @returns Object containing unit costs
+   */
+  getUnitCosts(): { [unitType: string]: { food: number; ore: number } } {
+    const costs: { [unitType: string]: { food: number; ore: number } } = {};
+    
+    // Extract cost information from UNIT_STATS
+    Object.entries(UNIT_STATS).forEach(([unitType, stats]: [string, any]) => {
+      if (stats && stats.cost) {
+        costs[unitType] = stats.cost;
+      }
+    });
+    
+    return costs;
+  }
+  
+  /**
+   * Get building cost data for validation
+   * @returns Object containing building costs
+   */
+  getBuildingCosts(): { [buildingType: string]: { food: number; ore: number } } {
+    const costs: { [buildingType: string]: { food: number; ore: number } } = {};
+    
+    // Extract cost information from BUILDING_STATS
+    Object.entries(BUILDING_STATS).forEach(([buildingType, stats]: [string, any]) => {
+      if (stats && stats.cost) {
+        costs[buildingType] = stats.cost;
+      }
+    });
+    
+    return costs;
+  }
+  
+  /**
+   * The game state as seen by one player: their own and their allies' entities, enemies inside
+   * their team's shared vision, and the last known state of enemy buildings they have explored
+   */
+  getVisibleState(playerId: string): any {
+    const fullState = this.getGameState();
+    const visibleTiles = this.computePlayerVision(playerId);
+    
+    if (!this.exploredBuildings.has(playerId)) {
+      this.exploredBuildings.set(playerId, new Map());
+    }
+    const explored = this.exploredBuildings.get(playerId)!;
+    
+    const units: { [unitId: string]: any } = {};
+    this.units.forEach((unit, unitId) => {
+      if (this.areAllies(playerId, unit.playerId) || this.isUnitVisibleTo(unit, playerId, visibleTiles)) {
+        units[unitId] = fullState.units[unitId];
+      }
+    });
+    
+    const buildings: { [buildingId: string]: any } = {};
+    this.buildings.forEach((building, buildingId) => {
+      if (building.playerId === playerId) {
+        buildings[buildingId] = fullState.buildings[buildingId];
+      } else if (this.areAllies(playerId, building.playerId)) {
+        // Allies see each other's bases but not what they are producing
+        const { productionQueue, ...allyBuilding } = fullState.buildings[buildingId];
+        buildings[buildingId] = allyBuilding;
+      } else if (this.isBuildingVisible(building, visibleTiles)) {
+        // Enemy production is not visible from outside
+        const { productionQueue, ...visibleBuilding } = fullState.buildings[buildingId];
+        buildings[buildingId] = visibleBuilding;
+        explored.set(buildingId, visibleBuilding);
+      }
+    });
+    
+    // Remembered buildings stay on the map until the player sees their site again
+    explored.forEach((building, buildingId) => {
+      if (buildings[buildingId]) return;
+      
+      if (!this.buildings.has(buildingId) && visibleTiles.has(tileKey(building.x, building.y))) {
+        explored.delete(buildingId);
+      } else {
+        buildings[buildingId] = { ...building, explored: true };
+      }
+    });
+    
+    // Other players' economy and research stay private
+    const players: { [id: string]: any } = {};
+    Object.entries(fullState.players).forEach(([id, player]: [string, any]) => {
+      players[id] = id === playerId
+        ? player
+        : { id, username: player.username, faction: player.faction, team: player.team };
+    });
+    
+    return {
+      players,
+      units,
+      buildings,
+      timestamp: fullState.timestamp
+    };
+  }
+  
+  /**
+   * Tiles currently visible to a player from their own and their allies' units and buildings
+   */
+  private computePlayerVision(playerId: string): Set<number> {
+    const sources: VisionSource[] = [];
+    
+    // Each owner's vision techs extend their own entities' sight
+    const sightMultipliers = new Map<string, number>();
+    this.players.forEach((_, id) => {
+      if (this.areAllies(playerId, id)) {
+        sightMultipliers.set(id, this.getTechMultiplier(id, "visionRange"));
+      }
+    });
+    
+    this.units.forEach(unit => {
+      const sightMultiplier = sightMultipliers.get(unit.playerId);
+      if (sightMultiplier !== undefined) {
+        sources.push({ x: unit.x, y: unit.y, radius: getUnitSight(unit.type) * sightMultiplier });
+      }
+    });
+    
+    this.buildings.forEach(building => {
+      const sightMultiplier = sightMultipliers.get(building.playerId);
+      if (sightMultiplier !== undefined) {
+        sources.push({ x: building.x, y: building.y, radius: getBuildingSight(building.type) * sightMultiplier });
+      }
+    });
+    
+    return computeVisibleTiles(sources);
+  }
+  
+  private isUnitVisibleTo(unit: any, playerId: string, visibleTiles: Set<number>): boolean {
+    if (!visibleTiles.has(tileKey(Math.round(unit.x), Math.round(unit.y)))) {
+      return false;
+    }
+    
+    if (!isStealthed(unit)) {
+      return true;
+    }
+    
+    // Stealthed units are only spotted up close or by a revealing building
+    for (const viewer of this.units.values()) {
+      if (this.areAllies(playerId, viewer.playerId) &&
+          Math.hypot(viewer.x - unit.x, viewer.y - unit.y) <= STEALTH_REVEAL_RADIUS) {
+        return true;
+      }
+    }
+    
+    for (const building of this.buildings.values()) {
+      if (this.areAllies(playerId, building.playerId) && revealsStealth(building.type) &&
+          Math.hypot(building.x - unit.x, building.y - unit.y) <= getBuildingSight(building.type)) {
+        return true;
+      }
+    }
+    
+    return false;
+  }
+  
+  private isBuildingVisible(building: any, visibleTiles: Set<number>): boolean {
+    const halfSize = Math.floor(this.getBuildingSize(building.type) / 2);
+    
+    for (let dy = -halfSize; dy <= halfSize; dy++) {
+      for (let dx = -halfSize; dx <= halfSize; dx++) {
+        const tileX = building.x + dx;
+        const tileY = building.y + dy;
+        if (this.isValidPosition(tileX, tileY) && visibleTiles.has(tileKey(tileX, tileY))) {
+          return true;
+        }
+      }
+    }
+    
+    return false;
+  }
+  
+  /**
+   * Seed the map and combat rolls were generated from
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+  
+  getVictoryConditions(): VictoryConditions {
+    return { ...this.victoryConditions };
+  }
+  
+  getStartingResources(): StartingResources {
+    return { ...this.startingResources };
+  }
+  
+  /**
+   * Save the whole match, for deserialize to restore later or on another server process
+   */
+  serialize(): SavedGameState {
+    return structuredClone({
+      version: SAVED_GAME_VERSION,
+      seed: this.seed,
+      victoryConditions: this.victoryConditions,
+      startingResources: this.startingResources,
+      players: Array.from(this.players.values()).map(player => player.toSaved()),
+      units: Array.from(this.units.values()),
+      buildings: Array.from(this.buildings.values()),
+      map: this.map,
+      nextUnitId: this.nextUnitId,
+      nextBuildingId: this.nextBuildingId,
+      combatRngState: this.combatRng.getState(),
+      pendingKills: this.pendingKills,
+      exploredBuildings: Object.fromEntries(
+        Array.from(this.exploredBuildings.entries()).map(([playerId, explored]) => [playerId, Object.fromEntries(explored)])
+      ),
+      defeatedPlayerIds: this.defeatedPlayerIds,
+      pendingDefeats: this.pendingDefeats,
+      killCounts: Object.fromEntries(this.killCounts),
+      unitsProduced: Object.fromEntries(this.unitsProduced),
+      resourcesGathered: Object.fromEntries(this.resourcesGathered),
+      elapsedTime: this.elapsedTime,
+      result: this.result
+    });
+  }
+  
+  /**
+   * Restore a match saved by serialize; the map and starting entities come from the save
+   * rather than being generated again
+   * @param players The roster to use instead of rebuilding it from the save, when the caller
+   *   already has the players, e.g. a room restoring its own seats
+   */
+  static deserialize(saved: SavedGameState, players?: Map<string, Player>): GameState {
+    if (saved.version !== SAVED_GAME_VERSION) {
+      throw new Error(`Unsupported saved game version ${saved.version}`);
+    }
+    
+    const data = structuredClone(saved);
+    const gameState: GameState = Object.create(GameState.prototype);
+    
+    gameState.players = new Map(data.players.map(savedPlayer => [
+      savedPlayer.id,
+      players?.get(savedPlayer.id) ?? Player.fromSaved(savedPlayer)
+    ]));
+    gameState.units = new Map(data.units.map(unit => [unit.id, unit]));
+    gameState.buildings = new Map(data.buildings.map(building => [building.id, building]));
+    gameState.map = data.map;
+    gameState.nextUnitId = data.nextUnitId;
+    gameState.nextBuildingId = data.nextBuildingId;
+    gameState.pendingKills = data.pendingKills;
+    gameState.combatRng = new SeededRandom(data.seed);
+    gameState.combatRng.setState(data.combatRngState);
+    gameState.seed = data.seed;
+    gameState.exploredBuildings = new Map(
+      Object.entries(data.exploredBuildings).map(([playerId, explored]) => [playerId, new Map(Object.entries(explored))])
+    );
+    gameState.victoryConditions = data.victoryConditions;
+    gameState.startingResources = data.startingResources;
+    gameState.defeatedPlayerIds = data.defeatedPlayerIds;
+    gameState.pendingDefeats = data.pendingDefeats;
+    gameState.killCounts = new Map(Object.entries(data.killCounts));
+    gameState.unitsProduced = new Map(Object.entries(data.unitsProduced));
+    gameState.resourcesGathered = new Map(Object.entries(data.resourcesGathered));
+    gameState.elapsedTime = data.elapsedTime;
+    gameState.result = data.result;
+    
+    return gameState;
+  }
+  
+  getGameState(): any {
+    return {
+      players: Object.fromEntries(
+        Array.from(this.players.entries()).map(([id, player]) => [
+          id,
+          {
+            id,
+            username: player.getUsername(),
+            faction: player.getFaction(),
+            team: player.getTeam(),
+            resources: player.getResources(),
+            researchedTechs: player.getResearchedTechs()
+          }
+        ])
+      ),
+      units: Object.fromEntries(
+        Array.from(this.units.entries()).map(([id, unit]) => [
+          id,
+          {
+            id,
+            playerId: unit.playerId,
+            type: unit.type,
+            x: unit.x,
+            y: unit.y,
+            health: unit.health,
+            maxHealth: unit.maxHealth,
+            isMoving: unit.isMoving || false,
+            isGathering: unit.isGathering || false,
+            isAttacking: unit.isAttacking || false,
+            carryingResource: unit.carryingResource
+          }
+        ])
+      ),
+      buildings: Object.fromEntries(
+        Array.from(this.buildings.entries()).map(([id, building]) => [
+          id,
+          {
+            id,
+            playerId: building.playerId,
+            type: building.type,
+            x: building.x,
+            y: building.y,
+            health: building.health,
+            maxHealth: building.maxHealth,
+            productionQueue: (building.productionQueue || []).map((item: any) => ({
+              type: item.type,
+              remainingTime: item.remainingTime
+            }))
+          }
+        ])
+      ),
+      map: this.map,
+      timestamp: Date.now() // Include timestamp for synchronization
+    };
+  }
+}
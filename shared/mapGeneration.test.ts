@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { generateMap, STARTING_DEPOSITS, STARTING_POSITIONS } from "./mapGeneration";
+import { findPath } from "./pathfinding";
+import { MAP_SIZE } from "../client/src/game/config";
+
+const SEEDS = [1, 42, 1234567, 4294967295];
+const PLAYER_COUNTS = [2, 3, 4];
+
+describe("generateMap", () => {
+  it.each(SEEDS)("generates the same map every time from seed %i", seed => {
+    PLAYER_COUNTS.forEach(playerCount => {
+      expect(generateMap(seed, playerCount)).toEqual(generateMap(seed, playerCount));
+    });
+  });
+
+  it("generates different maps from different seeds", () => {
+    expect(generateMap(1, 2)).not.toEqual(generateMap(2, 2));
+  });
+
+  it.each(SEEDS)("clears every starting area on the map from seed %i", seed => {
+    const map = generateMap(seed, STARTING_POSITIONS.length);
+
+    STARTING_POSITIONS.forEach(({ x, y }) => {
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          expect(map[y + dy][x + dx]).toMatchObject({ type: "grass", walkable: true, resource: null });
+        }
+      }
+    });
+  });
+
+  it.each(SEEDS)("gives every base the same deposits facing the middle from seed %i", seed => {
+    PLAYER_COUNTS.forEach(playerCount => {
+      const map = generateMap(seed, playerCount);
+
+      STARTING_POSITIONS.slice(0, playerCount).forEach(({ x, y }) => {
+        const directionX = x < MAP_SIZE / 2 ? 1 : -1;
+        const directionY = y < MAP_SIZE / 2 ? 1 : -1;
+
+        STARTING_DEPOSITS.forEach(({ dx, dy, type, amount }) => {
+          const tile = map[y + dy * directionY][x + dx * directionX];
+          expect(tile.walkable).toBe(true);
+          expect(tile.resource).toEqual({ type, amount });
+        });
+      });
+    });
+  });
+
+  it.each(SEEDS)("leaves every base's deposits reachable from its city center from seed %i", seed => {
+    const map = generateMap(seed, STARTING_POSITIONS.length);
+
+    STARTING_POSITIONS.forEach(({ x, y }) => {
+      const directionX = x < MAP_SIZE / 2 ? 1 : -1;
+      const directionY = y < MAP_SIZE / 2 ? 1 : -1;
+
+      STARTING_DEPOSITS.forEach(({ dx, dy }) => {
+        // Workers start beside the 3x3 city center
+        const path = findPath(map, x + 2 * directionX, y, x + dx * directionX, y + dy * directionY);
+        expect(path[path.length - 1]).toEqual({ x: x + dx * directionX, y: y + dy * directionY });
+      });
+    });
+  });
+});
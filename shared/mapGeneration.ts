@@ -0,0 +1,312 @@
+// Seeded map generator shared by the client GameScene and the server GameState
+import { MAP_SIZE } from "../client/src/game/config";
+import { MapTile, ResourceType } from "../client/src/game/types";
+import { SeededRandom } from "./random";
+
+/**
+ * City center tile for each player slot; a map for N players clears the first N
+ */
+export const STARTING_POSITIONS = [
+  { x: 5, y: 5 },
+  { x: MAP_SIZE - 10, y: MAP_SIZE - 10 },
+  { x: 5, y: MAP_SIZE - 10 },
+  { x: MAP_SIZE - 10, y: 5 }
+];
+
+// STARTING_POSITIONS indices on the west and east sides of the map
+const STARTING_SIDES = [[0, 2], [1, 3]];
+
+// Deposits every base gets just outside its starting area, as offsets pointing toward the middle
+// of the map, so each position starts with the same resources whatever the rest of the map holds
+export const STARTING_DEPOSITS: Array<{ dx: number; dy: number; type: ResourceType; amount: number }> = [
+  { dx: 3, dy: -1, type: 'food', amount: 600 },
+  { dx: 3, dy: 0, type: 'food', amount: 600 },
+  { dx: 3, dy: 1, type: 'food', amount: 600 },
+  { dx: 3, dy: 2, type: 'food', amount: 600 },
+  { dx: -1, dy: 3, type: 'ore', amount: 600 },
+  { dx: 0, dy: 3, type: 'ore', amount: 600 },
+  { dx: 1, dy: 3, type: 'ore', amount: 600 }
+];
+
+/**
+ * Pick each player's starting position so that teammates spawn on the same side
+ * Teams that don't fit on one side, and players without a team, take the free positions in order;
+ * with no teams at all this is join order
+ * @param teams Each player's team in join order, or null for no team
+ * @returns Index into STARTING_POSITIONS for each player
+ */
+export function assignStartingPositions(teams: Array<number | null>): number[] {
+  const free = STARTING_POSITIONS.map((_, index) => index).slice(0, teams.length);
+  const assigned: number[] = new Array(teams.length);
+
+  const take = (player: number, position: number) => {
+    assigned[player] = position;
+    free.splice(free.indexOf(position), 1);
+  };
+
+  // Larger teams pick a side first so a smaller one can't split them
+  const teamIds = Array.from(new Set(teams.filter((team): team is number => team !== null)));
+  const members = (team: number) => teams.flatMap((playerTeam, player) => playerTeam === team ? [player] : []);
+  teamIds.sort((a, b) => members(b).length - members(a).length);
+
+  teamIds.forEach(team => {
+    const players = members(team);
+    const side = STARTING_SIDES
+      .map(positions => positions.filter(position => free.includes(position)))
+      .find(positions => positions.length >= players.length);
+
+    players.forEach((player, index) => take(player, side ? side[index] : free[0]));
+  });
+
+  teams.forEach((team, player) => {
+    if (team === null) {
+      take(player, free[0]);
+    }
+  });
+
+  return assigned;
+}
+
+/**
+ * Generate the terrain and resources for a match
+ * The same seed and player count always produce an identical map
+ */
+export function generateMap(seed: number, playerCount: number): MapTile[][] {
+  const rng = new SeededRandom(seed);
+  const map: MapTile[][] = [];
+
+  // Create a base map filled with grass
+  for (let y = 0; y < MAP_SIZE; y++) {
+    map[y] = [];
+    for (let x = 0; x < MAP_SIZE; x++) {
+      map[y][x] = {
+        x,
+        y,
+        type: 'grass',
+        walkable: true,
+        resource: null
+      };
+    }
+  }
+
+  generateWaterBodies(map, rng);
+  generateForestClusters(map, rng);
+  generateHillRegions(map, rng);
+  addResourceNodes(map, rng);
+
+  // Starting areas are always open grass, with the same deposits beside each
+  STARTING_POSITIONS.slice(0, playerCount).forEach(pos => {
+    clearStartingArea(map, pos.x, pos.y);
+    addStartingDeposits(map, pos.x, pos.y);
+  });
+
+  return map;
+}
+
+function isInBounds(x: number, y: number): boolean {
+  return x >= 0 && x < MAP_SIZE && y >= 0 && y < MAP_SIZE;
+}
+
+function generateWaterBodies(map: MapTile[][], rng: SeededRandom): void {
+  // Create a few lakes
+  const numLakes = rng.nextInt(3, 5);
+
+  for (let i = 0; i < numLakes; i++) {
+    const centerX = 10 + Math.floor(rng.next() * (MAP_SIZE - 20)); // Avoid edges
+    const centerY = 10 + Math.floor(rng.next() * (MAP_SIZE - 20));
+    const size = rng.nextInt(3, 6);
+
+    // Create roughly circular lake
+    for (let y = centerY - size; y <= centerY + size; y++) {
+      for (let x = centerX - size; x <= centerX + size; x++) {
+        if (isInBounds(x, y)) {
+          const distance = Math.sqrt(Math.pow(x - centerX, 2) + Math.pow(y - centerY, 2));
+
+          // Irregular circle with some randomness
+          if (distance <= size * (0.7 + rng.next() * 0.3)) {
+            map[y][x].type = 'water';
+            map[y][x].walkable = false;
+          }
+        }
+      }
+    }
+  }
+
+  // Create a river or two
+  const numRivers = rng.nextInt(1, 2);
+
+  for (let i = 0; i < numRivers; i++) {
+    let x = rng.next() < 0.5 ? 0 : MAP_SIZE - 1; // Start at left or right edge
+    let y = 5 + Math.floor(rng.next() * (MAP_SIZE - 10)); // Not too close to the edge
+
+    const horizontal = x === 0; // Direction of flow
+    const riverLength = MAP_SIZE - 10 - Math.floor(rng.next() * 20);
+    const turns = rng.nextInt(3, 6); // Number of direction changes
+
+    for (let segment = 0; segment < turns; segment++) {
+      const segmentLength = Math.floor(riverLength / turns);
+      const isHorizontal = segment % 2 === 0 ? horizontal : !horizontal;
+      const direction = isHorizontal ? { x: 1, y: 0 } : { x: 0, y: 1 };
+
+      // Add a bit of meandering
+      const meander = { x: 0, y: 0 };
+
+      for (let j = 0; j < segmentLength; j++) {
+        if (j % 3 === 0) {
+          meander.x = isHorizontal ? 0 : (rng.next() < 0.5 ? -1 : 1);
+          meander.y = isHorizontal ? (rng.next() < 0.5 ? -1 : 1) : 0;
+        }
+
+        x += direction.x + meander.x * 0.3;
+        y += direction.y + meander.y * 0.3;
+
+        x = Math.max(0, Math.min(MAP_SIZE - 1, Math.floor(x)));
+        y = Math.max(0, Math.min(MAP_SIZE - 1, Math.floor(y)));
+
+        map[y][x].type = 'water';
+        map[y][x].walkable = false;
+
+        // Add some width to the river
+        for (let w = -1; w <= 1; w++) {
+          const nx = x + (isHorizontal ? 0 : w);
+          const ny = y + (isHorizontal ? w : 0);
+
+          // Thinner at the edges with probability
+          if (isInBounds(nx, ny) && (w === 0 || rng.next() < 0.7)) {
+            map[ny][nx].type = 'water';
+            map[ny][nx].walkable = false;
+          }
+        }
+      }
+    }
+  }
+}
+
+function generateForestClusters(map: MapTile[][], rng: SeededRandom): void {
+  const numForestClusters = rng.nextInt(4, 7);
+
+  for (let i = 0; i < numForestClusters; i++) {
+    const centerX = 5 + Math.floor(rng.next() * (MAP_SIZE - 10));
+    const centerY = 5 + Math.floor(rng.next() * (MAP_SIZE - 10));
+    const size = rng.nextInt(4, 8);
+
+    for (let y = centerY - size; y <= centerY + size; y++) {
+      for (let x = centerX - size; x <= centerX + size; x++) {
+        if (isInBounds(x, y)) {
+          // Distance from center with some noise
+          const distance = Math.sqrt(Math.pow(x - centerX, 2) + Math.pow(y - centerY, 2))
+                          + rng.next() * 2 - 1;
+
+          // Only change to forest if the tile is currently grass
+          if (distance <= size * 0.8 && map[y][x].type === 'grass') {
+            // More dense near center, sparser at edges
+            if (distance < size * 0.4 || rng.next() < 0.7) {
+              map[y][x].type = 'forest';
+            }
+          }
+        }
+      }
+    }
+  }
+}
+
+function generateHillRegions(map: MapTile[][], rng: SeededRandom): void {
+  const numHillRegions = rng.nextInt(3, 5);
+
+  for (let i = 0; i < numHillRegions; i++) {
+    const centerX = 5 + Math.floor(rng.next() * (MAP_SIZE - 10));
+    const centerY = 5 + Math.floor(rng.next() * (MAP_SIZE - 10));
+    const size = rng.nextInt(3, 6);
+
+    for (let y = centerY - size; y <= centerY + size; y++) {
+      for (let x = centerX - size; x <= centerX + size; x++) {
+        if (isInBounds(x, y)) {
+          // Distance from center with some noise for irregular shape
+          const distance = Math.sqrt(Math.pow(x - centerX, 2) + Math.pow(y - centerY, 2))
+                          + rng.next() * 1.5 - 0.75;
+
+          // Only change to hills if the tile is currently grass
+          if (distance <= size * 0.7 && map[y][x].type === 'grass') {
+            map[y][x].type = 'hills';
+          }
+        }
+      }
+    }
+  }
+}
+
+function addResourceNodes(map: MapTile[][], rng: SeededRandom): void {
+  // Food in some forest tiles, ore in most hills
+  for (let y = 0; y < MAP_SIZE; y++) {
+    for (let x = 0; x < MAP_SIZE; x++) {
+      if (map[y][x].type === 'forest' && rng.next() < 0.4) {
+        map[y][x].resource = {
+          type: 'food',
+          amount: rng.nextInt(300, 499)
+        };
+      } else if (map[y][x].type === 'hills' && rng.next() < 0.6) {
+        map[y][x].resource = {
+          type: 'ore',
+          amount: rng.nextInt(400, 699)
+        };
+      }
+    }
+  }
+
+  // Add a few strategic resource deposits in grass areas
+  const numStrategicDeposits = rng.nextInt(5, 10);
+
+  for (let i = 0; i < numStrategicDeposits; i++) {
+    // Find a suitable grass tile that's not near the edge
+    let attempts = 0;
+    let x, y;
+
+    do {
+      x = 10 + Math.floor(rng.next() * (MAP_SIZE - 20));
+      y = 10 + Math.floor(rng.next() * (MAP_SIZE - 20));
+      attempts++;
+    } while ((map[y][x].type !== 'grass' || map[y][x].resource !== null) && attempts < 100);
+
+    if (attempts < 100) {
+      // Alternate between food and ore
+      const resourceType: ResourceType = i % 2 === 0 ? 'food' : 'ore';
+      map[y][x].resource = {
+        type: resourceType,
+        amount: rng.nextInt(600, 999) // High value deposits
+      };
+    }
+  }
+}
+
+/**
+ * Place STARTING_DEPOSITS beside a starting position, mirrored so they face the middle of the map
+ */
+function addStartingDeposits(map: MapTile[][], centerX: number, centerY: number): void {
+  const directionX = centerX < MAP_SIZE / 2 ? 1 : -1;
+  const directionY = centerY < MAP_SIZE / 2 ? 1 : -1;
+
+  STARTING_DEPOSITS.forEach(deposit => {
+    const x = centerX + deposit.dx * directionX;
+    const y = centerY + deposit.dy * directionY;
+    if (isInBounds(x, y)) {
+      map[y][x].type = 'grass';
+      map[y][x].walkable = true;
+      map[y][x].resource = { type: deposit.type, amount: deposit.amount };
+    }
+  });
+}
+
+/**
+ * Clear the 5x5 area around a starting position to walkable grass with no resources
+ */
+function clearStartingArea(map: MapTile[][], centerX: number, centerY: number): void {
+  for (let y = centerY - 2; y <= centerY + 2; y++) {
+    for (let x = centerX - 2; x <= centerX + 2; x++) {
+      if (isInBounds(x, y)) {
+        map[y][x].type = 'grass';
+        map[y][x].walkable = true;
+        map[y][x].resource = null;
+      }
+    }
+  }
+}
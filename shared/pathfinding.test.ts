@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { findPath, PathPoint } from "./pathfinding";
+import { MapTile } from "../client/src/game/types";
+
+/**
+ * Build a map from rows of "." (grass) and "#" (water)
+ */
+function parseMap(rows: string[]): MapTile[][] {
+  return rows.map((row, y) => row.split("").map((cell, x) => ({
+    x,
+    y,
+    type: cell === "#" ? "water" : "grass",
+    walkable: cell !== "#",
+    resource: null
+  })));
+}
+
+function isConnected(map: MapTile[][], start: PathPoint, path: PathPoint[]): boolean {
+  let previous = start;
+  return path.every(point => {
+    const step = Math.max(Math.abs(point.x - previous.x), Math.abs(point.y - previous.y));
+    previous = point;
+    return step === 1 && map[point.y][point.x].walkable;
+  });
+}
+
+describe("findPath", () => {
+  it("walks straight across open ground", () => {
+    const map = parseMap([
+      ".....",
+      ".....",
+      "....."
+    ]);
+
+    expect(findPath(map, 0, 1, 4, 1)).toEqual([
+      { x: 1, y: 1 },
+      { x: 2, y: 1 },
+      { x: 3, y: 1 },
+      { x: 4, y: 1 }
+    ]);
+  });
+
+  it("returns no path when already at the target", () => {
+    expect(findPath(parseMap(["..."]), 1, 0, 1, 0)).toEqual([]);
+  });
+
+  it("routes around blocked tiles", () => {
+    const map = parseMap([
+      ".....",
+      ".###.",
+      ".#...",
+      ".#.#.",
+      "....."
+    ]);
+
+    const path = findPath(map, 0, 0, 2, 2);
+    expect(path[path.length - 1]).toEqual({ x: 2, y: 2 });
+    expect(isConnected(map, { x: 0, y: 0 }, path)).toBe(true);
+  });
+
+  it("returns no path to a goal walled off from the start", () => {
+    const map = parseMap([
+      "..#..",
+      "..#..",
+      "..#.."
+    ]);
+
+    expect(findPath(map, 0, 1, 4, 1)).toEqual([]);
+  });
+
+  it("heads for the nearest open tile when the goal itself is blocked", () => {
+    const map = parseMap([
+      ".....",
+      "...#.",
+      "....."
+    ]);
+
+    const path = findPath(map, 0, 1, 3, 1);
+    const end = path[path.length - 1];
+    expect(map[end.y][end.x].walkable).toBe(true);
+    expect(Math.max(Math.abs(end.x - 3), Math.abs(end.y - 1))).toBe(1);
+  });
+
+  it("returns no path from or to a tile off the map", () => {
+    const map = parseMap(["...", "..."]);
+
+    expect(findPath(map, -1, 0, 2, 1)).toEqual([]);
+    expect(findPath(map, 0, 0, 5, 5)).toEqual([]);
+  });
+
+  it("does not cut diagonally between two blocked tiles", () => {
+    const map = parseMap([
+      ".#.",
+      "#..",
+      "..."
+    ]);
+
+    // The diagonal step from (0, 0) to (1, 1) would squeeze between the two walls
+    expect(findPath(map, 0, 0, 1, 1)).toEqual([]);
+  });
+
+  it("does not cut the corner of a single blocked tile", () => {
+    const map = parseMap([
+      "...",
+      ".#.",
+      "..."
+    ]);
+
+    const path = findPath(map, 0, 0, 2, 2);
+    expect(path).toHaveLength(4);
+    expect(isConnected(map, { x: 0, y: 0 }, path)).toBe(true);
+    path.forEach((point, index) => {
+      const previous = index === 0 ? { x: 0, y: 0 } : path[index - 1];
+      // Every step is orthogonal here, since each diagonal would clip the wall
+      expect(Math.abs(point.x - previous.x) + Math.abs(point.y - previous.y)).toBe(1);
+    });
+  });
+
+  it("still moves diagonally across open ground", () => {
+    const map = parseMap([
+      "...",
+      "...",
+      "..."
+    ]);
+
+    expect(findPath(map, 0, 0, 2, 2)).toEqual([{ x: 1, y: 1 }, { x: 2, y: 2 }]);
+  });
+});
@@ -0,0 +1,230 @@
+// Grid pathfinding shared by the client PathfindingManager and the server GameState
+import { MapTile } from "../client/src/game/types";
+
+export interface PathPoint {
+  x: number;
+  y: number;
+}
+
+// Node interface for A* pathfinding
+interface PathNode {
+  x: number;
+  y: number;
+  g: number; // Cost from start to current node
+  h: number; // Heuristic cost from current to target
+  f: number; // Total cost (g + h)
+  parent: PathNode | null;
+}
+
+// 8 surrounding tiles
+const DIRECTIONS = [
+  { x: 0, y: -1 }, // North
+  { x: 1, y: -1 }, // Northeast
+  { x: 1, y: 0 },  // East
+  { x: 1, y: 1 },  // Southeast
+  { x: 0, y: 1 },  // South
+  { x: -1, y: 1 }, // Southwest
+  { x: -1, y: 0 }, // West
+  { x: -1, y: -1 } // Northwest
+];
+
+function isInBounds(map: MapTile[][], x: number, y: number): boolean {
+  return y >= 0 && y < map.length && x >= 0 && !!map[y] && x < map[y].length;
+}
+
+/**
+ * Find a path between two tiles using A*
+ * @returns Waypoints from the tile after the start up to and including the target,
+ * or an empty array if no path exists
+ */
+export function findPath(
+  map: MapTile[][],
+  startX: number,
+  startY: number,
+  targetX: number,
+  targetY: number
+): PathPoint[] {
+  // Check if start or target are invalid
+  if (!isInBounds(map, startX, startY) || !isInBounds(map, targetX, targetY)) {
+    return [];
+  }
+
+  // If start and target are the same, return empty path
+  if (startX === targetX && startY === targetY) {
+    return [];
+  }
+
+  // If target is not walkable, find nearest walkable tile
+  if (!map[targetY][targetX].walkable) {
+    const nearestWalkable = findNearestWalkableTile(map, targetX, targetY);
+    if (!nearestWalkable) {
+      return []; // No walkable tile found near target
+    }
+    targetX = nearestWalkable.x;
+    targetY = nearestWalkable.y;
+  }
+
+  const openSet: PathNode[] = [];
+  const closedSet = new Set<string>();
+  const nodeMap = new Map<string, PathNode>();
+
+  const startNode: PathNode = {
+    x: startX,
+    y: startY,
+    g: 0,
+    h: heuristic(startX, startY, targetX, targetY),
+    f: 0,
+    parent: null
+  };
+  startNode.f = startNode.g + startNode.h;
+
+  openSet.push(startNode);
+  nodeMap.set(`${startX},${startY}`, startNode);
+
+  while (openSet.length > 0) {
+    // Sort open set by f value (lowest first)
+    openSet.sort((a, b) => a.f - b.f);
+    const current = openSet.shift()!;
+
+    // Check if we reached the target
+    if (current.x === targetX && current.y === targetY) {
+      return reconstructPath(current);
+    }
+
+    closedSet.add(`${current.x},${current.y}`);
+
+    for (const neighbor of getWalkableNeighbors(map, current.x, current.y)) {
+      const key = `${neighbor.x},${neighbor.y}`;
+      if (closedSet.has(key)) {
+        continue;
+      }
+
+      const tentativeG = current.g + movementCost(map, current.x, current.y, neighbor.x, neighbor.y);
+
+      let neighborNode = nodeMap.get(key);
+      if (!neighborNode) {
+        neighborNode = {
+          x: neighbor.x,
+          y: neighbor.y,
+          g: Infinity,
+          h: heuristic(neighbor.x, neighbor.y, targetX, targetY),
+          f: Infinity,
+          parent: null
+        };
+        nodeMap.set(key, neighborNode);
+      }
+
+      // Check if this path is better
+      if (tentativeG < neighborNode.g) {
+        neighborNode.parent = current;
+        neighborNode.g = tentativeG;
+        neighborNode.f = neighborNode.g + neighborNode.h;
+
+        if (!openSet.includes(neighborNode)) {
+          openSet.push(neighborNode);
+        }
+      }
+    }
+  }
+
+  // No path found
+  return [];
+}
+
+/**
+ * Cost of stepping from one tile to an adjacent one, including terrain penalties
+ */
+export function movementCost(map: MapTile[][], x1: number, y1: number, x2: number, y2: number): number {
+  // Base cost (1 for orthogonal, 1.4 for diagonal)
+  const isDiagonal = x1 !== x2 && y1 !== y2;
+  let cost = isDiagonal ? 1.4 : 1;
+
+  if (!isInBounds(map, x2, y2)) {
+    return cost;
+  }
+
+  // Additional cost based on terrain
+  const terrain = map[y2][x2].type;
+
+  if (terrain === 'forest') {
+    cost += 0.5; // Forests are harder to move through
+  } else if (terrain === 'hills') {
+    cost += 1; // Hills are even harder
+  }
+
+  return cost;
+}
+
+/**
+ * Search outward in square rings for the closest walkable tile
+ */
+export function findNearestWalkableTile(
+  map: MapTile[][],
+  x: number,
+  y: number,
+  maxRadius: number = 5
+): PathPoint | null {
+  for (let radius = 1; radius <= maxRadius; radius++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      for (let dy = -radius; dy <= radius; dy++) {
+        // Skip tiles that aren't on the perimeter of the square
+        if (Math.abs(dx) < radius && Math.abs(dy) < radius) {
+          continue;
+        }
+
+        const nx = x + dx;
+        const ny = y + dy;
+
+        if (isInBounds(map, nx, ny) && map[ny][nx].walkable) {
+          return { x: nx, y: ny };
+        }
+      }
+    }
+  }
+
+  // No walkable tile found within range
+  return null;
+}
+
+function getWalkableNeighbors(map: MapTile[][], x: number, y: number): PathPoint[] {
+  const neighbors: PathPoint[] = [];
+
+  for (const dir of DIRECTIONS) {
+    const nx = x + dir.x;
+    const ny = y + dir.y;
+
+    if (!isInBounds(map, nx, ny) || !map[ny][nx].walkable) {
+      continue;
+    }
+
+    // No cutting corners: a diagonal step needs both tiles beside it to be open
+    if (dir.x !== 0 && dir.y !== 0 && (!map[y][nx].walkable || !map[ny][x].walkable)) {
+      continue;
+    }
+
+    neighbors.push({ x: nx, y: ny });
+  }
+
+  return neighbors;
+}
+
+function heuristic(x1: number, y1: number, x2: number, y2: number): number {
+  // Manhattan distance
+  return Math.abs(x1 - x2) + Math.abs(y1 - y2);
+}
+
+function reconstructPath(endNode: PathNode): PathPoint[] {
+  const path: PathPoint[] = [];
+  let current: PathNode | null = endNode;
+
+  // Trace back from end to start
+  while (current) {
+    path.unshift({ x: current.x, y: current.y });
+    current = current.parent;
+  }
+
+  // Remove the first node (starting position)
+  path.shift();
+
+  return path;
+}
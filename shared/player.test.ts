@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { Player, RESOURCE_LOG_LIMIT } from "./player";
+
+describe("resource log", () => {
+  it("records transactions at the match time given", () => {
+    const player = new Player("p1", "Player 1");
+    player.setResources({ food: 100, ore: 50 }, "startingResources", 0);
+    player.deductResources(30, 10, "production", 2500);
+
+    expect(player.getResourceLog()).toEqual([
+      { time: 0, reason: "startingResources", food: 100, ore: 50, balance: { food: 100, ore: 50 } },
+      { time: 2500, reason: "production", food: -30, ore: -10, balance: { food: 70, ore: 40 } }
+    ]);
+  });
+
+  it("keeps only the most recent transactions, oldest first", () => {
+    const player = new Player("p1", "Player 1");
+    for (let i = 0; i < RESOURCE_LOG_LIMIT + 5; i++) {
+      player.addResources(1, 0, "gathering", i);
+    }
+
+    const log = player.getResourceLog();
+    expect(log).toHaveLength(RESOURCE_LOG_LIMIT);
+    expect(log[0].time).toBe(5);
+    expect(log[log.length - 1].time).toBe(RESOURCE_LOG_LIMIT + 4);
+  });
+
+  it("is left out of the saved player", () => {
+    const player = new Player("p1", "Player 1");
+    player.addResources(10, 5, "gathering", 100);
+
+    const restored = Player.fromSaved(player.toSaved());
+    expect(restored.getResources()).toEqual({ food: 10, ore: 5 });
+    expect(restored.getResourceLog()).toEqual([]);
+  });
+});
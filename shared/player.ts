@@ -0,0 +1,216 @@
+// A match participant and their economy, used by the server GameRoom and the GameState simulation
+import { FactionType } from "../client/src/game/types";
+
+/**
+ * Why a player's resource totals changed
+ */
+export type ResourceTransactionReason =
+  | "startingResources"
+  | "gathering"
+  | "buildingCreate"
+  | "research"
+  | "production"
+  | "productionRefund";
+
+// Transactions kept in a player's resource log; older ones are dropped
+export const RESOURCE_LOG_LIMIT = 200;
+
+/**
+ * One entry in a player's resource audit log
+ * food and ore are signed: positive for income, negative for spending
+ */
+export interface ResourceTransaction {
+  // Match time in milliseconds when the transaction happened
+  time: number;
+  reason: ResourceTransactionReason;
+  food: number;
+  ore: number;
+  balance: { food: number; ore: number };
+}
+
+/**
+ * Everything about a player a saved match needs to restore them; the resource log is audit
+ * detail and is not saved
+ */
+export interface SavedPlayer {
+  id: string;
+  username: string;
+  userId: number | null;
+  faction: FactionType | null;
+  team: number | null;
+  ready: boolean;
+  resources: { food: number; ore: number };
+  researchedTechs: string[];
+}
+
+export class Player {
+  id: string;
+  private username: string;
+  // The account playing this seat; null for bots and simulated players
+  private userId: number | null;
+  private faction: FactionType | null;
+  // Players on the same team are allies; null plays alone
+  private team: number | null;
+  private ready: boolean;
+  private resources: { food: number; ore: number };
+  private researchedTechs: Set<string>;
+  // Ring buffer of the last RESOURCE_LOG_LIMIT transactions; resourceLogNext is where the next one goes
+  private resourceLog: ResourceTransaction[];
+  private resourceLogNext: number;
+  
+  constructor(id: string, username: string, userId: number | null = null) {
+    this.id = id;
+    this.username = username;
+    this.userId = userId;
+    this.faction = null;
+    this.team = null;
+    this.ready = false;
+    this.resources = { food: 0, ore: 0 };
+    this.researchedTechs = new Set();
+    this.resourceLog = [];
+    this.resourceLogNext = 0;
+  }
+  
+  getUsername(): string {
+    return this.username;
+  }
+  
+  getUserId(): number | null {
+    return this.userId;
+  }
+  
+  getFaction(): FactionType | null {
+    return this.faction;
+  }
+  
+  setFaction(faction: FactionType): void {
+    this.faction = faction;
+  }
+  
+  getTeam(): number | null {
+    return this.team;
+  }
+  
+  setTeam(team: number | null): void {
+    this.team = team;
+  }
+  
+  isReady(): boolean {
+    return this.ready;
+  }
+  
+  setReady(ready: boolean): void {
+    this.ready = ready;
+  }
+  
+  getResources(): { food: number; ore: number } {
+    return { ...this.resources };
+  }
+  
+  /**
+   * @param time Match time in milliseconds, for the resource log
+   */
+  setResources(resources: { food: number; ore: number }, reason: ResourceTransactionReason, time: number): void {
+    const food = resources.food - this.resources.food;
+    const ore = resources.ore - this.resources.ore;
+    this.resources = { ...resources };
+    this.recordTransaction(reason, food, ore, time);
+  }
+  
+  addResources(food: number, ore: number, reason: ResourceTransactionReason, time: number): void {
+    this.resources.food += food;
+    this.resources.ore += ore;
+    this.recordTransaction(reason, food, ore, time);
+  }
+  
+  hasEnoughResources(food: number, ore: number): boolean {
+    return this.resources.food >= food && this.resources.ore >= ore;
+  }
+  
+  deductResources(food: number, ore: number, reason: ResourceTransactionReason, time: number): boolean {
+    if (!this.hasEnoughResources(food, ore)) {
+      return false;
+    }
+    
+    this.resources.food -= food;
+    this.resources.ore -= ore;
+    this.recordTransaction(reason, -food, -ore, time);
+    return true;
+  }
+  
+  /**
+   * Clear everything carried over from a previous match in this room
+   */
+  resetMatchState(): void {
+    this.resources = { food: 0, ore: 0 };
+    this.researchedTechs.clear();
+    this.resourceLog = [];
+    this.resourceLogNext = 0;
+  }
+  
+  /**
+   * The most recent resource transactions, oldest first
+   */
+  getResourceLog(): ResourceTransaction[] {
+    return [...this.resourceLog.slice(this.resourceLogNext), ...this.resourceLog.slice(0, this.resourceLogNext)];
+  }
+  
+  private recordTransaction(reason: ResourceTransactionReason, food: number, ore: number, time: number): void {
+    this.resourceLog[this.resourceLogNext] = {
+      time,
+      reason,
+      food,
+      ore,
+      balance: { ...this.resources }
+    };
+    this.resourceLogNext = (this.resourceLogNext + 1) % RESOURCE_LOG_LIMIT;
+  }
+  
+  getResearchedTechs(): string[] {
+    return Array.from(this.researchedTechs);
+  }
+  
+  hasResearchedTech(techId: string): boolean {
+    return this.researchedTechs.has(techId);
+  }
+  
+  addResearchedTech(techId: string): void {
+    this.researchedTechs.add(techId);
+  }
+  
+  toSaved(): SavedPlayer {
+    return {
+      id: this.id,
+      username: this.username,
+      userId: this.userId,
+      faction: this.faction,
+      team: this.team,
+      ready: this.ready,
+      resources: { ...this.resources },
+      researchedTechs: this.getResearchedTechs()
+    };
+  }
+  
+  /**
+   * Rebuild a player from toSaved, without logging their resources as a new transaction
+   */
+  static fromSaved(saved: SavedPlayer): Player {
+    const player = new Player(saved.id, saved.username, saved.userId);
+    player.faction = saved.faction;
+    player.team = saved.team;
+    player.ready = saved.ready;
+    player.resources = { ...saved.resources };
+    player.researchedTechs = new Set(saved.researchedTechs);
+    return player;
+  }
+  
+  toJSON(): any {
+    return {
+      id: this.id,
+      username: this.username,
+      faction: this.faction,
+      team: this.team,
+      ready: this.ready
+    };
+  }
+}
@@ -0,0 +1,70 @@
+// Unit production rules shared by the client Building and the server GameState
+import { FactionType } from "../client/src/game/types";
+
+/**
+ * Determines if a building type can train the given unit type
+ */
+export function canBuildingProduceUnit(buildingType: string, unitType: string): boolean {
+  if (buildingType === "cityCenter") {
+    return unitType === "worker";
+  } else if (buildingType === "barracks") {
+    return unitType === "melee";
+  } else if (buildingType === "archeryRange") {
+    return unitType === "ranged";
+  }
+
+  return false;
+}
+
+/**
+ * Time in milliseconds for a building to train a unit, including faction modifiers
+ */
+export function getProductionTime(buildingType: string, faction: FactionType | null, unitType: string): number {
+  // Base production time in milliseconds
+  let baseTime = 10000; // Default 10 seconds
+
+  switch (unitType) {
+    case "worker":
+      baseTime = 10000; // 10 seconds
+      break;
+    case "melee":
+      baseTime = 15000; // 15 seconds
+      break;
+    case "ranged":
+      baseTime = 20000; // 20 seconds
+      break;
+    case "striplingWarrior":
+      baseTime = 25000; // 25 seconds - elite unit takes longer
+      break;
+    case "lamaniteScout":
+      baseTime = 12000; // 12 seconds - scout unit is faster to produce
+      break;
+    case "cavalry":
+      baseTime = 30000; // 30 seconds - cavalry takes longer
+      break;
+    case "hero":
+      baseTime = 60000; // 60 seconds - hero units take a long time
+      break;
+  }
+
+  // Apply faction-specific production time modifiers
+  if (faction === "Nephites") {
+    // Nephite-specific production bonuses
+    if (buildingType === "nephiteTemple" && unitType === "striplingWarrior") {
+      // Temples produce Stripling Warriors faster
+      baseTime *= 0.8; // 20% faster
+    }
+  } else if (faction === "Lamanites") {
+    // Lamanite-specific production bonuses
+    if (buildingType === "barracks" && (unitType === "melee" || unitType === "ranged")) {
+      // Lamanites produce combat units faster from barracks
+      baseTime *= 0.85; // 15% faster
+    }
+    if (buildingType === "lamaniteTower" && unitType === "lamaniteScout") {
+      // Watch Towers produce scouts even faster
+      baseTime *= 0.7; // 30% faster
+    }
+  }
+
+  return baseTime;
+}
@@ -0,0 +1,62 @@
+// Match replay format written by the server GameRoom and re-simulated by the client GameScene
+import { FactionType } from "../client/src/game/types";
+import { GameEvent } from "./types";
+
+// Bump when the format or the simulation changes in a way old replays can't be re-simulated
+export const REPLAY_VERSION = 6;
+
+// Fixed simulation step in milliseconds; matches are simulated in whole steps so replays re-simulate exactly
+export const SIMULATION_STEP_MS = 50;
+
+/**
+ * A match participant, in join order (join order and teams decide starting positions)
+ */
+export interface ReplayPlayer {
+  id: string;
+  username: string;
+  faction: FactionType;
+  team: number | null;
+}
+
+/**
+ * A validated command and the simulation step it was applied at
+ * Commands are applied before that step's update
+ */
+export interface ReplayCommand {
+  tick: number;
+  event: GameEvent;
+}
+
+export interface ReplayData {
+  version: number;
+  roomCode: string;
+  recordedAt: number;
+  seed: number;
+  stepMs: number;
+  victoryConditions: { loseWithoutCityCenter: boolean; loseWithoutUnits: boolean };
+  // Before faction bonuses
+  startingResources: { food: number; ore: number };
+  players: ReplayPlayer[];
+  commands: ReplayCommand[];
+  // Number of steps simulated before the match ended
+  totalTicks: number;
+  // Empty on a draw
+  winnerIds: string[];
+}
+
+/**
+ * Why a replay can't be played back, or null if it can
+ */
+export function getReplayError(data: any): string | null {
+  if (!data || typeof data !== "object") {
+    return "Not a replay file";
+  }
+  if (data.version !== REPLAY_VERSION) {
+    return `Unsupported replay version: ${data.version}`;
+  }
+  if (typeof data.seed !== "number" || !Array.isArray(data.players) || !Array.isArray(data.commands)) {
+    return "Replay file is incomplete";
+  }
+
+  return null;
+}
@@ -0,0 +1,78 @@
+// Re-simulation of a recorded match, for the client ReplayManager to play back
+import { GameState } from "./gameState";
+import { Player } from "./player";
+import { ReplayData } from "./replay";
+
+/**
+ * Steps a fresh GameState through a replay's recorded commands, exactly as the server ran the match
+ */
+export class ReplaySimulation {
+  private replay: ReplayData;
+  private gameState: GameState;
+  private tick: number;
+  private nextCommand: number;
+
+  constructor(replay: ReplayData) {
+    this.replay = replay;
+    this.tick = 0;
+    this.nextCommand = 0;
+
+    // Rebuild the match's players in join order and teams, as the server had them
+    const players = new Map<string, Player>();
+    replay.players.forEach(replayPlayer => {
+      const player = new Player(replayPlayer.id, replayPlayer.username);
+      player.setFaction(replayPlayer.faction);
+      player.setTeam(replayPlayer.team);
+      players.set(player.id, player);
+    });
+
+    this.gameState = new GameState(players, replay.seed, replay.victoryConditions, replay.startingResources);
+  }
+
+  /**
+   * Apply the commands recorded for this step, then advance the simulation one step
+   */
+  step(): void {
+    const commands = this.replay.commands;
+
+    while (this.nextCommand < commands.length && commands[this.nextCommand].tick <= this.tick) {
+      const { event } = commands[this.nextCommand];
+      if (!this.gameState.processEvent(event)) {
+        // Every recorded command was accepted live, so this means the simulation has drifted
+        console.warn(`Replay command rejected at tick ${this.tick}:`, event);
+      }
+      this.nextCommand++;
+    }
+
+    this.gameState.update(this.replay.stepMs);
+    this.tick++;
+  }
+
+  /**
+   * Steps simulated so far
+   */
+  getTick(): number {
+    return this.tick;
+  }
+
+  /**
+   * Whether the recording has been played to its end
+   */
+  isFinished(): boolean {
+    return this.tick >= this.replay.totalTicks || this.gameState.getResult() !== null;
+  }
+
+  /**
+   * Players eliminated since the last call
+   */
+  drainDefeats(): string[] {
+    return this.gameState.drainDefeats();
+  }
+
+  /**
+   * The whole simulated match, in the format the server sends observers
+   */
+  getGameState(): any {
+    return this.gameState.getGameState();
+  }
+}
@@ -1,6 +1,7 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, bigint, timestamp, unique, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { RatingCategory } from "./types";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -15,3 +16,75 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+
+// A finished multiplayer match
+export const matches = pgTable("matches", {
+  id: serial("id").primaryKey(),
+  roomCode: text("room_code").notNull(),
+  seed: bigint("seed", { mode: "number" }).notNull(),
+  // Game time in milliseconds
+  duration: integer("duration").notNull(),
+  // The winners' team, or null when the winner played without one
+  winningTeam: integer("winning_team"),
+  endedAt: timestamp("ended_at").notNull().defaultNow(),
+});
+
+export type MatchOutcome = "win" | "loss" | "draw";
+
+// One player's side of a match, bots included
+export const matchParticipants = pgTable("match_participants", {
+  id: serial("id").primaryKey(),
+  matchId: integer("match_id").notNull().references(() => matches.id, { onDelete: "cascade" }),
+  // Null for bots
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  username: text("username").notNull(),
+  isBot: boolean("is_bot").notNull().default(false),
+  faction: text("faction").notNull(),
+  team: integer("team"),
+  result: text("result").$type<MatchOutcome>().notNull(),
+  unitsProduced: integer("units_produced").notNull(),
+  unitsLost: integer("units_lost").notNull(),
+  unitsKilled: integer("units_killed").notNull(),
+  buildingsDestroyed: integer("buildings_destroyed").notNull(),
+  buildingsLost: integer("buildings_lost").notNull(),
+  foodGathered: integer("food_gathered").notNull(),
+  oreGathered: integer("ore_gathered").notNull(),
+  techsResearched: integer("techs_researched").notNull(),
+  // Change to the player's overall rating; null when the match was not ranked
+  ratingChange: integer("rating_change"),
+});
+
+export type InsertMatch = typeof matches.$inferInsert;
+export type Match = typeof matches.$inferSelect;
+// Participants are inserted along with their match, which provides the match ID
+export type InsertMatchParticipant = Omit<typeof matchParticipants.$inferInsert, "id" | "matchId">;
+export type MatchParticipant = typeof matchParticipants.$inferSelect;
+
+/**
+ * A match with everyone who played in it, as the match history endpoints return it
+ */
+export type MatchRecord = Match & { participants: MatchParticipant[] };
+
+// An account's Elo rating in one category
+export const ratings = pgTable("ratings", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  category: text("category").$type<RatingCategory>().notNull(),
+  rating: integer("rating").notNull(),
+  gamesPlayed: integer("games_played").notNull().default(0),
+  wins: integer("wins").notNull().default(0),
+  losses: integer("losses").notNull().default(0),
+  draws: integer("draws").notNull().default(0),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [unique("ratings_user_category").on(table.userId, table.category)]);
+
+export type InsertRating = Omit<typeof ratings.$inferInsert, "id" | "updatedAt">;
+export type Rating = typeof ratings.$inferSelect;
+
+// A multiplayer match in progress, saved so its room can be restored after a server restart
+export const savedRooms = pgTable("saved_rooms", {
+  roomCode: text("room_code").primaryKey(),
+  // The room and its game state, as GameRoom.toSaved produces them
+  data: jsonb("data").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
@@ -0,0 +1,353 @@
+// Tech tree definitions shared by the client TechManager and the server GameState
+import { TECH_COSTS } from "../client/src/game/config";
+import { FactionType, TechInfo } from "../client/src/game/types";
+
+export type TechDefinition = Omit<TechInfo, "researched">;
+
+export const TECH_DEFINITIONS: TechDefinition[] = [
+  // ----- MILITARY TECHNOLOGIES -----
+  
+  // Common military technologies
+  {
+    id: "advancedMetalworking",
+    name: "Advanced Metalworking",
+    description: "Better weapons and armor for all units",
+    cost: TECH_COSTS.basic,
+    prerequisites: [],
+    effects: { attack: 2, defense: 2 },
+    unlocks: {}
+  },
+  
+  {
+    id: "improvedWeaponry",
+    name: "Improved Weaponry",
+    description: "Steel-crafted weapons increase unit attack power",
+    cost: TECH_COSTS.advanced,
+    prerequisites: ["advancedMetalworking"],
+    effects: { attack: 3 },
+    unlocks: {}
+  },
+  
+  {
+    id: "combatFormations",
+    name: "Combat Formations",
+    description: "Units fight more effectively in groups",
+    cost: TECH_COSTS.advanced,
+    prerequisites: ["advancedMetalworking"],
+    effects: { attack: 1, groupBonus: 0.5 },
+    unlocks: {}
+  },
+  
+  {
+    id: "advancedTraining",
+    name: "Advanced Training",
+    description: "Units gain combat experience faster",
+    cost: TECH_COSTS.elite,
+    prerequisites: ["combatFormations"],
+    effects: { experienceRate: 1.5 },
+    unlocks: {}
+  },
+  
+  // Nephite military technologies
+  {
+    id: "nephiteShields",
+    name: "Nephite Shields",
+    description: "Improved shield design offers better protection",
+    cost: TECH_COSTS.basic,
+    prerequisites: [],
+    effects: { defense: 3 },
+    unlocks: {},
+    faction: "Nephites"
+  },
+  
+  {
+    id: "nephiteArchery",
+    name: "Advanced Archery",
+    description: "Nephite ranged units gain increased range and damage",
+    cost: TECH_COSTS.advanced,
+    prerequisites: ["nephiteShields"],
+    effects: { rangedAttack: 3, rangedRange: 1 },
+    unlocks: { buildings: ["archeryRange"] },
+    faction: "Nephites"
+  },
+  
+  {
+    id: "captainMoroniTactics",
+    name: "Captain Moroni's Tactics",
+    description: "Inspired military tactics greatly improve unit coordination",
+    cost: TECH_COSTS.elite,
+    prerequisites: ["nephiteArchery"],
+    effects: { attack: 2, defense: 2, rangedAttack: 1 },
+    unlocks: { units: ["hero"] },
+    faction: "Nephites"
+  },
+  
+  // Lamanite military technologies
+  {
+    id: "lamaniteWarriorTraining",
+    name: "Warrior Training",
+    description: "Lamanite melee units gain improved attack power",
+    cost: TECH_COSTS.basic,
+    prerequisites: [],
+    effects: { meleeAttack: 4 },
+    unlocks: {},
+    faction: "Lamanites"
+  },
+  
+  {
+    id: "lamaniteSwiftness",
+    name: "Swiftness",
+    description: "Lamanite units move faster",
+    cost: TECH_COSTS.advanced,
+    prerequisites: ["lamaniteWarriorTraining"],
+    effects: { speed: 1.2 },
+    unlocks: {},
+    faction: "Lamanites"
+  },
+  
+  {
+    id: "lamaniteAmbushTactics",
+    name: "Ambush Tactics",
+    description: "Units gain significant attack bonus when initiating combat",
+    cost: TECH_COSTS.elite,
+    prerequisites: ["lamaniteSwiftness"],
+    effects: { firstStrikeBonus: 5 },
+    unlocks: { units: ["hero"] },
+    faction: "Lamanites"
+  },
+  
+  // ----- ECONOMY TECHNOLOGIES -----
+  
+  // Common economy technologies
+  {
+    id: "improvedAgriculture",
+    name: "Improved Agriculture",
+    description: "More efficient food production",
+    cost: { food: 75, ore: 50 },
+    prerequisites: [],
+    effects: { foodGatherRate: 1.2 },
+    unlocks: {}
+  },
+  
+  {
+    id: "advancedMining",
+    name: "Advanced Mining",
+    description: "Improved ore extraction techniques",
+    cost: { food: 100, ore: 25 },
+    prerequisites: [],
+    effects: { oreGatherRate: 1.2 },
+    unlocks: {}
+  },
+  
+  {
+    id: "economyManagement",
+    name: "Economy Management",
+    description: "Better resource allocation and storage",
+    cost: TECH_COSTS.advanced,
+    prerequisites: ["improvedAgriculture", "advancedMining"],
+    effects: { resourceStorage: 1.5 },
+    unlocks: {}
+  },
+  
+  // Nephite economy technologies
+  {
+    id: "nephiteCraftsmen",
+    name: "Nephite Craftsmen",
+    description: "More efficient building construction",
+    cost: { food: 120, ore: 80 },
+    prerequisites: ["economyManagement"],
+    effects: { buildingCostReduction: 0.9 },
+    unlocks: {},
+    faction: "Nephites"
+  },
+  
+  // Lamanite economy technologies
+  {
+    id: "lamaniteHunters",
+    name: "Lamanite Hunters",
+    description: "More efficient food gathering",
+    cost: { food: 100, ore: 70 },
+    prerequisites: ["improvedAgriculture"],
+    effects: { foodGatherRate: 1.3 },
+    unlocks: {},
+    faction: "Lamanites"
+  },
+  
+  // ----- DEFENSE TECHNOLOGIES -----
+  
+  // Common defense technologies
+  {
+    id: "fortifications",
+    name: "Fortifications",
+    description: "Stronger walls and better defenses",
+    cost: TECH_COSTS.basic,
+    prerequisites: [],
+    effects: { buildingDefense: 5 },
+    unlocks: { buildings: ["wall"] }
+  },
+  
+  {
+    id: "advancedFortifications",
+    name: "Advanced Fortifications",
+    description: "Improved defensive structures",
+    cost: TECH_COSTS.advanced,
+    prerequisites: ["fortifications"],
+    effects: { buildingDefense: 8, buildingHealth: 1.2 },
+    unlocks: {}
+  },
+  
+  // Nephite defense technologies
+  {
+    id: "nephiteDefensiveTactics",
+    name: "Defensive Tactics",
+    description: "Advanced defensive formations inspired by Captain Moroni",
+    cost: TECH_COSTS.basic,
+    prerequisites: ["fortifications"],
+    effects: { defense: 3, buildingDefense: 2 },
+    unlocks: {},
+    faction: "Nephites"
+  },
+  
+  {
+    id: "cityFortifications",
+    name: "City Fortifications",
+    description: "Heavily fortified cities modeled after Nephite strongholds",
+    cost: TECH_COSTS.elite,
+    prerequisites: ["nephiteDefensiveTactics", "advancedFortifications"],
+    effects: { buildingHealth: 1.5, buildingDefense: 10 },
+    unlocks: {},
+    faction: "Nephites"
+  },
+  
+  // Lamanite defense technologies
+  {
+    id: "lamaniteOutposts",
+    name: "Lamanite Outposts",
+    description: "Strategic outposts to rally troops",
+    cost: TECH_COSTS.advanced,
+    prerequisites: ["fortifications"],
+    effects: { unitProductionSpeed: 1.2 },
+    unlocks: {},
+    faction: "Lamanites"
+  },
+  
+  // ----- SPECIAL TECHNOLOGIES -----
+  
+  // Nephite special technologies
+  {
+    id: "nephiteRecords",
+    name: "Nephite Record Keeping",
+    description: "Knowledge from ancient records improves all aspects of society",
+    cost: TECH_COSTS.elite,
+    prerequisites: ["nephiteDefensiveTactics", "nephiteCraftsmen"],
+    effects: { techCostReduction: 0.85, techResearchSpeed: 1.2 },
+    unlocks: {},
+    faction: "Nephites"
+  },
+  
+  {
+    id: "titleOfLiberty",
+    name: "Title of Liberty",
+    description: "Captain Moroni's rallying banner inspires your troops",
+    cost: TECH_COSTS.elite,
+    prerequisites: ["captainMoroniTactics"],
+    effects: { attack: 2, defense: 2, morale: 2 },
+    unlocks: {},
+    faction: "Nephites"
+  },
+  
+  // New Nephite unique unit and building technologies
+  {
+    id: "striplingWarriors",
+    name: "Stripling Warriors",
+    description: "Train the sons of the people of Ammon, who are known for their faith and valor",
+    cost: TECH_COSTS.elite,
+    prerequisites: ["titleOfLiberty"],
+    effects: { unitHealth: 1.1, defense: 3 },
+    unlocks: { units: ["striplingWarrior"] },
+    faction: "Nephites"
+  },
+  
+  {
+    id: "templeBlessings",
+    name: "Temple Blessings",
+    description: "Construct a temple to receive spiritual guidance and protection in battle",
+    cost: TECH_COSTS.elite,
+    prerequisites: ["nephiteRecords"],
+    effects: { unitHealing: 1.5, defense: 2 },
+    unlocks: { buildings: ["nephiteTemple"] },
+    faction: "Nephites"
+  },
+  
+  // Lamanite special technologies
+  {
+    id: "lamaniteAlliances",
+    name: "Lamanite Alliances",
+    description: "Form alliances with other tribes to strengthen your forces",
+    cost: TECH_COSTS.elite,
+    prerequisites: ["lamaniteAmbushTactics"],
+    effects: { unitProductionSpeed: 1.3, unitProductionCost: 0.9 },
+    unlocks: {},
+    faction: "Lamanites"
+  },
+  
+  // New Lamanite unique unit and building technologies
+  {
+    id: "scoutingParties",
+    name: "Scouting Parties",
+    description: "Train specialized scouts with the ability to remain hidden and gather intelligence",
+    cost: TECH_COSTS.elite,
+    prerequisites: ["lamaniteSwiftness"],
+    effects: { visionRange: 1.2, speed: 1.1 },
+    unlocks: { units: ["lamaniteScout"] },
+    faction: "Lamanites"
+  },
+  
+  {
+    id: "watchTowers",
+    name: "Watch Towers",
+    description: "Build specialized towers that grant vision advantages and boost nearby units' attack",
+    cost: TECH_COSTS.elite,
+    prerequisites: ["lamaniteOutposts"],
+    effects: { visionRange: 1.5, attack: 2 },
+    unlocks: { buildings: ["lamaniteTower"] },
+    faction: "Lamanites"
+  }
+];
+
+const techById = new Map(TECH_DEFINITIONS.map(tech => [tech.id, tech]));
+
+export function getTechDefinition(techId: string): TechDefinition | undefined {
+  return techById.get(techId);
+}
+
+/**
+ * Check whether a player may research a technology
+ * @returns A reason the research is not allowed, or null if it is
+ */
+export function getResearchBlocker(
+  techId: string,
+  faction: FactionType | null,
+  researchedTechIds: Iterable<string>
+): string | null {
+  const tech = techById.get(techId);
+  if (!tech) {
+    return `Unknown technology: ${techId}`;
+  }
+  
+  if (tech.faction && tech.faction !== faction) {
+    return `${tech.name} is only available to the ${tech.faction}`;
+  }
+  
+  const researched = new Set(researchedTechIds);
+  if (researched.has(techId)) {
+    return `${tech.name} has already been researched`;
+  }
+  
+  const missing = tech.prerequisites.filter(prereq => !researched.has(prereq));
+  if (missing.length > 0) {
+    return `${tech.name} requires ${missing.join(", ")}`;
+  }
+  
+  return null;
+}
@@ -4,11 +4,14 @@ export type FactionType = GameFactionType;
 
 export type GameEventType = 
   | "unitMove" 
-  | "unitCreate" 
+  | "gatherResource"
   | "buildingCreate" 
-  | "resourceUpdate"
   | "researchTech"
-  | "attack";
+  | "attack"
+  | "queueProduction"
+  | "cancelProduction"
+  // Issued by the server, never by clients, when a player leaves a match for good
+  | "forfeit";
 
 export interface GameEvent {
   playerId: string;
@@ -20,15 +23,99 @@ export interface PlayerData {
   id: string;
   username: string;
   faction: FactionType | null;
+  // Players on the same team are allies; null or missing plays alone
+  team?: number | null;
   ready: boolean;
+  isBot?: boolean;
 }
 
 export interface RoomData {
   roomCode: string;
   players: PlayerData[];
+  hostId?: string | null;
+  isPublic?: boolean;
+  hasPassword?: boolean;
+  // Quick-match rooms are ranked; their matches change the players' ratings
+  ranked?: boolean;
+  settings?: MatchSettings;
   gameStarted: boolean;
 }
 
+export type StartingResourceLevel = "low" | "standard" | "high";
+
+/**
+ * What eliminates a player: losing their city center, losing every unit, or whichever comes first
+ */
+export type VictoryCondition = "cityCenter" | "units" | "either";
+
+/**
+ * Match options the host picks in the lobby; they apply from the next match started
+ */
+export interface MatchSettings {
+  // Null generates a new map for every match
+  seed: number | null;
+  startingResources: StartingResourceLevel;
+  // Simulated time per real time, one of GAME_SPEEDS
+  gameSpeed: number;
+  victoryCondition: VictoryCondition;
+  // Seconds the match stream to observers lags behind the match, at least MIN_OBSERVER_DELAY
+  observerDelay: number;
+}
+
+/**
+ * A public room as listed in the room browser
+ */
+export interface RoomListing {
+  roomCode: string;
+  hostName: string | null;
+  playerCount: number;
+  maxPlayers: number;
+  factions: FactionType[];
+  hasPassword: boolean;
+  gameStarted: boolean;
+}
+
+/**
+ * Players are rated overall and separately for each faction they play
+ */
+export type RatingCategory = "overall" | FactionType;
+
+export interface LeaderboardEntry {
+  rank: number;
+  userId: number;
+  username: string;
+  rating: number;
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+/**
+ * One page of a rating category's leaderboard, best rated first
+ */
+export interface LeaderboardPage {
+  category: RatingCategory;
+  page: number;
+  pageSize: number;
+  total: number;
+  entries: LeaderboardEntry[];
+}
+
+/**
+ * Who a chat message reaches: everyone in the match, the sender's allies, or everyone in the lobby
+ */
+export type ChatScope = "all" | "team" | "lobby";
+
+export interface ChatMessage {
+  // System messages announce joins, leaves and defeats, and have no sender
+  scope: ChatScope | "system";
+  senderId: string | null;
+  senderName: string | null;
+  text: string;
+  timestamp: number;
+}
+
 export interface ServerMessage {
   type: string;
   [key: string]: any;
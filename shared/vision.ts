@@ -0,0 +1,80 @@
+// Fog of war rules shared by the server visibility filter and any client-side rendering
+import { MAP_SIZE, UNIT_STATS, BUILDING_STATS } from "../client/src/game/config";
+
+// Stealthed units are only seen by enemies this close (in tiles) unless a revealing building covers them
+export const STEALTH_REVEAL_RADIUS = 2;
+
+const DEFAULT_SIGHT = 5;
+
+/**
+ * A point that grants vision around it
+ */
+export interface VisionSource {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+/**
+ * Vision radius in tiles for a unit type
+ */
+export function getUnitSight(unitType: string): number {
+  return UNIT_STATS[unitType as keyof typeof UNIT_STATS]?.sight ?? DEFAULT_SIGHT;
+}
+
+/**
+ * Vision radius in tiles for a building type, including any visionBonus (e.g. lamaniteTower)
+ */
+export function getBuildingSight(buildingType: string): number {
+  const stats: any = BUILDING_STATS[buildingType as keyof typeof BUILDING_STATS];
+  if (!stats) return DEFAULT_SIGHT;
+
+  return stats.sight + (stats.visionBonus || 0);
+}
+
+/**
+ * Whether a building type can see stealthed enemy units anywhere in its sight radius
+ */
+export function revealsStealth(buildingType: string): boolean {
+  const stats: any = BUILDING_STATS[buildingType as keyof typeof BUILDING_STATS];
+  return !!stats?.revealsStealth;
+}
+
+/**
+ * Whether a unit is currently hidden by stealth
+ * Stealth units give away their position while attacking
+ */
+export function isStealthed(unit: { type: string; isAttacking?: boolean }): boolean {
+  const stats: any = UNIT_STATS[unit.type as keyof typeof UNIT_STATS];
+  return stats?.specialAbility === "stealth" && !unit.isAttacking;
+}
+
+/**
+ * Index of a tile in a visibility set
+ */
+export function tileKey(x: number, y: number): number {
+  return y * MAP_SIZE + x;
+}
+
+/**
+ * Collect every tile within range of at least one vision source
+ */
+export function computeVisibleTiles(sources: VisionSource[]): Set<number> {
+  const visible = new Set<number>();
+
+  sources.forEach(source => {
+    const centerX = Math.round(source.x);
+    const centerY = Math.round(source.y);
+    const radius = Math.floor(source.radius);
+
+    for (let y = Math.max(0, centerY - radius); y <= Math.min(MAP_SIZE - 1, centerY + radius); y++) {
+      for (let x = Math.max(0, centerX - radius); x <= Math.min(MAP_SIZE - 1, centerX + radius); x++) {
+        if (Math.hypot(x - source.x, y - source.y) <= source.radius) {
+          visible.add(tileKey(x, y));
+        }
+      }
+    }
+  });
+
+  return visible;
+}